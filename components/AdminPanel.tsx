@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { User } from '../types';
 import { getAllUsers, updateUserStatus, updateUserCredits, adminResetPassword, logout } from '../services/authService';
+import { UsageReport } from './UsageReport';
+import { PromptTemplateManager } from './PromptTemplateManager';
 
 interface AdminPanelProps {
   currentUser: User;
@@ -171,6 +173,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ currentUser, onLogout, onNaviga
             </table>
           </div>
         </div>
+
+        <UsageReport users={users} />
+
+        <PromptTemplateManager />
       </main>
     </div>
   );
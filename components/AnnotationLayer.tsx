@@ -0,0 +1,149 @@
+import React, { useRef, useState } from 'react';
+import { AnnotationPoint, PageAnnotation, QuestionResult } from '../types';
+import {
+  AnnotationTool,
+  createAnnotation,
+  DEFAULT_ANNOTATION_COLOR,
+  extendStroke,
+  findAnnotationAt,
+  formatStampText,
+  getAnnotationLabel,
+  getAnnotationPath,
+  getStampText,
+  getStrokeWidth,
+  getViewHeight,
+  toPagePoint,
+} from '../services/annotationService';
+
+interface AnnotationLayerProps {
+  pageIndex: number;
+  aspect: number; // Height / width of the page image
+  annotations: PageAnnotation[]; // Marks of this page
+  questions: QuestionResult[];
+  tool?: AnnotationTool | null; // Read-only when absent
+  color?: string;
+  activeQuestion?: QuestionResult; // New marks refer to it; score stamps need one
+  onAdd?: (annotation: PageAnnotation) => void;
+  onRemove?: (id: string) => void;
+}
+
+const AnnotationShape: React.FC<{ annotation: PageAnnotation; aspect: number; questions: QuestionResult[] }> = ({ annotation, aspect, questions }) => {
+  const stampText = annotation.kind === 'score' ? getStampText(annotation, questions) : '';
+  const path = getAnnotationPath(annotation, aspect, stampText);
+  const label = getAnnotationLabel(annotation, aspect, stampText);
+  return (
+    <g>
+      {path && (
+        <path d={path} fill="none" stroke={annotation.color} strokeWidth={getStrokeWidth(annotation)} strokeLinecap="round" strokeLinejoin="round" />
+      )}
+      {label && (
+        <text
+          x={label.x}
+          y={label.y}
+          fill={annotation.color}
+          fontSize={label.size}
+          fontWeight={label.bold ? 'bold' : 'normal'}
+          fontFamily="sans-serif"
+          textAnchor={label.centered ? 'middle' : 'start'}
+        >
+          {label.text}
+        </text>
+      )}
+    </g>
+  );
+};
+
+// Teacher's pen marks over one exam page; with a tool selected, pointer input on the page creates or erases marks
+export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({ pageIndex, aspect, annotations, questions, tool, color = DEFAULT_ANNOTATION_COLOR, activeQuestion, onAdd, onRemove }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draftStroke, setDraftStroke] = useState<PageAnnotation | null>(null);
+  const [pendingText, setPendingText] = useState<{ point: AnnotationPoint; value: string } | null>(null);
+  const isEditing = !!tool && !!onAdd;
+
+  const getPoint = (e: React.PointerEvent) => toPagePoint(e.clientX, e.clientY, svgRef.current!.getBoundingClientRect());
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!tool || !onAdd) return;
+    e.preventDefault();
+    e.stopPropagation();
+    // preventDefault keeps the focus in the open note, so a click elsewhere on the page closes it here
+    if (pendingText) {
+      commitText();
+      return;
+    }
+    const point = getPoint(e);
+    const questionNumber = activeQuestion?.questionNumber;
+
+    if (tool === 'eraser') {
+      const hit = findAnnotationAt(annotations, point, aspect);
+      if (hit) onRemove?.(hit.id);
+    } else if (tool === 'stroke') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDraftStroke(createAnnotation(pageIndex, 'stroke', point, color, { questionNumber }));
+    } else if (tool === 'text') {
+      setPendingText({ point, value: '' });
+    } else if (tool === 'score') {
+      if (!activeQuestion) return;
+      onAdd(createAnnotation(pageIndex, 'score', point, color, { questionNumber, text: formatStampText(activeQuestion) }));
+    } else {
+      onAdd(createAnnotation(pageIndex, tool, point, color, { questionNumber }));
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (draftStroke) setDraftStroke(extendStroke(draftStroke, getPoint(e)));
+  };
+
+  const handlePointerUp = () => {
+    if (!draftStroke) return;
+    if (draftStroke.points.length > 1) onAdd?.(draftStroke);
+    setDraftStroke(null);
+  };
+
+  const commitText = () => {
+    if (!pendingText) return;
+    const text = pendingText.value.trim();
+    if (text && onAdd) {
+      onAdd(createAnnotation(pageIndex, 'text', pendingText.point, color, { text, questionNumber: activeQuestion?.questionNumber }));
+    }
+    setPendingText(null);
+  };
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 1000 ${getViewHeight(aspect)}`}
+        preserveAspectRatio="none"
+        className={`absolute inset-0 w-full h-full ${isEditing ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDraftStroke(null)}
+        onClick={(e) => { if (isEditing) e.stopPropagation(); }}
+      >
+        {annotations.map(annotation => (
+          <AnnotationShape key={annotation.id} annotation={annotation} aspect={aspect} questions={questions} />
+        ))}
+        {draftStroke && <AnnotationShape annotation={draftStroke} aspect={aspect} questions={questions} />}
+      </svg>
+      {pendingText && (
+        <input
+          autoFocus
+          type="text"
+          value={pendingText.value}
+          onChange={(e) => setPendingText({ ...pendingText, value: e.target.value })}
+          onBlur={commitText}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') setPendingText(null);
+          }}
+          onClick={(e) => e.stopPropagation()}
+          className="absolute -translate-y-1/2 w-40 text-xs border border-red-300 rounded px-1.5 py-0.5 bg-white/95 shadow outline-none focus:border-red-500"
+          style={{ left: `${pendingText.point.x / 10}%`, top: `${pendingText.point.y / 10}%`, color }}
+          placeholder="Anotação"
+        />
+      )}
+    </>
+  );
+};
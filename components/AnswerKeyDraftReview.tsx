@@ -0,0 +1,142 @@
+import React from 'react';
+import { AnswerKeyQuestionType, ExtractedAnswerKeyItem } from '../types';
+import { QUESTION_TYPE_LABELS } from '../services/answerKeyService';
+import { LOW_CONFIDENCE_THRESHOLD } from '../services/reviewService';
+import { SkillCodesInput } from './SkillCodesInput';
+
+interface AnswerKeyDraftReviewProps {
+  items: ExtractedAnswerKeyItem[];
+  replacesExisting: boolean; // The current answer key already has questions
+  onChange: (items: ExtractedAnswerKeyItem[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Modal where the teacher checks the answer key extracted from a blank exam before grading with it
+export const AnswerKeyDraftReview: React.FC<AnswerKeyDraftReviewProps> = ({ items, replacesExisting, onChange, onConfirm, onCancel }) => {
+  const updateItem = (itemId: string, updates: Partial<ExtractedAnswerKeyItem>) => {
+    onChange(items.map(item => item.id === itemId ? { ...item, ...updates } : item));
+  };
+
+  const includedCount = items.filter(item => item.included).length;
+  const uncertainCount = items.filter(item => item.included && item.answerSource === 'proposed' && item.confidence < LOW_CONFIDENCE_THRESHOLD).length;
+  const totalPoints = items.filter(item => item.included).reduce((sum, item) => sum + item.maxScore * item.weight, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800">Confira o gabarito gerado</h3>
+          <p className="text-sm text-slate-600 mt-1">
+            {items.length} questão(ões) encontradas. Respostas <strong>propostas pela IA</strong> não estavam marcadas na prova: confira antes de corrigir os alunos.
+          </p>
+          {uncertainCount > 0 && (
+            <p className="text-sm text-amber-700 mt-1">{uncertainCount} resposta(s) com baixa confiança, destacadas abaixo.</p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {items.length === 0 && (
+            <p className="text-sm text-slate-500">Nenhuma questão foi identificada nas páginas enviadas.</p>
+          )}
+          {items.map(item => {
+            const uncertain = item.answerSource === 'proposed' && item.confidence < LOW_CONFIDENCE_THRESHOLD;
+            return (
+              <div
+                key={item.id}
+                className={`border rounded-lg p-3 space-y-2 ${!item.included ? 'opacity-50 border-slate-200' : uncertain ? 'border-amber-300 bg-amber-50/40' : 'border-slate-200'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={item.included}
+                    onChange={(e) => updateItem(item.id, { included: e.target.checked })}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    title="Incluir no gabarito"
+                  />
+                  <input
+                    type="text"
+                    value={item.questionNumber}
+                    onChange={(e) => updateItem(item.id, { questionNumber: e.target.value })}
+                    className="w-12 text-sm font-bold text-center border border-slate-300 rounded p-1 outline-none focus:border-indigo-500"
+                    title="Número da questão"
+                  />
+                  <select
+                    value={item.type}
+                    onChange={(e) => updateItem(item.id, { type: e.target.value as AnswerKeyQuestionType })}
+                    className="text-xs border border-slate-300 rounded p-1 bg-white outline-none focus:border-indigo-500"
+                  >
+                    {(Object.keys(QUESTION_TYPE_LABELS) as AnswerKeyQuestionType[]).map(type => (
+                      <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  <span className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${item.answerSource === 'marked' ? 'bg-green-50 text-green-700' : 'bg-indigo-50 text-indigo-700'}`}>
+                    {item.answerSource === 'marked' ? 'Marcada na prova' : 'Proposta pela IA'}
+                  </span>
+                  {uncertain && (
+                    <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">
+                      Confiança {Math.round(item.confidence * 100)}%
+                    </span>
+                  )}
+                  <label className="ml-auto flex items-center gap-1 text-xs text-slate-500">
+                    Valor
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.25}
+                      value={item.maxScore}
+                      onChange={(e) => updateItem(item.id, { maxScore: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-16 text-sm text-center border border-slate-300 rounded p-1 outline-none focus:border-indigo-500"
+                    />
+                  </label>
+                </div>
+
+                {item.questionText && <p className="text-sm text-slate-700 whitespace-pre-wrap">{item.questionText}</p>}
+                {item.alternatives.length > 0 && (
+                  <ol className="text-xs text-slate-600 space-y-0.5 pl-1">
+                    {item.alternatives.map((alternative, i) => (
+                      <li key={i}>
+                        <span className="font-mono text-slate-400">{String.fromCharCode(65 + i)})</span> {alternative}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+
+                <input
+                  type="text"
+                  value={item.expectedAnswer}
+                  onChange={(e) => updateItem(item.id, { expectedAnswer: e.target.value })}
+                  placeholder={item.type === 'multiple_choice' ? "Alternativa correta (ex: B)" : "Resposta esperada"}
+                  className="w-full text-sm border border-slate-300 rounded p-2 outline-none focus:border-indigo-500"
+                />
+                {item.acceptedVariants.length > 0 && (
+                  <p className="text-xs text-slate-500">Variantes aceitas: {item.acceptedVariants.join(', ')}</p>
+                )}
+                <SkillCodesInput codes={item.skills || []} onChange={(skills) => updateItem(item.id, { skills })} />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <p className="text-xs text-slate-500">
+            {includedCount} questão(ões) · {totalPoints} ponto(s)
+            {replacesExisting && ' · substitui as questões já cadastradas'}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-4 py-2 text-slate-600 text-sm font-medium hover:bg-slate-100 rounded">
+              Descartar
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={includedCount === 0}
+              className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Usar este gabarito
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { AnswerKey, AnswerKeyItem, AnswerKeyQuestionType, RubricCriterion } from '../types';
+import { createAnswerKeyItem, QUESTION_TYPE_LABELS } from '../services/answerKeyService';
+import { getRubricMaxScore } from '../services/rubricService';
+import { RubricEditor } from './RubricEditor';
+import { SkillCodesInput } from './SkillCodesInput';
+
+interface AnswerKeyEditorProps {
+  answerKey: AnswerKey;
+  onChange: (answerKey: AnswerKey) => void;
+}
+
+export const AnswerKeyEditor: React.FC<AnswerKeyEditorProps> = ({ answerKey, onChange }) => {
+  const [openRubricId, setOpenRubricId] = useState<string | null>(null);
+
+  const updateItem = (itemId: string, updates: Partial<AnswerKeyItem>) => {
+    onChange({
+      ...answerKey,
+      items: answerKey.items.map(item => item.id === itemId ? { ...item, ...updates } : item)
+    });
+  };
+
+  // With a rubric, the question value is the sum of the best level of each criterion
+  const handleRubricChange = (item: AnswerKeyItem, rubric: RubricCriterion[]) => {
+    updateItem(item.id, {
+      rubric,
+      maxScore: rubric.length > 0 ? getRubricMaxScore(rubric) : item.maxScore
+    });
+  };
+
+  const handleAddItem = () => {
+    // Suggest the next number after the last numeric question
+    const lastNumber = parseInt(answerKey.items[answerKey.items.length - 1]?.questionNumber || '0', 10);
+    const nextNumber = isNaN(lastNumber) ? '' : String(lastNumber + 1);
+    onChange({ ...answerKey, items: [...answerKey.items, createAnswerKeyItem(nextNumber)] });
+  };
+
+  const handleRemoveItem = (itemId: string) => {
+    onChange({ ...answerKey, items: answerKey.items.filter(item => item.id !== itemId) });
+  };
+
+  const totalPoints = answerKey.items.reduce((acc, item) => acc + item.maxScore * item.weight, 0);
+
+  return (
+    <div className="space-y-3">
+      {answerKey.items.length > 0 && (
+        <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {answerKey.items.map(item => (
+            <div key={item.id} className="border border-slate-200 rounded-lg p-2 space-y-2 bg-slate-50/50">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={item.questionNumber}
+                  onChange={(e) => updateItem(item.id, { questionNumber: e.target.value })}
+                  className="w-12 text-sm font-bold text-center border border-slate-300 rounded p-1 outline-none focus:border-indigo-500"
+                  placeholder="Nº"
+                  title="Número da questão"
+                />
+                <select
+                  value={item.type}
+                  onChange={(e) => updateItem(item.id, { type: e.target.value as AnswerKeyQuestionType })}
+                  className="flex-1 min-w-0 text-xs border border-slate-300 rounded p-1 bg-white outline-none focus:border-indigo-500"
+                >
+                  {(Object.keys(QUESTION_TYPE_LABELS) as AnswerKeyQuestionType[]).map(type => (
+                    <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleRemoveItem(item.id)}
+                  className="text-slate-400 hover:text-red-600 p-1 rounded transition-colors"
+                  title="Remover questão"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              <input
+                type="text"
+                value={item.expectedAnswer}
+                onChange={(e) => updateItem(item.id, { expectedAnswer: e.target.value })}
+                className="w-full text-sm border border-slate-300 rounded p-1.5 outline-none focus:border-indigo-500"
+                placeholder={item.type === 'multiple_choice' ? "Alternativa correta (ex: B)" : "Resposta esperada"}
+              />
+
+              {item.type !== 'essay' && (
+                <input
+                  type="text"
+                  value={item.acceptedVariants.join('; ')}
+                  onChange={(e) => updateItem(item.id, { acceptedVariants: e.target.value.split(';').map(v => v.trim()).filter(Boolean) })}
+                  className="w-full text-xs border border-slate-200 rounded p-1.5 outline-none focus:border-indigo-500"
+                  placeholder="Variantes aceitas, separadas por ; (ex: 0,5; 1/2)"
+                />
+              )}
+
+              <SkillCodesInput codes={item.skills || []} onChange={(skills) => updateItem(item.id, { skills })} />
+
+              <div className="flex items-center gap-3 text-xs text-slate-500">
+                <label className="flex items-center gap-1">
+                  Pontos
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={item.maxScore}
+                    onChange={(e) => updateItem(item.id, { maxScore: parseFloat(e.target.value) || 0 })}
+                    disabled={!!item.rubric && item.rubric.length > 0}
+                    title={item.rubric && item.rubric.length > 0 ? "Calculado pela rubrica" : undefined}
+                    className="w-16 font-mono text-slate-700 border border-slate-300 rounded p-1 outline-none focus:border-indigo-500 disabled:bg-slate-100 disabled:text-slate-400"
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  Peso
+                  <input
+                    type="number"
+                    step="0.5"
+                    min="0"
+                    value={item.weight}
+                    onChange={(e) => updateItem(item.id, { weight: parseFloat(e.target.value) || 0 })}
+                    className="w-14 font-mono text-slate-700 border border-slate-300 rounded p-1 outline-none focus:border-indigo-500"
+                  />
+                </label>
+                {(item.type === 'short_answer' || item.type === 'essay') && (
+                  <button
+                    onClick={() => setOpenRubricId(openRubricId === item.id ? null : item.id)}
+                    className={`ml-auto font-medium hover:underline ${item.rubric && item.rubric.length > 0 ? 'text-indigo-700' : 'text-slate-500'}`}
+                  >
+                    Rubrica{item.rubric && item.rubric.length > 0 ? ` (${item.rubric.length})` : ''}
+                  </button>
+                )}
+              </div>
+
+              {openRubricId === item.id && (item.type === 'short_answer' || item.type === 'essay') && (
+                <RubricEditor criteria={item.rubric || []} onChange={(rubric) => handleRubricChange(item, rubric)} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={handleAddItem}
+          className="text-sm font-medium text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+          </svg>
+          Adicionar questão
+        </button>
+        {answerKey.items.length > 0 && (
+          <span className="text-xs text-slate-500">Total: <strong>{Math.round(totalPoints * 100) / 100}</strong> pts</span>
+        )}
+      </div>
+
+      <div>
+        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1">Instruções adicionais (opcional)</label>
+        <textarea
+          value={answerKey.instructions}
+          onChange={(e) => onChange({ ...answerKey, instructions: e.target.value })}
+          placeholder="Ex: Questão 4 deve mencionar a Revolução Francesa... Aceite respostas sem unidade de medida..."
+          className="w-full h-28 p-3 text-sm border border-slate-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none outline-none transition-shadow"
+        ></textarea>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React from 'react';
+import { AnswerKey, BatchItem, BatchItemStatus, CorrectionResult, ScoringPolicy } from '../types';
+import { getPendingReviewCount } from '../services/reviewService';
+import { summarizeClass, summarizeGrade } from '../services/scoringPolicyService';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  policy: ScoringPolicy;
+  answerKey: AnswerKey;
+  isRunning: boolean;
+  isProcessingFiles: boolean;
+  onAddFiles: (files: File[]) => void;
+  onOpen: (itemId: string) => void;
+  onRetry: (itemId: string) => void;
+  onRemove: (itemId: string) => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Na fila', className: 'bg-slate-100 text-slate-600 border-slate-200' },
+  analyzing: { label: 'Analisando', className: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
+  done: { label: 'Concluída', className: 'bg-green-50 text-green-700 border-green-200' },
+  failed: { label: 'Falhou', className: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ items, policy, answerKey, isRunning, isProcessingFiles, onAddFiles, onOpen, onRetry, onRemove }) => {
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const failedCount = items.filter(i => i.status === 'failed').length;
+  const gradedResults = items.filter(i => i.status === 'done' && i.result).map(i => i.result as CorrectionResult);
+  const classSummary = summarizeClass(gradedResults, policy, answerKey);
+
+  const formatGrade = (result: CorrectionResult) => {
+    const grade = summarizeGrade(result, policy, answerKey);
+    return `${grade.gradeText} ${grade.scaleText}`.trim();
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      onAddFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onAddFiles(Array.from(e.target.files));
+      e.target.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop}
+        className="border-2 border-dashed rounded-xl p-6 text-center transition-all duration-200 border-slate-300 hover:border-indigo-400 hover:bg-slate-50"
+      >
+        <input
+          type="file"
+          accept="image/*,application/pdf"
+          multiple
+          onChange={handleFileChange}
+          className="hidden"
+          id="batch-upload"
+        />
+        <label htmlFor="batch-upload" className="cursor-pointer flex flex-col items-center justify-center gap-2">
+          <div className="bg-indigo-50 p-3 rounded-full text-indigo-600">
+            {isProcessingFiles ? (
+              <div className="w-6 h-6 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M18 18.72a9.094 9.094 0 003.741-.479 3 3 0 00-4.682-2.72m.94 3.198l.001.031c0 .225-.012.447-.037.666A11.944 11.944 0 0112 21c-2.17 0-4.207-.576-5.963-1.584A6.062 6.062 0 016 18.719m12 0a5.971 5.971 0 00-.941-3.197m0 0A5.995 5.995 0 0012 12.75a5.995 5.995 0 00-5.058 2.772m0 0a3 3 0 00-4.681 2.72 8.986 8.986 0 003.74.477m.94-3.197a5.971 5.971 0 00-.94 3.197M15 6.75a3 3 0 11-6 0 3 3 0 016 0zm6 3a2.25 2.25 0 11-4.5 0 2.25 2.25 0 014.5 0zm-13.5 0a2.25 2.25 0 11-4.5 0 2.25 2.25 0 014.5 0z" />
+              </svg>
+            )}
+          </div>
+          <p className="text-base font-medium text-slate-700">Adicione as provas da turma</p>
+          <p className="text-sm text-slate-400">Um arquivo por aluno: imagem ou PDF com todas as páginas da prova</p>
+        </label>
+      </div>
+
+      {items.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2 px-1">
+            <p className="text-sm font-medium text-slate-700">{items.length} prova(s) na fila</p>
+            <p className="text-xs text-slate-500">
+              <span className="text-green-600 font-bold">{doneCount}</span> concluída(s)
+              {failedCount > 0 && <> · <span className="text-red-600 font-bold">{failedCount}</span> com falha</>}
+            </p>
+          </div>
+
+          <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl overflow-hidden">
+            {items.map(item => {
+              const status = STATUS_STYLES[item.status];
+              return (
+                <li key={item.id} className="flex items-center gap-3 px-4 py-3 bg-white">
+                  <img src={item.pages[0]?.previewUrl} alt="" className="w-10 h-12 object-cover rounded border border-slate-200 bg-slate-50 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-800 truncate">{item.label}</p>
+                    <p className="text-xs text-slate-400">
+                      {item.pages.length} página(s)
+                      {item.result && ` · Nota ${formatGrade(item.result)}`}
+                      {item.result?.isFinal && <span className="text-green-600 font-medium"> · Finalizada</span>}
+                      {item.result && !item.result.isFinal && getPendingReviewCount(item.result.questions) > 0 && (
+                        <span className="text-amber-600 font-medium"> · {getPendingReviewCount(item.result.questions)} para revisar</span>
+                      )}
+                    </p>
+                    {item.error && <p className="text-xs text-red-600 truncate">{item.error}</p>}
+                  </div>
+
+                  <span className={`text-[10px] font-bold uppercase tracking-wide px-2 py-1 rounded-full border flex items-center gap-1 shrink-0 ${status.className}`}>
+                    {item.status === 'analyzing' && (
+                      <span className="w-2.5 h-2.5 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></span>
+                    )}
+                    {status.label}
+                  </span>
+
+                  <div className="flex items-center gap-1 shrink-0">
+                    {item.status === 'done' && (
+                      <button
+                        onClick={() => onOpen(item.id)}
+                        className="text-xs font-bold text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded-lg transition-colors"
+                      >
+                        Revisar
+                      </button>
+                    )}
+                    {item.status === 'failed' && (
+                      <button
+                        onClick={() => onRetry(item.id)}
+                        className="text-xs font-bold text-amber-700 hover:bg-amber-50 px-2 py-1 rounded-lg transition-colors"
+                      >
+                        Tentar novamente
+                      </button>
+                    )}
+                    {item.status !== 'analyzing' && !(isRunning && item.status === 'queued') && (
+                      <button
+                        onClick={() => onRemove(item.id)}
+                        className="text-slate-400 hover:text-red-600 p-1 rounded transition-colors"
+                        title="Remover da fila"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          {classSummary.count > 0 && (
+            <div className="flex items-center justify-between mt-2 px-1 text-xs text-slate-500">
+              <span>Média da turma: <span className="font-bold text-slate-700">{classSummary.averageText}</span></span>
+              <span>
+                Atingiram o mínimo: <span className="font-bold text-green-600">{classSummary.passedCount}</span> de {classSummary.count}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { CONSENSUS_RUN_OPTIONS, ConsensusSettings as ConsensusSettingsValue } from '../services/consensusService';
+
+interface ConsensusSettingsProps {
+  settings: ConsensusSettingsValue;
+  onChange: (updates: Partial<ConsensusSettingsValue>) => void;
+  disabled?: boolean;
+}
+
+const TOLERANCE_OPTIONS = [0, 0.1, 0.2, 0.25];
+
+// Collapsible panel to grade high-stakes exams several times and compare the runs
+export const ConsensusSettings: React.FC<ConsensusSettingsProps> = ({ settings, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleModelChange = (run: number, model: string) => {
+    const models = [...settings.models];
+    models[run] = model;
+    onChange({ models });
+  };
+
+  return (
+    <div className="mt-4 border border-slate-200 rounded-xl text-left">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-slate-700"
+      >
+        <span className="flex items-center gap-2">
+          Modo consenso
+          <span className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${settings.enabled ? 'bg-green-50 text-green-700' : 'bg-slate-100 text-slate-500'}`}>
+            {settings.enabled ? `${settings.runs} correções` : 'Desligado'}
+          </span>
+        </span>
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 border-t border-slate-100 pt-3">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              disabled={disabled}
+              onChange={(e) => onChange({ enabled: e.target.checked })}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Corrigir mais de uma vez e comparar
+          </label>
+          <p className="text-xs text-slate-500">
+            Indicado para provas bimestrais e de recuperação. Cada correção consome 1 crédito; as questões em que as correções divergem ficam marcadas para revisão.
+          </p>
+
+          <div className={`space-y-3 ${settings.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-sm text-slate-600">
+                Correções
+                <select
+                  value={settings.runs}
+                  disabled={disabled}
+                  onChange={(e) => onChange({ runs: Number(e.target.value) })}
+                  className="mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+                >
+                  {CONSENSUS_RUN_OPTIONS.map(runs => (
+                    <option key={runs} value={runs}>{runs}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-slate-600">
+                Tolerância na nota
+                <select
+                  value={settings.scoreTolerance}
+                  disabled={disabled}
+                  onChange={(e) => onChange({ scoreTolerance: Number(e.target.value) })}
+                  className="mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+                >
+                  {TOLERANCE_OPTIONS.map(tolerance => (
+                    <option key={tolerance} value={tolerance}>{tolerance === 0 ? 'Nenhuma' : `${tolerance * 100}% do valor`}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs text-slate-500">Modelos (opcional, do mesmo provedor). Em branco usa o modelo padrão.</p>
+              {Array.from({ length: settings.runs }, (_, run) => (
+                <input
+                  key={run}
+                  type="text"
+                  value={settings.models[run] || ''}
+                  disabled={disabled}
+                  onChange={(e) => handleModelChange(run, e.target.value)}
+                  placeholder={`Correção ${run + 1}: modelo padrão`}
+                  className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1 outline-none focus:border-indigo-500"
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,34 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { analyzeExam } from '../services/geminiService';
-import { consumeCredit, changeOwnPassword, reloadUser } from '../services/authService';
-import { CorrectionResult, User } from '../types';
+import { analyzeEssay, analyzeExam, extractAnswerKey } from '../services/geminiService';
+import { isAbortError } from '../services/aiProvider';
+import { consumeCredit, changeOwnPassword, reloadUser, saveUsageRecord, getPromptTemplates } from '../services/authService';
+import { createCreditChargeRecord, setUsageListener } from '../services/usageService';
+import { createBatchItems, expandToPages, isSupportedExamFile, reorderPages, revokePageUrls } from '../services/pageService';
+import { loadPreprocessOptions, preprocessPage, preprocessPages, PreprocessOptions, savePreprocessOptions } from '../services/imagePreprocessService';
+import { createEmptyAnswerKey, toAnswerKeyItems } from '../services/answerKeyService';
+import { resolveScoringPolicy } from '../services/scoringPolicyService';
+import { loadFeedbackStyle, saveFeedbackStyle } from '../services/feedbackStyleService';
+import { DEFAULT_PROMPT_TEMPLATE, findTemplateVersion, getLatestVersions, loadSelectedTemplateId, saveSelectedTemplateId, toTemplateRef } from '../services/promptTemplateService';
+import { ConsensusSettings as ConsensusSettingsValue, loadConsensusSettings, saveConsensusSettings } from '../services/consensusService';
+import { cacheCorrection, CachedCorrection, computeAnalysisHash, findCachedCorrection } from '../services/resultCacheService';
+import { AnswerKey, BatchItem, CorrectionResult, EssayResult, ExamPage, ExtractedAnswerKeyItem, OmrSheetLayout, FeedbackStyle, PageCorners, PromptTemplate, User } from '../types';
+import { DEFAULT_OMR_LAYOUT, readAnswerSheet } from '../services/omrService';
 import { Spinner } from './Spinner';
 import ResultsView from './ResultsView';
+import EssayResultsView from './EssayResultsView';
 import { PaymentModal } from './PaymentModal';
+import { BatchQueue } from './BatchQueue';
+import { AnswerKeyEditor } from './AnswerKeyEditor';
+import { AnswerKeyDraftReview } from './AnswerKeyDraftReview';
+import { PageCropEditor } from './PageCropEditor';
+import { PreprocessSettings } from './PreprocessSettings';
+import { OmrSheetSettings } from './OmrSheetSettings';
+import { ConsensusSettings } from './ConsensusSettings';
+import { ScoringPolicySettings } from './ScoringPolicySettings';
+import { FeedbackStyleSettings } from './FeedbackStyleSettings';
+
+const OMR_READ_ERROR = "Não foi possível ler o cartão-resposta. Fotografe a folha inteira, com as quatro marcas pretas dos cantos visíveis.";
+const CANCELLED_MESSAGE = "Análise cancelada. Nenhum crédito foi debitado.";
 
 interface DashboardProps {
   user: User;
@@ -14,21 +38,54 @@ interface DashboardProps {
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onUserUpdate, onNavigateToAdmin }) => {
-  const [file, setFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [context, setContext] = useState<string>("");
+  const [pages, setPages] = useState<ExamPage[]>([]);
+  const [isProcessingFiles, setIsProcessingFiles] = useState(false);
+  const [draggedPageIndex, setDraggedPageIndex] = useState<number | null>(null);
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(loadPreprocessOptions);
+  const [consensusSettings, setConsensusSettings] = useState<ConsensusSettingsValue>(loadConsensusSettings);
+  // Every saved version, so corrections can find the exact template that produced them
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>(loadSelectedTemplateId);
+  const [feedbackStyle, setFeedbackStyle] = useState<FeedbackStyle>(loadFeedbackStyle);
+  const [editingPageId, setEditingPageId] = useState<string | null>(null);
+  const [answerKey, setAnswerKey] = useState<AnswerKey>(createEmptyAnswerKey());
+  const [answerKeyDraft, setAnswerKeyDraft] = useState<ExtractedAnswerKeyItem[] | null>(null);
+  const [isExtractingKey, setIsExtractingKey] = useState(false);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<CorrectionResult | null>(null);
+  const [partialResult, setPartialResult] = useState<CorrectionResult | null>(null);
+  // Content hash of the pages, answer key and analysis settings behind `result`, used to keep the cached copy up to date
+  const [resultHash, setResultHash] = useState<string | null>(null);
+  const [duplicateMatch, setDuplicateMatch] = useState<CachedCorrection | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showPasswordModal, setShowPasswordModal] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+
+  // Redação (essay) mode state
+  const [essayTheme, setEssayTheme] = useState("");
+  const [essayInstructions, setEssayInstructions] = useState("");
+  const [essayResult, setEssayResult] = useState<EssayResult | null>(null);
+
+  // Batch (whole class) mode state
+  const [mode, setMode] = useState<'single' | 'batch' | 'essay'>('single');
+  // Exams can be read by the AI or, for bubble sheets, locally without credits
+  const [readingMethod, setReadingMethod] = useState<'ai' | 'omr'>('ai');
+  const [omrLayout, setOmrLayout] = useState<OmrSheetLayout>(DEFAULT_OMR_LAYOUT);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [reviewingItemId, setReviewingItemId] = useState<string | null>(null);
+  // Mirror of batchItems so the running queue always sees the latest statuses (e.g. retries)
+  const batchItemsRef = useRef<BatchItem[]>([]);
+  // Controller of the analysis in progress (single exam, essay or the running batch)
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Password change state
   const [passData, setPassData] = useState({ current: '', new: '', confirm: '' });
   const [passMsg, setPassMsg] = useState({ type: '', text: '' });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const blankExamInputRef = useRef<HTMLInputElement>(null);
 
   // Refresh user data on mount to ensure credits are up to date
   useEffect(() => {
@@ -39,39 +96,197 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onUserUpdate, onN
     fetchUser();
   }, []);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const selectedFile = e.target.files[0];
-      setFile(selectedFile);
-      setPreviewUrl(URL.createObjectURL(selectedFile));
-      setResult(null);
+  // Every AI call is logged for the signed-in user so admins can compare token costs with credit prices
+  useEffect(() => {
+    setUsageListener(record => { saveUsageRecord(user.id, record); });
+    return () => setUsageListener(null);
+  }, [user.id]);
+
+  useEffect(() => {
+    getPromptTemplates().then(setPromptTemplates);
+  }, []);
+
+  // Leaving the dashboard cancels whatever is still being analyzed
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Appends the selected files (images or PDFs) to the current list of pages
+  const addFiles = async (selectedFiles: File[]) => {
+    const supported = selectedFiles.filter(isSupportedExamFile);
+    if (supported.length < selectedFiles.length) {
+      setError("Por favor, envie apenas imagens ou arquivos PDF.");
+    } else {
       setError(null);
     }
+    if (supported.length === 0) return;
+
+    setIsProcessingFiles(true);
+    try {
+      const newPages = await preprocessPages(await expandToPages(supported), preprocessOptions);
+      setPages(prev => [...prev, ...newPages]);
+      setResult(null);
+    } catch (err) {
+      console.error("Error processing uploaded files", err);
+      setError("Não foi possível ler um dos arquivos enviados.");
+    } finally {
+      setIsProcessingFiles(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(Array.from(e.target.files));
+      // Allow selecting the same file again after removing it
+      e.target.value = "";
+    }
   };
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const selectedFile = e.dataTransfer.files[0];
-      if (selectedFile.type.startsWith('image/')) {
-        setFile(selectedFile);
-        setPreviewUrl(URL.createObjectURL(selectedFile));
-        setResult(null);
-        setError(null);
-      } else {
-        setError("Por favor, envie apenas arquivos de imagem.");
-      }
+    // Thumbnail reordering also fires drop events; only handle real files here
+    if (draggedPageIndex !== null) return;
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      addFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const handleRemovePage = (index: number) => {
+    setPages(prev => {
+      revokePageUrls(prev[index]);
+      return prev.filter((_, i) => i !== index);
+    });
+  };
+
+  // Reads the questions (and any marked answers) of a blank exam into a draft answer key for the teacher to review.
+  // No credit is charged: it only prepares the grading, but the AI usage is still recorded.
+  const handleBlankExamChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = "";
+    const supported = selectedFiles.filter(isSupportedExamFile);
+    if (supported.length === 0) {
+      if (selectedFiles.length > 0) setError("Por favor, envie apenas imagens ou arquivos PDF.");
+      return;
+    }
+
+    setIsExtractingKey(true);
+    setError(null);
+    let blankPages: ExamPage[] = [];
+    try {
+      blankPages = await preprocessPages(await expandToPages(supported), preprocessOptions);
+      setAnswerKeyDraft(await extractAnswerKey(blankPages.map(page => page.file)));
+    } catch (err) {
+      console.error("Error extracting answer key", err);
+      setError("Não foi possível gerar o gabarito a partir da prova enviada. Tente novamente ou cadastre as questões manualmente.");
+    } finally {
+      blankPages.forEach(revokePageUrls);
+      setIsExtractingKey(false);
     }
   };
 
+  const handleConfirmAnswerKeyDraft = () => {
+    if (!answerKeyDraft) return;
+    if (answerKey.items.length > 0 && !confirm("Substituir as questões já cadastradas no gabarito pelas questões geradas?")) return;
+    // Instructions and scoring policy stay as they were
+    setAnswerKey(prev => ({ ...prev, items: toAnswerKeyItems(answerKeyDraft) }));
+    setAnswerKeyDraft(null);
+  };
+
+  // AI corrections cost one credit per grading run (several in consensus mode); this is the most a correction can cost
+  const examCreditCost = consensusSettings.enabled ? consensusSettings.runs : 1;
+  // Only the consensus runs that finished are charged
+  const getCreditCost = (correction: CorrectionResult) => correction.consensusRuns || 1;
+
+  // Logs the credits billed for a correction; the usage report divides AI cost by these, so free runs never count
+  const recordCreditCharge = (correctionId: string | undefined, credits: number) => {
+    if (correctionId && user.role !== 'admin') saveUsageRecord(user.id, createCreditChargeRecord(correctionId, credits));
+  };
+
+  const availableTemplates = [DEFAULT_PROMPT_TEMPLATE, ...getLatestVersions(promptTemplates)];
+  // New analyses use the latest version of the selected template
+  const selectedTemplate = availableTemplates.find(t => t.templateId === selectedTemplateId) || DEFAULT_PROMPT_TEMPLATE;
+  const getResultTemplate = (correction: CorrectionResult) =>
+    findTemplateVersion([DEFAULT_PROMPT_TEMPLATE, ...promptTemplates], correction.promptTemplate) || selectedTemplate;
+
+  const handleTemplateChange = (templateId: string) => {
+    setSelectedTemplateId(templateId);
+    saveSelectedTemplateId(templateId);
+  };
+
+  const handleFeedbackStyleChange = (updates: Partial<FeedbackStyle>) => {
+    const updated = { ...feedbackStyle, ...updates };
+    setFeedbackStyle(updated);
+    saveFeedbackStyle(updated);
+  };
+
+  const handleConsensusSettingsChange = (updates: Partial<ConsensusSettingsValue>) => {
+    const updated = { ...consensusSettings, ...updates };
+    setConsensusSettings(updated);
+    saveConsensusSettings(updated);
+  };
+
+  const handlePreprocessOptionsChange = (updates: Partial<PreprocessOptions>) => {
+    const updated = { ...preprocessOptions, ...updates };
+    setPreprocessOptions(updated);
+    savePreprocessOptions(updated);
+  };
+
+  // Re-runs the preprocessing on the uploaded pages (manual crops are replaced by the automatic ones)
+  const handleReprocessPages = async () => {
+    setIsProcessingFiles(true);
+    try {
+      setPages(await preprocessPages(pages, preprocessOptions));
+    } catch (err) {
+      console.error("Error preprocessing pages", err);
+      setError("Não foi possível tratar as imagens enviadas.");
+    } finally {
+      setIsProcessingFiles(false);
+    }
+  };
+
+  const handleApplyCrop = async (pageId: string, corners: PageCorners) => {
+    const page = pages.find(p => p.id === pageId);
+    if (!page) return;
+    const updated = await preprocessPage(page, preprocessOptions, corners);
+    setPages(prev => prev.map(p => p.id === pageId ? updated : p));
+  };
+
+  const handlePageDrop = (targetIndex: number) => {
+    if (draggedPageIndex === null || draggedPageIndex === targetIndex) return;
+    setPages(prev => reorderPages(prev, draggedPageIndex, targetIndex));
+    setDraggedPageIndex(null);
+  };
+
+  // Before paying for an analysis, look for a previous correction of the same pages with the same answer key and settings
   const handleAnalyze = async () => {
-    if (!file) return;
+    if (pages.length === 0) return;
 
-    if (user.role !== 'admin' && user.credits <= 0) {
+    setError(null);
+    let hash: string | null = null;
+    try {
+      hash = await computeAnalysisHash(pages.map(p => p.original?.file ?? p.file), answerKey, {
+        template: toTemplateRef(selectedTemplate),
+        feedbackStyle,
+        consensus: consensusSettings,
+      });
+    } catch (err) {
+      console.error("Error hashing exam pages", err);
+    }
+
+    const cached = hash ? findCachedCorrection(hash, user.id) : undefined;
+    if (cached) {
+      setDuplicateMatch(cached);
+      return;
+    }
+    await analyzePages(hash);
+  };
+
+  const analyzePages = async (hash: string | null) => {
+    if (user.role !== 'admin' && user.credits < examCreditCost) {
       setError("Você não possui créditos suficientes. Contate o administrador.");
       return;
     }
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setLoading(true);
     setError(null);
 
@@ -80,35 +295,269 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onUserUpdate, onN
       // Actually, typically you consume credit only if success, BUT to prevent abuse we often reserve.
       // Here we will try to analyze first.
       
-      const correction = await analyzeExam(file, context);
+      const correction = await analyzeExam(pages.map(p => p.file), answerKey, {
+        signal: controller.signal,
+        onPartial: setPartialResult,
+        consensus: consensusSettings,
+        template: selectedTemplate,
+        feedbackStyle,
+      });
+      // A cancel that arrives after the response must not be charged
+      controller.signal.throwIfAborted();
       
-      // 2. Consume Credit
-      const creditConsumed = await consumeCredit(user.id);
+      // 2. Consume Credit (one per finished grading run in consensus mode)
+      const creditCost = getCreditCost(correction);
+      const creditConsumed = await consumeCredit(user.id, creditCost);
       if (creditConsumed || user.role === 'admin') {
+         if (creditConsumed) recordCreditCharge(correction.id, creditCost);
          const updatedUser = await reloadUser();
          if (updatedUser) onUserUpdate(updatedUser);
          setResult(correction);
+         setResultHash(hash);
+         if (hash) cacheCorrection(hash, user.id, correction);
       } else {
          setError("Erro ao debitar crédito. A análise não foi exibida.");
       }
 
     } catch (err) {
-      setError("Ocorreu um erro ao corrigir a prova. Verifique sua chave de API ou tente novamente.");
-      console.error(err);
+      if (isAbortError(err)) {
+        setError(CANCELLED_MESSAGE);
+      } else {
+        setError("Ocorreu um erro ao corrigir a prova. Verifique sua chave de API ou tente novamente.");
+        console.error(err);
+      }
     } finally {
+      abortControllerRef.current = null;
+      setPartialResult(null);
       setLoading(false);
     }
   };
 
+  const handleReopenCached = () => {
+    if (!duplicateMatch) return;
+    setResult(duplicateMatch.result);
+    setResultHash(duplicateMatch.hash);
+    setDuplicateMatch(null);
+  };
+
+  const handleAnalyzeAgain = () => {
+    if (!duplicateMatch) return;
+    const { hash } = duplicateMatch;
+    setDuplicateMatch(null);
+    analyzePages(hash);
+  };
+
+  const handleReadAnswerSheet = async () => {
+    if (pages.length !== 1) {
+      setError("Envie uma única foto do cartão-resposta. Para corrigir vários alunos, use o modo Turma.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(await readAnswerSheet(pages[0].file, omrLayout, answerKey));
+      setResultHash(null);
+    } catch (err) {
+      console.error("Error reading answer sheet", err);
+      setError(OMR_READ_ERROR);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAnalyzeEssay = async () => {
+    if (pages.length === 0) return;
+
+    if (user.role !== 'admin' && user.credits <= 0) {
+      setError("Você não possui créditos suficientes. Contate o administrador.");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const essay = await analyzeEssay(pages.map(p => p.file), essayTheme, essayInstructions, controller.signal);
+      controller.signal.throwIfAborted();
+
+      const creditConsumed = await consumeCredit(user.id);
+      if (creditConsumed || user.role === 'admin') {
+         if (creditConsumed) recordCreditCharge(essay.id, 1);
+         const updatedUser = await reloadUser();
+         if (updatedUser) onUserUpdate(updatedUser);
+         setEssayResult(essay);
+      } else {
+         setError("Erro ao debitar crédito. A análise não foi exibida.");
+      }
+    } catch (err) {
+      if (isAbortError(err)) {
+        setError(CANCELLED_MESSAGE);
+      } else {
+        setError("Ocorreu um erro ao corrigir a redação. Verifique sua chave de API ou tente novamente.");
+        console.error(err);
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const handleCancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleReset = () => {
-    setFile(null);
-    setPreviewUrl(null);
+    pages.forEach(revokePageUrls);
+    setPages([]);
     setResult(null);
+    setResultHash(null);
+    setEssayResult(null);
     setError(null);
-    setContext("");
+    setAnswerKey(createEmptyAnswerKey());
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
+  const updateBatchItems = (updater: (items: BatchItem[]) => BatchItem[]) => {
+    batchItemsRef.current = updater(batchItemsRef.current);
+    setBatchItems(batchItemsRef.current);
+  };
+
+  const updateBatchItem = (itemId: string, updates: Partial<BatchItem>) => {
+    updateBatchItems(items => items.map(i => i.id === itemId ? { ...i, ...updates } : i));
+  };
+
+  const handleAddBatchFiles = async (selectedFiles: File[]) => {
+    const supported = selectedFiles.filter(isSupportedExamFile);
+    if (supported.length < selectedFiles.length) {
+      setError("Por favor, envie apenas imagens ou arquivos PDF.");
+    } else {
+      setError(null);
+    }
+    if (supported.length === 0) return;
+
+    setIsProcessingFiles(true);
+    try {
+      const newItems = await createBatchItems(supported);
+      for (const item of newItems) {
+        item.pages = await preprocessPages(item.pages, preprocessOptions);
+      }
+      updateBatchItems(items => [...items, ...newItems]);
+    } catch (err) {
+      console.error("Error processing batch files", err);
+      setError("Não foi possível ler um dos arquivos enviados.");
+    } finally {
+      setIsProcessingFiles(false);
+    }
+  };
+
+  // Analyzes one queued item. Returns false when the batch must stop (no credits left or cancelled).
+  const processBatchItem = async (item: BatchItem, signal: AbortSignal): Promise<boolean> => {
+    updateBatchItem(item.id, { status: 'analyzing', error: undefined });
+
+    // Bubble sheets are read locally and never consume credits
+    if (readingMethod === 'omr') {
+      try {
+        const sheet = await readAnswerSheet(item.pages[0].file, omrLayout, answerKey);
+        updateBatchItem(item.id, { status: 'done', result: { ...sheet, studentName: item.label.replace(/\.[^.]+$/, '') } });
+      } catch (err) {
+        console.error(`Error reading answer sheet ${item.label}`, err);
+        updateBatchItem(item.id, { status: 'failed', error: "Cartão-resposta não reconhecido." });
+      }
+      return true;
+    }
+
+    let correction: CorrectionResult;
+    try {
+      correction = await analyzeExam(item.pages.map(p => p.file), answerKey, { signal, consensus: consensusSettings, template: selectedTemplate, feedbackStyle });
+    } catch (err) {
+      if (isAbortError(err)) {
+        updateBatchItem(item.id, { status: 'queued' });
+        return false;
+      }
+      console.error(`Error analyzing batch item ${item.label}`, err);
+      updateBatchItem(item.id, { status: 'failed', error: "Erro na análise. Tente novamente." });
+      return true;
+    }
+
+    // Credit is only consumed for items that were analyzed successfully
+    if (signal.aborted) {
+      updateBatchItem(item.id, { status: 'queued' });
+      return false;
+    }
+    const creditCost = getCreditCost(correction);
+    const creditConsumed = await consumeCredit(user.id, creditCost);
+    if (!creditConsumed && user.role !== 'admin') {
+      updateBatchItem(item.id, { status: 'failed', error: "Créditos insuficientes." });
+      return false;
+    }
+    if (creditConsumed) recordCreditCharge(correction.id, creditCost);
+
+    updateBatchItem(item.id, {
+      status: 'done',
+      result: correction,
+      label: correction.studentName || item.label
+    });
+    const updatedUser = await reloadUser();
+    if (updatedUser) onUserUpdate(updatedUser);
+    return true;
+  };
+
+  // Processes queued items one at a time until the queue is empty
+  const runBatch = async () => {
+    if (isBatchRunning) return;
+
+    if (readingMethod === 'ai' && user.role !== 'admin' && user.credits < examCreditCost) {
+      setError("Você não possui créditos suficientes. Contate o administrador.");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsBatchRunning(true);
+    setError(null);
+    try {
+      let next = batchItemsRef.current.find(i => i.status === 'queued');
+      while (next && !controller.signal.aborted) {
+        const shouldContinue = await processBatchItem(next, controller.signal);
+        if (!shouldContinue) {
+          setError(controller.signal.aborted
+            ? "Correção da turma interrompida. As provas restantes continuam na fila."
+            : "Seus créditos acabaram. As provas restantes continuam na fila.");
+          break;
+        }
+        next = batchItemsRef.current.find(i => i.status === 'queued');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsBatchRunning(false);
+    }
+  };
+
+  const handleRetryBatchItem = (itemId: string) => {
+    updateBatchItem(itemId, { status: 'queued', error: undefined });
+    // A running queue picks the item up on its own
+    if (!isBatchRunning) runBatch();
+  };
+
+  const handleRemoveBatchItem = (itemId: string) => {
+    const item = batchItemsRef.current.find(i => i.id === itemId);
+    item?.pages.forEach(revokePageUrls);
+    updateBatchItems(items => items.filter(i => i.id !== itemId));
+  };
+
+  const editingPageIndex = pages.findIndex(p => p.id === editingPageId);
+  const reviewingItem = batchItems.find(i => i.id === reviewingItemId && i.result);
+  // Exams without their own policy follow the school default
+  const scoringPolicy = resolveScoringPolicy(answerKey);
+  const queuedCount = batchItems.filter(i => i.status === 'queued').length;
+  const isWorking = mode === 'batch' ? isBatchRunning : loading;
+  const canStart = mode === 'batch'
+    ? queuedCount > 0 && !isBatchRunning && !isProcessingFiles
+    : pages.length > 0 && !loading && !isProcessingFiles;
+
   const handleChangePassword = async (e: React.FormEvent) => {
     e.preventDefault();
     if (passData.new !== passData.confirm) {
@@ -236,6 +685,16 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onUserUpdate, onN
           />
       )}
 
+      {/* Page Crop Modal */}
+      {editingPageIndex >= 0 && (
+          <PageCropEditor
+            page={pages[editingPageIndex]}
+            pageNumber={editingPageIndex + 1}
+            onApply={(corners) => handleApplyCrop(pages[editingPageIndex].id, corners)}
+            onClose={() => setEditingPageId(null)}
+          />
+      )}
+
       {/* Password Modal */}
       {showPasswordModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
@@ -275,84 +734,340 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onUserUpdate, onN
         </div>
       )}
 
+      {answerKeyDraft && (
+        <AnswerKeyDraftReview
+          items={answerKeyDraft}
+          replacesExisting={answerKey.items.length > 0}
+          onChange={setAnswerKeyDraft}
+          onConfirm={handleConfirmAnswerKeyDraft}
+          onCancel={() => setAnswerKeyDraft(null)}
+        />
+      )}
+
+      {duplicateMatch && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+           <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-md">
+              <h3 className="text-lg font-bold text-slate-800 mb-2">Prova já corrigida</h3>
+              <p className="text-sm text-slate-600">
+                Estas páginas, com o mesmo gabarito, já foram corrigidas em {new Date(duplicateMatch.savedAt).toLocaleString('pt-BR')}
+                {duplicateMatch.result.studentName && <> (aluno: <strong>{duplicateMatch.result.studentName}</strong>)</>}.
+              </p>
+              <p className="text-sm text-slate-600 mt-2">
+                Reabrir a correção existente não consome créditos e mantém as edições feitas nela.
+              </p>
+              <div className="flex flex-col gap-2 mt-5">
+                 <button onClick={handleReopenCached} className="w-full py-2 bg-indigo-600 text-white text-sm font-medium rounded hover:bg-indigo-700">
+                   Reabrir correção existente
+                 </button>
+                 <button onClick={handleAnalyzeAgain} className="w-full py-2 text-slate-700 text-sm font-medium border border-slate-300 rounded hover:bg-slate-50">
+                   Corrigir novamente {user.role !== 'admin' && `(${examCreditCost} crédito${examCreditCost > 1 ? 's' : ''})`}
+                 </button>
+                 <button onClick={() => setDuplicateMatch(null)} className="w-full py-2 text-slate-500 text-sm font-medium hover:bg-slate-100 rounded">
+                   Cancelar
+                 </button>
+              </div>
+           </div>
+        </div>
+      )}
+
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         
-        {!result && (
+        {!result && !partialResult && !essayResult && !reviewingItem && (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             
             {/* Upload Section */}
             <div className="lg:col-span-2 space-y-6">
               <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
-                <div className="flex justify-between items-center mb-4">
-                    <h2 className="text-lg font-semibold text-slate-800">Upload da Prova</h2>
-                    {user.role !== 'admin' && (
-                        <span className="text-xs bg-indigo-50 text-indigo-700 px-2 py-1 rounded-full font-bold">
-                            Custo: 1 Crédito
-                        </span>
-                    )}
+                <div className="flex justify-between items-center mb-4 gap-3">
+                    <h2 className="text-lg font-semibold text-slate-800">
+                      {mode === 'batch' ? 'Provas da Turma' : mode === 'essay' ? 'Upload da Redação' : 'Upload da Prova'}
+                    </h2>
+                    <div className="flex items-center gap-2">
+                      {user.role !== 'admin' && (
+                          <span className="text-xs bg-indigo-50 text-indigo-700 px-2 py-1 rounded-full font-bold">
+                              {mode === 'essay'
+                                ? 'Custo: 1 Crédito'
+                                : readingMethod === 'omr'
+                                  ? 'Sem custo'
+                                  : `Custo: ${examCreditCost} Crédito${examCreditCost > 1 ? 's' : ''}${mode === 'batch' ? ' por prova' : ''}`}
+                          </span>
+                      )}
+                      <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs font-medium">
+                        <button
+                          onClick={() => setMode('single')}
+                          disabled={isBatchRunning}
+                          className={`px-3 py-1.5 rounded-md transition-colors disabled:cursor-not-allowed ${mode === 'single' ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                          Uma prova
+                        </button>
+                        <button
+                          onClick={() => setMode('batch')}
+                          className={`px-3 py-1.5 rounded-md transition-colors ${mode === 'batch' ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                          Turma
+                        </button>
+                        <button
+                          onClick={() => setMode('essay')}
+                          disabled={isBatchRunning}
+                          className={`px-3 py-1.5 rounded-md transition-colors disabled:cursor-not-allowed ${mode === 'essay' ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                          Redação
+                        </button>
+                      </div>
+                    </div>
                 </div>
                 
+                {mode === 'batch' ? (
+                  <BatchQueue
+                    items={batchItems}
+                    policy={scoringPolicy}
+                    answerKey={answerKey}
+                    isRunning={isBatchRunning}
+                    isProcessingFiles={isProcessingFiles}
+                    onAddFiles={handleAddBatchFiles}
+                    onOpen={setReviewingItemId}
+                    onRetry={handleRetryBatchItem}
+                    onRemove={handleRemoveBatchItem}
+                  />
+                ) : (
                 <div 
                   onDragOver={(e) => e.preventDefault()}
                   onDrop={handleDrop}
                   className={`border-2 border-dashed rounded-xl p-10 text-center transition-all duration-200 ${
-                    file ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-300 hover:border-indigo-400 hover:bg-slate-50'
+                    pages.length > 0 ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-300 hover:border-indigo-400 hover:bg-slate-50'
                   }`}
                 >
                   <input 
                     type="file" 
                     ref={fileInputRef}
-                    accept="image/*" 
+                    accept="image/*,application/pdf" 
+                    multiple
                     onChange={handleFileChange} 
                     className="hidden" 
                     id="exam-upload"
                   />
                   
-                  {previewUrl ? (
-                    <div className="relative inline-block">
-                      <img src={previewUrl} alt="Preview" className="max-h-64 rounded-lg shadow-md object-contain mx-auto" />
-                      <button 
-                        onClick={(e) => {
-                           e.preventDefault();
-                           handleReset();
-                        }}
-                        className="absolute -top-2 -right-2 bg-red-500 text-white p-1 rounded-full hover:bg-red-600 shadow-sm"
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
+                  {pages.length > 0 ? (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between text-left">
+                        <p className="text-sm font-medium text-slate-700">
+                          {pages.length} página(s) <span className="text-slate-400 font-normal">— arraste as miniaturas para reordenar</span>
+                        </p>
+                        <button 
+                          onClick={(e) => {
+                             e.preventDefault();
+                             handleReset();
+                          }}
+                          className="text-xs font-medium text-red-600 hover:text-red-700 hover:underline"
+                        >
+                          Remover todas
+                        </button>
+                      </div>
+
+                      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                        {pages.map((page, idx) => (
+                          <div 
+                            key={page.id}
+                            draggable
+                            onDragStart={() => setDraggedPageIndex(idx)}
+                            onDragEnd={() => setDraggedPageIndex(null)}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={(e) => {
+                               e.preventDefault();
+                               e.stopPropagation();
+                               handlePageDrop(idx);
+                            }}
+                            className={`relative bg-white rounded-lg border shadow-sm p-1 cursor-move transition-all ${
+                              draggedPageIndex === idx ? 'opacity-40 border-indigo-400' : 'border-slate-200 hover:border-indigo-300'
+                            }`}
+                          >
+                            <img src={page.previewUrl} alt={`Página ${idx + 1}`} className="h-36 w-full rounded object-contain bg-slate-50 pointer-events-none" />
+                            <span className="absolute bottom-2 left-2 bg-slate-900/80 text-white text-[10px] font-bold px-1.5 py-0.5 rounded">
+                              Pág. {idx + 1}
+                            </span>
+                            <button
+                              onClick={(e) => {
+                                 e.preventDefault();
+                                 setEditingPageId(page.id);
+                              }}
+                              className="absolute bottom-2 right-2 bg-white/90 text-indigo-600 p-1 rounded shadow-sm hover:bg-white"
+                              title="Ajustar recorte (antes/depois)"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 3.75H6A2.25 2.25 0 003.75 6v1.5M16.5 3.75H18A2.25 2.25 0 0120.25 6v1.5m0 9V18A2.25 2.25 0 0118 20.25h-1.5m-9 0H6A2.25 2.25 0 013.75 18v-1.5" />
+                              </svg>
+                            </button>
+                            <button 
+                              onClick={(e) => {
+                                 e.preventDefault();
+                                 handleRemovePage(idx);
+                              }}
+                              className="absolute -top-2 -right-2 bg-red-500 text-white p-1 rounded-full hover:bg-red-600 shadow-sm"
+                              title="Remover página"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3">
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                              </svg>
+                            </button>
+                          </div>
+                        ))}
+
+                        <label 
+                          htmlFor="exam-upload" 
+                          className="h-full min-h-[9.5rem] cursor-pointer rounded-lg border-2 border-dashed border-slate-300 hover:border-indigo-400 hover:bg-white flex flex-col items-center justify-center gap-1 text-slate-400 hover:text-indigo-600 transition-colors"
+                        >
+                          {isProcessingFiles ? (
+                            <div className="w-5 h-5 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+                          ) : (
+                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+                              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+                            </svg>
+                          )}
+                          <span className="text-xs font-medium">Adicionar páginas</span>
+                        </label>
+                      </div>
                     </div>
                   ) : (
                     <label htmlFor="exam-upload" className="cursor-pointer flex flex-col items-center justify-center gap-3">
                        <div className="bg-indigo-50 p-4 rounded-full text-indigo-600">
-                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-8 h-8">
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
-                        </svg>
+                        {isProcessingFiles ? (
+                          <div className="w-8 h-8 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+                        ) : (
+                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-8 h-8">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
+                          </svg>
+                        )}
                        </div>
                        <div>
-                         <p className="text-base font-medium text-slate-700">Clique para upload ou arraste a imagem</p>
-                         <p className="text-sm text-slate-400 mt-1">PNG, JPG ou JPEG (Max. 10MB)</p>
+                         <p className="text-base font-medium text-slate-700">Clique para upload ou arraste as páginas da prova</p>
+                         <p className="text-sm text-slate-400 mt-1">Uma ou mais imagens (PNG, JPG) ou PDF com várias páginas</p>
                        </div>
                     </label>
                   )}
                 </div>
+                )}
+
+                <PreprocessSettings
+                  options={preprocessOptions}
+                  onChange={handlePreprocessOptionsChange}
+                  onReapply={mode !== 'batch' && pages.length > 0 ? handleReprocessPages : undefined}
+                  disabled={isProcessingFiles || isWorking}
+                />
               </div>
             </div>
 
             {/* Configuration & Action Section */}
             <div className="space-y-6">
                <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
-                  <h2 className="text-lg font-semibold text-slate-800 mb-4">Gabarito / Contexto</h2>
-                  <p className="text-sm text-slate-500 mb-3">
-                    Cole aqui o gabarito das questões ou descreva o que deve ser avaliado para ajudar a IA.
-                  </p>
-                  <textarea
-                    value={context}
-                    onChange={(e) => setContext(e.target.value)}
-                    placeholder="Ex: Questão 1: A resposta deve mencionar a Revolução Francesa... Questão 2: O resultado de 2+2 é 4..."
-                    className="w-full h-48 p-3 text-sm border border-slate-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none outline-none transition-shadow"
-                  ></textarea>
+                  {mode === 'essay' ? (
+                    <>
+                      <h2 className="text-lg font-semibold text-slate-800 mb-4">Proposta da Redação</h2>
+                      <p className="text-sm text-slate-500 mb-3">
+                        Correção no modelo ENEM: cinco competências de 0 a 200 pontos (total 1000).
+                      </p>
+                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1">Tema</label>
+                      <input
+                        type="text"
+                        value={essayTheme}
+                        onChange={(e) => setEssayTheme(e.target.value)}
+                        placeholder="Ex: Desafios para a valorização da herança africana no Brasil"
+                        className="w-full p-3 text-sm border border-slate-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none mb-3"
+                      />
+                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1">Instruções adicionais (opcional)</label>
+                      <textarea
+                        value={essayInstructions}
+                        onChange={(e) => setEssayInstructions(e.target.value)}
+                        placeholder="Ex: Turma de 2º ano, seja mais detalhado nos comentários de coesão..."
+                        className="w-full h-28 p-3 text-sm border border-slate-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none outline-none transition-shadow"
+                      ></textarea>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between mb-4 gap-3">
+                        <h2 className="text-lg font-semibold text-slate-800">Gabarito</h2>
+                        <div className="flex bg-slate-100 rounded-lg p-1 text-xs font-medium">
+                          <button
+                            onClick={() => setReadingMethod('ai')}
+                            disabled={isWorking}
+                            className={`px-2.5 py-1 rounded-md transition-colors ${readingMethod === 'ai' ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                          >
+                            IA
+                          </button>
+                          <button
+                            onClick={() => setReadingMethod('omr')}
+                            disabled={isWorking}
+                            className={`px-2.5 py-1 rounded-md transition-colors ${readingMethod === 'omr' ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                          >
+                            Cartão-resposta
+                          </button>
+                        </div>
+                      </div>
+                      {readingMethod === 'omr' && (
+                        <OmrSheetSettings
+                          layout={omrLayout}
+                          onChange={setOmrLayout}
+                          answerKey={answerKey}
+                          onAnswerKeyChange={setAnswerKey}
+                        />
+                      )}
+                      <p className="text-sm text-slate-500 mb-3">
+                        Cadastre as questões com a resposta esperada e o valor de cada uma. A IA usará exatamente esses valores na correção.
+                      </p>
+                      <input
+                        type="file"
+                        ref={blankExamInputRef}
+                        onChange={handleBlankExamChange}
+                        accept="image/*,application/pdf"
+                        multiple
+                        className="hidden"
+                      />
+                      <button
+                        onClick={() => blankExamInputRef.current?.click()}
+                        disabled={isWorking || isExtractingKey}
+                        className="w-full mb-3 flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {isExtractingKey ? 'Lendo a prova em branco...' : 'Gerar a partir da prova em branco'}
+                      </button>
+                      <AnswerKeyEditor answerKey={answerKey} onChange={setAnswerKey} />
+                      <ScoringPolicySettings
+                        policy={scoringPolicy}
+                        isCustom={!!answerKey.scoringPolicy}
+                        onChange={(policy) => setAnswerKey(prev => ({ ...prev, scoringPolicy: policy }))}
+                        disabled={isWorking}
+                      />
+                      {readingMethod === 'ai' && (
+                        <label className="mt-4 block text-sm text-slate-600 text-left">
+                          Instruções da correção
+                          <select
+                            value={selectedTemplate.templateId}
+                            disabled={isWorking}
+                            onChange={(e) => handleTemplateChange(e.target.value)}
+                            className="mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white outline-none focus:border-indigo-500"
+                          >
+                            {availableTemplates.map(t => (
+                              <option key={t.templateId} value={t.templateId}>
+                                {t.name}{t.templateId !== DEFAULT_PROMPT_TEMPLATE.templateId && ` (${[t.subject, t.gradeLevel].filter(Boolean).join(', ')} · v${t.version})`}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                      {readingMethod === 'ai' && (
+                        <FeedbackStyleSettings
+                          style={feedbackStyle}
+                          onChange={handleFeedbackStyleChange}
+                          disabled={isWorking}
+                        />
+                      )}
+                      {readingMethod === 'ai' && (
+                        <ConsensusSettings
+                          settings={consensusSettings}
+                          onChange={handleConsensusSettingsChange}
+                          disabled={isWorking}
+                        />
+                      )}
+                    </>
+                  )}
                   
                   {error && (
                     <div className="mt-4 p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-100 flex items-start gap-2">
@@ -364,18 +1079,18 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onUserUpdate, onN
                   )}
 
                   <button
-                    onClick={handleAnalyze}
-                    disabled={!file || loading}
+                    onClick={mode === 'batch' ? runBatch : mode === 'essay' ? handleAnalyzeEssay : readingMethod === 'omr' ? handleReadAnswerSheet : handleAnalyze}
+                    disabled={!canStart}
                     className={`w-full mt-6 py-3 px-4 rounded-xl font-semibold text-white flex items-center justify-center gap-2 transition-all shadow-sm ${
-                      !file || loading 
+                      !canStart
                       ? 'bg-slate-300 cursor-not-allowed' 
                       : 'bg-indigo-600 hover:bg-indigo-700 hover:shadow-md transform active:scale-[0.98]'
                     }`}
                   >
-                    {loading ? (
+                    {isWorking ? (
                       <>
                         <Spinner />
-                        <span className="ml-2">Analisando Prova...</span>
+                        <span className="ml-2">{mode === 'batch' ? 'Corrigindo Turma...' : mode === 'essay' ? 'Corrigindo Redação...' : 'Analisando Prova...'}</span>
                       </>
                     ) : (
                       <>
@@ -383,10 +1098,19 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onUserUpdate, onN
                            <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 00-3.09 3.09z" />
                            <path strokeLinecap="round" strokeLinejoin="round" d="M19.28 13.408l.72-2.608.72 2.608a1.125 1.125 0 00.8.8l2.608.72-2.608.72a1.125 1.125 0 00-.8.8l-.72 2.608-.72-2.608a1.125 1.125 0 00-.8-.8l-2.608-.72 2.608-.72a1.125 1.125 0 00.8-.8z" />
                         </svg>
-                        Corrigir com IA
+                        {mode === 'batch' ? `Corrigir Turma (${queuedCount})` : mode === 'essay' ? 'Corrigir Redação' : readingMethod === 'omr' ? 'Ler Cartão-resposta' : 'Corrigir com IA'}
                       </>
                     )}
                   </button>
+
+                  {isWorking && (mode === 'essay' || readingMethod === 'ai') && (
+                    <button
+                      onClick={handleCancelAnalysis}
+                      className="w-full mt-2 py-2 px-4 rounded-xl text-sm font-medium text-slate-600 border border-slate-200 hover:bg-slate-50 hover:text-red-600 transition-colors"
+                    >
+                      {mode === 'batch' ? 'Interromper correção da turma' : 'Cancelar análise'}
+                    </button>
+                  )}
                </div>
             </div>
           </div>
@@ -395,9 +1119,44 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onUserUpdate, onN
         {result && (
            <ResultsView 
              result={result} 
-             examImage={previewUrl || ""} 
-             context={context}
+             examImages={pages.map(p => p.previewUrl)} 
+             answerKey={answerKey}
+             promptTemplate={getResultTemplate(result)}
              onReset={handleReset} 
+             onResultChange={resultHash ? (updated) => cacheCorrection(resultHash, user.id, updated) : undefined}
+           />
+        )}
+
+        {partialResult && !result && (
+           <ResultsView
+             result={partialResult}
+             examImages={pages.map(p => p.previewUrl)}
+             answerKey={answerKey}
+             onReset={handleCancelAnalysis}
+             resetLabel="Cancelar análise"
+             isStreaming
+             onCancel={handleCancelAnalysis}
+           />
+        )}
+
+        {essayResult && (
+           <EssayResultsView 
+             result={essayResult} 
+             essayImages={pages.map(p => p.previewUrl)} 
+             onReset={handleReset} 
+           />
+        )}
+
+        {reviewingItem && reviewingItem.result && (
+           <ResultsView 
+             key={reviewingItem.id}
+             result={reviewingItem.result} 
+             examImages={reviewingItem.pages.map(p => p.previewUrl)} 
+             answerKey={answerKey}
+             promptTemplate={getResultTemplate(reviewingItem.result)}
+             onReset={() => setReviewingItemId(null)} 
+             resetLabel="Voltar para a Turma"
+             onResultChange={(updated) => updateBatchItem(reviewingItem.id, { result: updated })}
            />
         )}
       </main>
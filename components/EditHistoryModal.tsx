@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { CorrectionResult } from '../types';
+import { diffFromOriginal, getFieldLabel } from '../services/editHistoryService';
+
+interface EditHistoryModalProps {
+  data: CorrectionResult;
+  onClose: () => void;
+}
+
+const ValueCell: React.FC<{ value: string; className: string }> = ({ value, className }) => (
+  <td className={`py-2 px-2 align-top whitespace-pre-wrap break-words max-w-xs ${className}`}>
+    {value || <span className="italic text-slate-400">(vazio)</span>}
+  </td>
+);
+
+// What the teacher changed: the differences from the AI original and the timestamped log of every edit
+export const EditHistoryModal: React.FC<EditHistoryModalProps> = ({ data, onClose }) => {
+  const [tab, setTab] = useState<'diff' | 'log'>('diff');
+  const diffs = diffFromOriginal(data);
+  const log = [...(data.editLog || [])].reverse();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between gap-3">
+          <h3 className="text-lg font-bold text-slate-800">Alterações na correção</h3>
+          <div className="flex bg-slate-100 rounded-lg p-1 text-xs font-medium">
+            <button
+              onClick={() => setTab('diff')}
+              className={`px-2.5 py-1 rounded-md transition-colors ${tab === 'diff' ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Diferenças da IA ({diffs.length})
+            </button>
+            <button
+              onClick={() => setTab('log')}
+              className={`px-2.5 py-1 rounded-md transition-colors ${tab === 'log' ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              Histórico ({log.length})
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {tab === 'diff' ? (
+            diffs.length === 0 ? (
+              <p className="text-sm text-slate-500">A correção está igual à retornada pela IA.</p>
+            ) : (
+              <table className="w-full text-left border-collapse text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">Item</th>
+                    <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">Campo</th>
+                    <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">IA</th>
+                    <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">Atual</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {diffs.map((diff, i) => (
+                    <tr key={i}>
+                      <td className="py-2 px-2 align-top font-medium text-slate-700 whitespace-nowrap">
+                        {diff.questionNumber ? `Questão ${diff.questionNumber}` : 'Cabeçalho'}
+                      </td>
+                      <td className="py-2 px-2 align-top text-slate-600">{diff.label}</td>
+                      <ValueCell value={diff.original} className="text-red-700 bg-red-50/50" />
+                      <ValueCell value={diff.current} className="text-green-700 bg-green-50/50" />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          ) : log.length === 0 ? (
+            <p className="text-sm text-slate-500">Nenhuma edição registrada.</p>
+          ) : (
+            <table className="w-full text-left border-collapse text-sm">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">Quando</th>
+                  <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">Item</th>
+                  <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">Campo</th>
+                  <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">Antes</th>
+                  <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">Depois</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {log.map((entry, i) => (
+                  <tr key={i}>
+                    <td className="py-2 px-2 align-top text-xs text-slate-500 whitespace-nowrap">
+                      {new Date(entry.at).toLocaleString('pt-BR')}
+                      {entry.source === 'ai' && <span className="block text-indigo-600 font-medium">Reavaliação da IA</span>}
+                    </td>
+                    <td className="py-2 px-2 align-top font-medium text-slate-700 whitespace-nowrap">
+                      {entry.questionNumber ? `Questão ${entry.questionNumber}` : 'Cabeçalho'}
+                    </td>
+                    <td className="py-2 px-2 align-top text-slate-600">{getFieldLabel(entry.field)}</td>
+                    <ValueCell value={entry.before} className="text-slate-500" />
+                    <ValueCell value={entry.after} className="text-slate-800" />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 text-sm font-medium hover:bg-slate-100 rounded">
+            Fechar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
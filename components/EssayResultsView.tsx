@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { EssayCompetenceScore, EssayResult, EssayZeroReason } from '../types';
+import { exportEssayToDOCX, exportEssayToPDF } from '../services/exportService';
+import { calculateEssayTotal, COMPETENCE_LEVELS, COMPETENCE_MAX_SCORE, ENEM_COMPETENCES, ESSAY_MAX_SCORE, ZERO_REASON_LABELS } from '../services/essayService';
+import { ExamImagePanel } from './ExamImagePanel';
+
+interface EssayResultsViewProps {
+  result: EssayResult;
+  essayImages: string[];
+  onReset: () => void;
+}
+
+const EssayResultsView: React.FC<EssayResultsViewProps> = ({ result: initialResult, essayImages, onReset }) => {
+  const [data, setData] = useState<EssayResult>(initialResult);
+
+  useEffect(() => {
+    setData(initialResult);
+  }, [initialResult]);
+
+  const handleHeaderChange = (field: keyof EssayResult, value: string) => {
+    setData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleCompetenceChange = (competence: number, updates: Partial<EssayCompetenceScore>) => {
+    setData(prev => {
+      const competences = prev.competences.map(c => c.competence === competence ? { ...c, ...updates } : c);
+      return { ...prev, competences, totalScore: calculateEssayTotal(competences, prev.zeroReason) };
+    });
+  };
+
+  const handleZeroReasonChange = (value: string) => {
+    const zeroReason = value ? value as EssayZeroReason : undefined;
+    setData(prev => ({
+      ...prev,
+      zeroReason,
+      totalScore: calculateEssayTotal(prev.competences, zeroReason)
+    }));
+  };
+
+  const percentage = (data.totalScore / ESSAY_MAX_SCORE) * 100;
+  let scoreColor = "text-red-600";
+  if (percentage >= 70) scoreColor = "text-green-600";
+  else if (percentage >= 50) scoreColor = "text-yellow-600";
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 animate-fade-in">
+
+      {/* Left Column: Image Reference */}
+      <div className="lg:col-span-1">
+        <div className="sticky top-24 space-y-6">
+          <ExamImagePanel images={essayImages} />
+
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 space-y-3">
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Exportar Resultado</h3>
+            <div className="grid grid-cols-2 gap-3">
+                <button
+                    onClick={() => exportEssayToPDF(data)}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-red-50 hover:bg-red-100 text-red-700 font-medium rounded-lg transition-colors border border-red-200 text-sm"
+                >
+                    PDF
+                </button>
+                <button
+                    onClick={() => exportEssayToDOCX(data)}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium rounded-lg transition-colors border border-blue-200 text-sm"
+                >
+                    DOCX
+                </button>
+            </div>
+          </div>
+
+          <button
+            onClick={onReset}
+            className="w-full py-3 px-4 bg-white border border-slate-300 text-slate-700 font-semibold rounded-xl hover:bg-slate-50 transition-colors shadow-sm flex items-center justify-center gap-2"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5L3 12m0 0l7.5-7.5M3 12h18" />
+            </svg>
+            Corrigir Outra Redação
+          </button>
+        </div>
+      </div>
+
+      {/* Right Column: Results */}
+      <div className="lg:col-span-2 space-y-6">
+
+        {/* Header Card (Editable) */}
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+              <div className="md:col-span-2">
+                  <label className="text-xs text-slate-500 font-bold uppercase tracking-wider block mb-1">Aluno</label>
+                  <input
+                      type="text"
+                      value={data.studentName}
+                      onChange={(e) => handleHeaderChange('studentName', e.target.value)}
+                      className="w-full text-2xl font-bold text-slate-900 border-b border-slate-300 focus:border-indigo-600 outline-none bg-transparent py-1 placeholder-slate-300"
+                      placeholder="Nome do Aluno"
+                  />
+              </div>
+              <div className="md:col-span-2">
+                  <label className="text-xs text-slate-500 font-bold uppercase tracking-wider block mb-1">Tema</label>
+                  <input
+                      type="text"
+                      value={data.theme}
+                      onChange={(e) => handleHeaderChange('theme', e.target.value)}
+                      className="w-full text-slate-700 border-b border-slate-200 focus:border-indigo-600 outline-none bg-transparent py-1 text-sm italic"
+                      placeholder="Tema da redação"
+                  />
+              </div>
+              <div>
+                  <label className="text-xs text-slate-500 font-bold uppercase tracking-wider block mb-1">Escola</label>
+                  <input
+                      type="text"
+                      value={data.schoolName || ''}
+                      onChange={(e) => handleHeaderChange('schoolName', e.target.value)}
+                      className="w-full text-slate-700 border-b border-slate-200 focus:border-indigo-600 outline-none bg-transparent py-1 text-sm"
+                      placeholder="Nome da Escola"
+                  />
+              </div>
+              <div>
+                  <label className="text-xs text-slate-500 font-bold uppercase tracking-wider block mb-1">Turma</label>
+                  <input
+                      type="text"
+                      value={data.className || ''}
+                      onChange={(e) => handleHeaderChange('className', e.target.value)}
+                      className="w-full text-slate-700 border-b border-slate-200 focus:border-indigo-600 outline-none bg-transparent py-1 text-sm"
+                      placeholder="Turma"
+                  />
+              </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 border-t border-slate-100 pt-4">
+             <div className="flex-1">
+                <label className="text-xs text-slate-500 font-bold uppercase tracking-wider block mb-1">Condição de nota zero</label>
+                <select
+                  value={data.zeroReason || ''}
+                  onChange={(e) => handleZeroReasonChange(e.target.value)}
+                  className={`text-sm border rounded-lg px-3 py-2 outline-none focus:border-indigo-500 w-full sm:w-auto ${data.zeroReason ? 'border-red-300 bg-red-50 text-red-700 font-bold' : 'border-slate-300 bg-white text-slate-600'}`}
+                >
+                  <option value="">Nenhuma</option>
+                  {(Object.keys(ZERO_REASON_LABELS) as EssayZeroReason[]).map(reason => (
+                    <option key={reason} value={reason}>{ZERO_REASON_LABELS[reason]}</option>
+                  ))}
+                </select>
+             </div>
+             <div className="text-right">
+                  <span className="text-xs text-slate-500 font-bold uppercase tracking-wider block">Nota Final</span>
+                  <div className="flex items-baseline justify-end gap-2">
+                      <span className={`text-5xl font-bold ${scoreColor}`}>{data.totalScore}</span>
+                      <span className="text-2xl text-slate-400 font-medium">/ {ESSAY_MAX_SCORE}</span>
+                  </div>
+             </div>
+          </div>
+
+          {data.zeroReason && (
+            <textarea
+              value={data.zeroExplanation || ''}
+              onChange={(e) => handleHeaderChange('zeroExplanation', e.target.value)}
+              rows={2}
+              className="w-full mt-4 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 focus:ring-2 focus:ring-red-300 outline-none resize-y"
+              placeholder="Explique o motivo da nota zero..."
+            />
+          )}
+        </div>
+
+        {/* Competences */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-bold text-slate-800 px-1">Competências</h2>
+          {data.competences.map(c => {
+            const info = ENEM_COMPETENCES.find(comp => comp.number === c.competence);
+            return (
+              <div key={c.competence} className={`bg-white rounded-xl shadow-sm border border-slate-200 p-5 ${data.zeroReason ? 'opacity-60' : ''}`}>
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3 mb-3">
+                  <div className="flex items-start gap-3">
+                    <div className="h-10 w-10 rounded-xl bg-slate-900 text-white flex items-center justify-center font-bold shrink-0">
+                      C{c.competence}
+                    </div>
+                    <div>
+                      <p className="font-semibold text-slate-800">{info?.title}</p>
+                      <p className="text-xs text-slate-500">{info?.description}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0 self-end sm:self-auto">
+                    <select
+                      value={c.score}
+                      onChange={(e) => handleCompetenceChange(c.competence, { score: parseInt(e.target.value, 10) })}
+                      className="font-mono font-bold text-lg text-slate-700 bg-white border border-slate-300 rounded-lg px-2 py-1 outline-none focus:border-indigo-500 cursor-pointer"
+                    >
+                      {COMPETENCE_LEVELS.map(level => (
+                        <option key={level} value={level}>{level}</option>
+                      ))}
+                    </select>
+                    <span className="text-slate-400 font-bold text-sm">/ {COMPETENCE_MAX_SCORE}</span>
+                  </div>
+                </div>
+                <textarea
+                  value={c.justification}
+                  onChange={(e) => handleCompetenceChange(c.competence, { justification: e.target.value })}
+                  rows={3}
+                  className="w-full text-slate-600 text-sm leading-relaxed bg-transparent border border-slate-200 rounded p-2 focus:border-indigo-500 outline-none resize-y"
+                  placeholder="Justificativa..."
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Summary */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <h3 className="text-sm font-bold text-slate-800 mb-3">Comentário Geral</h3>
+          <textarea
+              value={data.summary}
+              onChange={(e) => handleHeaderChange('summary', e.target.value)}
+              className="w-full text-slate-600 text-sm leading-relaxed border border-slate-200 rounded-lg p-3 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none resize-y min-h-[80px]"
+          />
+        </div>
+
+        {/* Transcription */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <h3 className="text-sm font-bold text-slate-800 mb-3">Transcrição do Texto</h3>
+          <textarea
+              value={data.transcription}
+              onChange={(e) => handleHeaderChange('transcription', e.target.value)}
+              rows={14}
+              className="w-full bg-slate-50 border border-slate-200 rounded-lg p-4 text-slate-700 text-base font-serif leading-relaxed focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none resize-y"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EssayResultsView;
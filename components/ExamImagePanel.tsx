@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox, PageAnnotation, QuestionResult } from '../types';
+import { boxToPercentStyle } from '../services/regionService';
+import { ANNOTATION_COLORS, ANNOTATION_TOOL_LABELS, AnnotationTool, DEFAULT_ANNOTATION_COLOR, getPageAnnotations } from '../services/annotationService';
+import { AnnotationLayer } from './AnnotationLayer';
+
+// Regions of the focused question, drawn over its page
+export interface ImageHighlight {
+  pageIndex: number;
+  label: string;
+  questionBox?: BoundingBox;
+  answerBox?: BoundingBox;
+}
+
+interface ExamImagePanelProps {
+  images: string[];
+  highlight?: ImageHighlight | null;
+  // Pen annotations; the "Anotar" tools only appear when the panel can change them
+  annotations?: PageAnnotation[];
+  questions?: QuestionResult[];
+  activeQuestion?: QuestionResult; // Focused question, referenced by new marks and score stamps
+  onAnnotationsChange?: (annotations: PageAnnotation[]) => void;
+  disabled?: boolean;
+}
+
+const ANNOTATION_TOOLS = Object.keys(ANNOTATION_TOOL_LABELS) as AnnotationTool[];
+
+const HighlightOverlay: React.FC<{ highlight: ImageHighlight }> = ({ highlight }) => (
+  <>
+    {highlight.questionBox && (
+      <div className="absolute border-2 border-indigo-500 bg-indigo-500/10 rounded pointer-events-none" style={boxToPercentStyle(highlight.questionBox)}>
+        <span className="absolute -top-5 left-0 bg-indigo-600 text-white text-[10px] font-bold px-1.5 py-0.5 rounded whitespace-nowrap">
+          {highlight.label}
+        </span>
+      </div>
+    )}
+    {highlight.answerBox && (
+      <div className="absolute border-2 border-amber-500 bg-amber-400/20 rounded pointer-events-none" style={boxToPercentStyle(highlight.answerBox)} />
+    )}
+  </>
+);
+
+// "Imagem Original" card with one entry per exam page and a full-screen zoom modal
+export const ExamImagePanel: React.FC<ExamImagePanelProps> = ({ images, highlight, annotations = [], questions = [], activeQuestion, onAnnotationsChange, disabled = false }) => {
+  // Index of the page shown in the zoom modal (null when closed)
+  const [zoomedPage, setZoomedPage] = useState<number | null>(null);
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  // Height / width of each page, known once its image loads (the annotation layer draws in page proportions)
+  const [aspects, setAspects] = useState<number[]>([]);
+  const [tool, setTool] = useState<AnnotationTool | null>(null);
+  const [color, setColor] = useState(DEFAULT_ANNOTATION_COLOR);
+  const activeTool = disabled ? null : tool;
+
+  const handleImageLoad = (pageIdx: number, e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    if (!naturalWidth) return;
+    setAspects(prev => {
+      const next = [...prev];
+      next[pageIdx] = naturalHeight / naturalWidth;
+      return next;
+    });
+  };
+
+  const renderAnnotations = (pageIdx: number, editable: boolean) => aspects[pageIdx] !== undefined && (
+    <AnnotationLayer
+      pageIndex={pageIdx}
+      aspect={aspects[pageIdx]}
+      annotations={getPageAnnotations(annotations, pageIdx)}
+      questions={questions}
+      tool={editable ? activeTool : null}
+      color={color}
+      activeQuestion={activeQuestion}
+      onAdd={editable && onAnnotationsChange ? (annotation) => onAnnotationsChange([...annotations, annotation]) : undefined}
+      onRemove={editable && onAnnotationsChange ? (id) => onAnnotationsChange(annotations.filter(a => a.id !== id)) : undefined}
+    />
+  );
+
+  // Bring the focused question into view inside the scrollable page list
+  useEffect(() => {
+    if (!highlight) return;
+    const page = pageRefs.current[highlight.pageIndex];
+    const box = highlight.questionBox || highlight.answerBox;
+    const container = page?.parentElement;
+    if (!page || !container) return;
+    const offset = box ? (box.ymin / 1000) * page.offsetHeight : 0;
+    container.scrollTo({ top: page.offsetTop - container.offsetTop + offset - 24, behavior: 'smooth' });
+  }, [highlight]);
+
+  return (
+    <>
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 overflow-hidden">
+         <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">
+              {images.length > 1 ? `Imagem Original (${images.length} páginas)` : 'Imagem Original'}
+            </h3>
+            <div className="flex items-center gap-1">
+              {onAnnotationsChange && (
+                <button
+                  onClick={() => setTool(tool ? null : 'check')}
+                  disabled={disabled}
+                  className={`text-xs font-medium px-2 py-1 rounded-lg transition-colors disabled:opacity-50 ${tool ? 'bg-red-50 text-red-700' : 'text-indigo-600 hover:bg-indigo-50'}`}
+                  title="Marcar a prova com caneta"
+                >
+                  {tool ? 'Concluir anotações' : 'Anotar'}
+                </button>
+              )}
+              <button 
+                onClick={() => setZoomedPage(highlight?.pageIndex ?? 0)}
+                className="text-indigo-600 hover:bg-indigo-50 p-1 rounded-lg transition-colors"
+                title="Expandir imagem"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 3.75v4.5m0-4.5h4.5m-4.5 0L9 9M3.75 20.25v-4.5m0 4.5h4.5m-4.5 0L9 15M20.25 3.75h-4.5m4.5 0v4.5m0-4.5L15 9m5.25 11.25h-4.5m4.5 0v-4.5m0 4.5L15 15" />
+                </svg>
+              </button>
+            </div>
+         </div>
+         {activeTool && (
+           <div className="mb-3 space-y-2">
+             <div className="flex flex-wrap items-center gap-1">
+               {ANNOTATION_TOOLS.map(t => (
+                 <button
+                   key={t}
+                   onClick={() => setTool(t)}
+                   disabled={t === 'score' && !activeQuestion}
+                   title={t === 'score' && !activeQuestion ? 'Selecione uma questão para carimbar a nota' : undefined}
+                   className={`text-xs font-medium px-2 py-1 rounded border transition-colors disabled:opacity-40 ${tool === t ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-400'}`}
+                 >
+                   {ANNOTATION_TOOL_LABELS[t]}
+                 </button>
+               ))}
+               <span className="flex items-center gap-1 ml-auto">
+                 {ANNOTATION_COLORS.map(c => (
+                   <button
+                     key={c}
+                     onClick={() => setColor(c)}
+                     className={`w-5 h-5 rounded-full border-2 ${color === c ? 'border-slate-800' : 'border-white shadow'}`}
+                     style={{ backgroundColor: c }}
+                     title="Cor da caneta"
+                   />
+                 ))}
+               </span>
+             </div>
+             <p className="text-[11px] text-slate-500">
+               {activeQuestion
+                 ? `As marcas serão associadas à questão ${activeQuestion.questionNumber}.`
+                 : 'Selecione uma questão para associar as marcas e carimbar a nota.'}
+             </p>
+           </div>
+         )}
+         <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+           {images.map((src, pageIdx) => (
+             <div key={pageIdx} ref={(el) => { pageRefs.current[pageIdx] = el; }} className={`relative group ${activeTool ? '' : 'cursor-pointer'}`} onClick={() => { if (!activeTool) setZoomedPage(pageIdx); }}>
+                <img src={src} alt={`Prova Original - Página ${pageIdx + 1}`} className="w-full rounded-lg border border-slate-100" onLoad={(e) => handleImageLoad(pageIdx, e)} />
+                {highlight && highlight.pageIndex === pageIdx && <HighlightOverlay highlight={highlight} />}
+                {images.length > 1 && (
+                  <span className="absolute top-2 left-2 bg-slate-900/80 text-white text-[10px] font-bold px-1.5 py-0.5 rounded">
+                    Pág. {pageIdx + 1}
+                  </span>
+                )}
+                {renderAnnotations(pageIdx, true)}
+                {!activeTool && <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors rounded-lg flex items-center justify-center">
+                  <div className="opacity-0 group-hover:opacity-100 bg-white/90 p-2 rounded-full shadow-sm transition-opacity">
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 text-indigo-600">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607zM10.5 7.5v6m3-3h-6" />
+                    </svg>
+                  </div>
+                </div>}
+             </div>
+           ))}
+         </div>
+      </div>
+
+      {/* Image Modal */}
+      {zoomedPage !== null && images[zoomedPage] && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 animate-fade-in" onClick={() => setZoomedPage(null)}>
+           <div className="absolute top-4 right-4 flex gap-2">
+             <button 
+                onClick={() => setZoomedPage(null)}
+                className="text-white/70 hover:text-white bg-white/10 hover:bg-white/20 p-2 rounded-full transition-all"
+             >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+             </button>
+           </div>
+           {images.length > 1 && (
+             <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-white/10 rounded-full px-3 py-1.5" onClick={(e) => e.stopPropagation()}>
+               <button 
+                  onClick={() => setZoomedPage(Math.max(0, zoomedPage - 1))}
+                  disabled={zoomedPage === 0}
+                  className="text-white/80 hover:text-white disabled:opacity-30 p-1"
+               >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+                  </svg>
+               </button>
+               <span className="text-white text-sm font-medium">Página {zoomedPage + 1} de {images.length}</span>
+               <button 
+                  onClick={() => setZoomedPage(Math.min(images.length - 1, zoomedPage + 1))}
+                  disabled={zoomedPage === images.length - 1}
+                  className="text-white/80 hover:text-white disabled:opacity-30 p-1"
+               >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+                  </svg>
+               </button>
+             </div>
+           )}
+           <div className="relative inline-block" onClick={(e) => e.stopPropagation()}>
+             <img 
+                src={images[zoomedPage]} 
+                alt="Proval Original Zoomed" 
+                className="block max-w-full max-h-[90vh] object-contain rounded-lg shadow-2xl"
+             />
+             {highlight && highlight.pageIndex === zoomedPage && <HighlightOverlay highlight={highlight} />}
+             {renderAnnotations(zoomedPage, false)}
+           </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { FeedbackAudience, FeedbackLanguage, FeedbackStyle, FeedbackTone } from '../types';
+import { FEEDBACK_AUDIENCE_LABELS, FEEDBACK_LANGUAGE_LABELS, FEEDBACK_TONE_LABELS } from '../services/feedbackStyleService';
+
+interface FeedbackStyleSettingsProps {
+  style: FeedbackStyle;
+  onChange: (updates: Partial<FeedbackStyle>) => void;
+  disabled?: boolean;
+}
+
+// Collapsible panel with the language, audience and tone of the AI feedback
+export const FeedbackStyleSettings: React.FC<FeedbackStyleSettingsProps> = ({ style, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const selectClassName = "mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500";
+
+  return (
+    <div className="mt-4 border border-slate-200 rounded-xl text-left">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-slate-700"
+      >
+        <span className="flex items-center gap-2">
+          Estilo do feedback
+          <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">
+            {FEEDBACK_LANGUAGE_LABELS[style.language]} · {FEEDBACK_AUDIENCE_LABELS[style.audience]}
+          </span>
+        </span>
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 border-t border-slate-100 pt-3">
+          <div className="grid grid-cols-3 gap-3">
+            <label className="text-sm text-slate-600">
+              Idioma
+              <select
+                value={style.language}
+                disabled={disabled}
+                onChange={(e) => onChange({ language: e.target.value as FeedbackLanguage })}
+                className={selectClassName}
+              >
+                {(Object.keys(FEEDBACK_LANGUAGE_LABELS) as FeedbackLanguage[]).map(language => (
+                  <option key={language} value={language}>{FEEDBACK_LANGUAGE_LABELS[language]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-slate-600">
+              Para quem
+              <select
+                value={style.audience}
+                disabled={disabled}
+                onChange={(e) => onChange({ audience: e.target.value as FeedbackAudience })}
+                className={selectClassName}
+              >
+                {(Object.keys(FEEDBACK_AUDIENCE_LABELS) as FeedbackAudience[]).map(audience => (
+                  <option key={audience} value={audience}>{FEEDBACK_AUDIENCE_LABELS[audience]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-slate-600">
+              Tom
+              <select
+                value={style.tone}
+                disabled={disabled}
+                onChange={(e) => onChange({ tone: e.target.value as FeedbackTone })}
+                className={selectClassName}
+              >
+                {(Object.keys(FEEDBACK_TONE_LABELS) as FeedbackTone[]).map(tone => (
+                  <option key={tone} value={tone}>{FEEDBACK_TONE_LABELS[tone]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-slate-500">
+            Vale para os comentários das questões, as reavaliações e o resumo. As transcrições continuam no idioma da prova.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { BoundingBox } from '../types';
+import { padBox } from '../services/regionService';
+
+interface ImageRegionCropProps {
+  src: string;
+  box: BoundingBox;
+  alt: string;
+}
+
+// Shows only the given region of a page image, scaled to the available width
+export const ImageRegionCrop: React.FC<ImageRegionCropProps> = ({ src, box, alt }) => {
+  // Natural size of the page is needed to keep the crop aspect ratio
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  const region = padBox(box);
+  const regionWidth = (region.xmax - region.xmin) / 1000;
+  const regionHeight = (region.ymax - region.ymin) / 1000;
+  const aspectRatio = size ? (regionWidth * size.width) / (regionHeight * size.height) : regionWidth / regionHeight;
+
+  return (
+    <div className="relative w-full overflow-hidden rounded-lg border border-slate-200 bg-slate-50" style={{ aspectRatio }}>
+      <img
+        src={src}
+        alt={alt}
+        onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        className="absolute max-w-none"
+        style={{
+          width: `${100 / regionWidth}%`,
+          left: `${-(region.xmin / 1000) / regionWidth * 100}%`,
+          top: `${-(region.ymin / 1000) / regionHeight * 100}%`,
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { AnswerKey, OmrSheetLayout } from '../types';
+import { OMR_MAX_QUESTIONS } from '../services/omrService';
+import { ensureSequentialItems } from '../services/answerKeyService';
+import { exportAnswerSheetTemplate } from '../services/exportService';
+
+interface OmrSheetSettingsProps {
+  layout: OmrSheetLayout;
+  onChange: (layout: OmrSheetLayout) => void;
+  answerKey: AnswerKey;
+  onAnswerKeyChange: (answerKey: AnswerKey) => void;
+}
+
+// Layout of the printable bubble sheet; the same settings must be used to print and to read it
+export const OmrSheetSettings: React.FC<OmrSheetSettingsProps> = ({ layout, onChange, answerKey, onAnswerKeyChange }) => {
+  return (
+    <div className="mb-6 p-4 bg-slate-50 border border-slate-200 rounded-xl space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-800">Cartão-resposta</h3>
+        <p className="text-xs text-slate-500 mt-0.5">
+          Leitura feita no próprio navegador, sem IA e sem consumir créditos. Use as mesmas configurações para imprimir e para corrigir.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="sm:col-span-3 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          Título
+          <input
+            type="text"
+            value={layout.title}
+            onChange={(e) => onChange({ ...layout, title: e.target.value })}
+            className="mt-1 w-full p-2 text-sm font-normal normal-case tracking-normal text-slate-700 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white"
+          />
+        </label>
+        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+          Questões
+          <input
+            type="number"
+            min={1}
+            max={OMR_MAX_QUESTIONS}
+            value={layout.questionCount}
+            onChange={(e) => onChange({ ...layout, questionCount: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), OMR_MAX_QUESTIONS) })}
+            className="mt-1 w-full p-2 text-sm font-normal text-slate-700 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white"
+          />
+        </label>
+        <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+          Alternativas
+          <select
+            value={layout.alternativeCount}
+            onChange={(e) => onChange({ ...layout, alternativeCount: Number(e.target.value) })}
+            className="mt-1 w-full p-2 text-sm font-normal text-slate-700 border border-slate-300 rounded-lg outline-none focus:border-indigo-500 bg-white"
+          >
+            <option value={4}>A – D</option>
+            <option value={5}>A – E</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={() => exportAnswerSheetTemplate(layout)}
+          className="px-3 py-2 text-sm font-medium text-indigo-700 bg-white border border-indigo-200 rounded-lg hover:bg-indigo-50 transition-colors"
+        >
+          Baixar modelo (PDF)
+        </button>
+        <button
+          onClick={() => onAnswerKeyChange(ensureSequentialItems(answerKey, layout.questionCount))}
+          className="px-3 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+        >
+          Criar questões 1–{layout.questionCount} no gabarito
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useRef, useState } from 'react';
+import { ExamPage, PageCorners } from '../types';
+import { FULL_PAGE_CORNERS } from '../services/imagePreprocessService';
+
+interface PageCropEditorProps {
+  page: ExamPage;
+  pageNumber: number;
+  onApply: (corners: PageCorners) => Promise<void>;
+  onClose: () => void;
+}
+
+// Before/after view of a preprocessed page with draggable corners for a manual perspective crop
+export const PageCropEditor: React.FC<PageCropEditorProps> = ({ page, pageNumber, onApply, onClose }) => {
+  const [corners, setCorners] = useState<PageCorners>(page.corners || FULL_PAGE_CORNERS);
+  const [draggingCorner, setDraggingCorner] = useState<number | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const imageAreaRef = useRef<HTMLDivElement>(null);
+
+  const originalUrl = page.original?.previewUrl || page.previewUrl;
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (draggingCorner === null || !imageAreaRef.current) return;
+    const rect = imageAreaRef.current.getBoundingClientRect();
+    const x = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    const y = Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1);
+    setCorners(prev => prev.map((p, i) => i === draggingCorner ? { x, y } : p) as PageCorners);
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply(corners);
+    } catch (err) {
+      console.error("Failed to crop page", err);
+      alert("Não foi possível recortar a página.");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[95vh] overflow-y-auto p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-800">Ajustar Página {pageNumber}</h2>
+            <p className="text-sm text-slate-500">Arraste os cantos até as bordas da folha. O recorte corrige a perspectiva da foto.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1" title="Fechar">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Antes</p>
+            <div
+              ref={imageAreaRef}
+              className="relative select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setDraggingCorner(null)}
+              onPointerLeave={() => setDraggingCorner(null)}
+            >
+              <img src={originalUrl} alt="Original" className="w-full rounded-lg border border-slate-200 pointer-events-none" />
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                <polygon
+                  points={corners.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill="rgba(99, 102, 241, 0.15)"
+                  stroke="#6366f1"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+              {corners.map((p, i) => (
+                <div
+                  key={i}
+                  onPointerDown={(e) => {
+                    e.preventDefault();
+                    setDraggingCorner(i);
+                  }}
+                  className={`absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white shadow cursor-grab ${draggingCorner === i ? 'bg-indigo-700 scale-125' : 'bg-indigo-500'}`}
+                  style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Depois (enviado para a análise)</p>
+            <img src={page.previewUrl} alt="Processada" className="w-full rounded-lg border border-slate-200 bg-slate-50" />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-6">
+          <div className="flex gap-3">
+            <button
+              onClick={() => setCorners(FULL_PAGE_CORNERS)}
+              className="text-sm font-medium text-slate-600 hover:text-indigo-600"
+            >
+              Imagem inteira
+            </button>
+            {page.corners && (
+              <button
+                onClick={() => setCorners(page.corners!)}
+                className="text-sm font-medium text-slate-600 hover:text-indigo-600"
+              >
+                Desfazer alterações
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50"
+            >
+              Fechar
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={isApplying}
+              className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              {isApplying && <span className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></span>}
+              Aplicar recorte
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
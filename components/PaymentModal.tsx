@@ -7,7 +7,7 @@ interface PaymentModalProps {
   onSuccess: () => void;
 }
 
-const PACKAGES = [
+export const PACKAGES = [
   { credits: 100, price: 5.00, label: "Básico" }, // R$ 0,05 / crédito
   { credits: 500, price: 20.00, label: "Popular", popular: true }, // R$ 0,04 / crédito
   { credits: 1000, price: 30.00, label: "Pro" }, // R$ 0,03 / crédito
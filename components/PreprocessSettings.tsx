@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { MAX_DIMENSION_OPTIONS, PreprocessOptions } from '../services/imagePreprocessService';
+
+interface PreprocessSettingsProps {
+  options: PreprocessOptions;
+  onChange: (updates: Partial<PreprocessOptions>) => void;
+  // Present when there are uploaded pages that can be processed again with the new options
+  onReapply?: () => void;
+  disabled?: boolean;
+}
+
+const TOGGLES: { field: keyof PreprocessOptions; label: string; hint: string }[] = [
+  { field: 'autoCrop', label: 'Recortar a folha', hint: 'Detecta as bordas do papel e corrige a perspectiva' },
+  { field: 'deskew', label: 'Corrigir inclinação', hint: 'Endireita linhas de texto levemente tortas' },
+  { field: 'enhanceContrast', label: 'Realçar contraste', hint: 'Clareia o papel e escurece a tinta' },
+  { field: 'binarize', label: 'Preto e branco', hint: 'Ajuda com lápis fraco, mas perde marcações coloridas' },
+];
+
+// Collapsible panel with the image preprocessing applied to uploads before the analysis
+export const PreprocessSettings: React.FC<PreprocessSettingsProps> = ({ options, onChange, onReapply, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-4 border border-slate-200 rounded-xl text-left">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-slate-700"
+      >
+        <span className="flex items-center gap-2">
+          Tratamento das imagens
+          <span className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${options.enabled ? 'bg-green-50 text-green-700' : 'bg-slate-100 text-slate-500'}`}>
+            {options.enabled ? 'Ativo' : 'Desligado'}
+          </span>
+        </span>
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 border-t border-slate-100 pt-3">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.enabled}
+              disabled={disabled}
+              onChange={(e) => onChange({ enabled: e.target.checked })}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Tratar fotos antes da análise
+          </label>
+
+          <div className={`grid grid-cols-1 sm:grid-cols-2 gap-2 ${options.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+            {TOGGLES.map(toggle => (
+              <label key={toggle.field} className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer" title={toggle.hint}>
+                <input
+                  type="checkbox"
+                  checked={options[toggle.field] as boolean}
+                  disabled={disabled}
+                  onChange={(e) => onChange({ [toggle.field]: e.target.checked })}
+                  className="mt-0.5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {toggle.label}
+              </label>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-slate-600 sm:col-span-2">
+              Resolução máxima
+              <select
+                value={options.maxDimension}
+                disabled={disabled}
+                onChange={(e) => onChange({ maxDimension: Number(e.target.value) })}
+                className="text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+              >
+                {MAX_DIMENSION_OPTIONS.map(size => (
+                  <option key={size} value={size}>{size} px</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {onReapply && (
+            <button
+              onClick={onReapply}
+              disabled={disabled}
+              className="text-xs font-medium text-indigo-600 hover:text-indigo-700 hover:underline disabled:opacity-50"
+            >
+              Reaplicar às páginas enviadas
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
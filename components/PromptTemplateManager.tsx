@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { PromptOperation, PromptTemplate } from '../types';
+import { archivePromptTemplate, getPromptTemplates, PromptTemplateDraft, savePromptTemplate } from '../services/authService';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  getLatestVersions,
+  getMissingVariables,
+  getTemplateHistory,
+  PROMPT_OPERATION_LABELS,
+  PROMPT_VARIABLES,
+} from '../services/promptTemplateService';
+
+interface EditorState {
+  draft: PromptTemplateDraft;
+  currentVersion: number; // Latest saved version of the template (0 for a new one)
+}
+
+const OPERATIONS = Object.keys(PROMPT_OPERATION_LABELS) as PromptOperation[];
+
+// Admin view to create and version the prompt templates teachers pick before an analysis
+export const PromptTemplateManager: React.FC = () => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [operation, setOperation] = useState<PromptOperation>('analyzeExam');
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTemplates = async () => {
+    setLoading(true);
+    try {
+      setTemplates(await getPromptTemplates());
+    } catch (error) {
+      console.error("Error loading prompt templates", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const latest = getLatestVersions(templates);
+
+  const openEditor = (source: PromptTemplate, templateId?: string) => {
+    const currentVersion = templateId ? getTemplateHistory(templates, templateId)[0]?.version || 0 : 0;
+    setEditor({
+      draft: {
+        templateId,
+        name: templateId ? source.name : '',
+        subject: templateId ? source.subject : '',
+        gradeLevel: templateId ? source.gradeLevel : '',
+        prompts: { ...source.prompts },
+      },
+      currentVersion,
+    });
+    setOperation('analyzeExam');
+  };
+
+  const updateDraft = (updates: Partial<PromptTemplateDraft>) => {
+    setEditor(prev => prev && { ...prev, draft: { ...prev.draft, ...updates } });
+  };
+
+  const handleSave = async () => {
+    if (!editor) return;
+    setIsSaving(true);
+    try {
+      await savePromptTemplate(editor.draft, editor.currentVersion);
+      setEditor(null);
+      await loadTemplates();
+    } catch (error) {
+      console.error("Error saving prompt template", error);
+      alert("Erro ao salvar o modelo.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleArchive = async (template: PromptTemplate) => {
+    if (!confirm(`Arquivar o modelo "${template.name}"? Ele deixa de aparecer para os professores; correções antigas continuam identificadas.`)) return;
+    try {
+      await archivePromptTemplate(template.templateId);
+      await loadTemplates();
+    } catch (error) {
+      alert("Erro ao arquivar o modelo.");
+    }
+  };
+
+  const missing = editor ? getMissingVariables(editor.draft.prompts) : {};
+  const canSave = !!editor && editor.draft.name.trim() !== '' && Object.keys(missing).length === 0 && !isSaving;
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-6 mt-8">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Modelos de Instruções</h2>
+          <p className="text-sm text-slate-500">
+            Instruções da IA por disciplina e série. Cada alteração gera uma nova versão; a correção registra a versão usada.
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <button onClick={loadTemplates} className="text-indigo-600 hover:text-indigo-800 text-sm font-medium">
+            Atualizar Modelos
+          </button>
+          <button
+            onClick={() => openEditor(DEFAULT_PROMPT_TEMPLATE)}
+            className="text-sm bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded-lg font-medium transition-colors"
+          >
+            Novo Modelo
+          </button>
+        </div>
+      </div>
+
+      {editor && (
+        <div className="border border-indigo-200 rounded-xl p-4 mb-6 space-y-4 bg-indigo-50/30">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-bold text-slate-700">
+              {editor.draft.templateId ? `Editando "${editor.draft.name}" (nova versão ${editor.currentVersion + 1})` : 'Novo modelo'}
+            </h3>
+            <button onClick={() => setEditor(null)} className="text-xs font-medium text-slate-500 hover:text-slate-700">
+              Cancelar
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="text-sm text-slate-600">
+              Nome
+              <input
+                type="text"
+                value={editor.draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="Ex: Matemática - Ensino Médio"
+                className="mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+              />
+            </label>
+            <label className="text-sm text-slate-600">
+              Disciplina
+              <input
+                type="text"
+                value={editor.draft.subject}
+                onChange={(e) => updateDraft({ subject: e.target.value })}
+                placeholder="Ex: Matemática"
+                className="mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+              />
+            </label>
+            <label className="text-sm text-slate-600">
+              Série / ano
+              <input
+                type="text"
+                value={editor.draft.gradeLevel}
+                onChange={(e) => updateDraft({ gradeLevel: e.target.value })}
+                placeholder="Ex: 2º ano"
+                className="mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+              />
+            </label>
+          </div>
+
+          <div>
+            <div className="flex bg-slate-100 rounded-lg p-1 text-xs font-medium w-fit mb-2">
+              {OPERATIONS.map(op => (
+                <button
+                  key={op}
+                  onClick={() => setOperation(op)}
+                  className={`px-2.5 py-1 rounded-md transition-colors ${operation === op ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {PROMPT_OPERATION_LABELS[op]}
+                  {missing[op] && <span className="text-red-600"> •</span>}
+                </button>
+              ))}
+            </div>
+            <textarea
+              value={editor.draft.prompts[operation]}
+              onChange={(e) => updateDraft({ prompts: { ...editor.draft.prompts, [operation]: e.target.value } })}
+              className="w-full h-72 p-3 text-xs font-mono border border-slate-300 rounded-xl bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+            />
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {PROMPT_VARIABLES[operation].map(variable => (
+                <span
+                  key={variable.name}
+                  title={variable.description}
+                  className={`text-[11px] font-mono px-1.5 py-0.5 rounded border ${
+                    missing[operation]?.includes(variable.name) ? 'bg-red-50 text-red-700 border-red-200' : 'bg-white text-slate-600 border-slate-200'
+                  }`}
+                >
+                  {`{{${variable.name}}}`}{variable.required && ' *'}
+                </span>
+              ))}
+            </div>
+            {Object.keys(missing).length > 0 && (
+              <p className="text-xs text-red-600 mt-2">
+                Variáveis obrigatórias (*) ausentes: {OPERATIONS.filter(op => missing[op]).map(op => `${PROMPT_OPERATION_LABELS[op]} (${missing[op]!.join(', ')})`).join('; ')}.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="text-sm bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              {isSaving ? 'Salvando...' : 'Salvar Versão'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Carregando...</p>
+      ) : latest.length === 0 ? (
+        <p className="text-sm text-slate-500">Nenhum modelo cadastrado. Os professores usam as instruções padrão.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase">Modelo</th>
+                <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase">Versão</th>
+                <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase">Atualizado em</th>
+                <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase text-right">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {latest.map(template => (
+                <React.Fragment key={template.templateId}>
+                  <tr className="hover:bg-slate-50 transition-colors text-sm">
+                    <td className="py-3 px-4">
+                      <div className="font-medium text-slate-900">{template.name}</div>
+                      <div className="text-xs text-slate-500">{[template.subject, template.gradeLevel].filter(Boolean).join(' · ')}</div>
+                    </td>
+                    <td className="py-3 px-4 font-mono text-slate-700">v{template.version}</td>
+                    <td className="py-3 px-4 text-slate-700">{new Date(template.createdAt).toLocaleString('pt-BR')}</td>
+                    <td className="py-3 px-4 text-right space-x-3">
+                      <button onClick={() => openEditor(template, template.templateId)} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                        Editar
+                      </button>
+                      <button
+                        onClick={() => setHistoryFor(historyFor === template.templateId ? null : template.templateId)}
+                        className="text-xs font-medium text-slate-500 hover:text-indigo-600"
+                      >
+                        Histórico
+                      </button>
+                      <button onClick={() => handleArchive(template)} className="text-xs font-medium text-slate-500 hover:text-red-600">
+                        Arquivar
+                      </button>
+                    </td>
+                  </tr>
+                  {historyFor === template.templateId && getTemplateHistory(templates, template.templateId).map(version => (
+                    <tr key={version.id} className="bg-slate-50 text-xs">
+                      <td className="py-2 px-4 pl-8 text-slate-600">{version.name}</td>
+                      <td className="py-2 px-4 font-mono text-slate-600">v{version.version}</td>
+                      <td className="py-2 px-4 text-slate-600">{new Date(version.createdAt).toLocaleString('pt-BR')}</td>
+                      <td className="py-2 px-4 text-right">
+                        {version.version !== template.version && (
+                          <button onClick={() => openEditor(version, template.templateId)} className="font-medium text-indigo-600 hover:text-indigo-800">
+                            Restaurar como nova versão
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { AnswerKey, CorrectionResult, FeedbackStyle, RecoveryWorksheet } from '../types';
+import { generateRecoveryWorksheet } from '../services/geminiService';
+import { exportRecoveryWorksheetToDOCX, exportRecoveryWorksheetToPDF } from '../services/exportService';
+import { DEFAULT_QUESTIONS_PER_MISTAKE, getMissedQuestions, MAX_QUESTIONS_PER_MISTAKE, RECOVERY_DIFFICULTY_LABELS } from '../services/recoveryService';
+
+interface RecoveryWorksheetModalProps {
+  data: CorrectionResult;
+  answerKey: AnswerKey;
+  feedbackStyle: FeedbackStyle;
+  onClose: () => void;
+}
+
+// Generates practice questions from the student's mistakes and exports them as a worksheet separate from the report
+export const RecoveryWorksheetModal: React.FC<RecoveryWorksheetModalProps> = ({ data, answerKey, feedbackStyle, onClose }) => {
+  const [questionsPerMistake, setQuestionsPerMistake] = useState(DEFAULT_QUESTIONS_PER_MISTAKE);
+  const [includeAnswerKey, setIncludeAnswerKey] = useState(true);
+  const [worksheet, setWorksheet] = useState<RecoveryWorksheet | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const missed = getMissedQuestions(data);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const generated = await generateRecoveryWorksheet(data, answerKey, questionsPerMistake, feedbackStyle);
+      if (generated.questions.length === 0) {
+        setError("A IA não retornou nenhuma questão. Tente novamente.");
+      } else {
+        setWorksheet(generated);
+      }
+    } catch (err) {
+      setError("Não foi possível gerar a lista de recuperação. Tente novamente.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleRemoveQuestion = (index: number) => {
+    setWorksheet(prev => prev && { ...prev, questions: prev.questions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800">Lista de recuperação</h3>
+          <p className="text-sm text-slate-600 mt-1">
+            Questões novas, com a mesma habilidade e dificuldade das {missed.length} questão(ões) que {data.studentName || 'o aluno'} errou
+            {missed.length > 0 && ` (${missed.map(q => q.questionNumber).join(', ')})`}.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Questões por erro
+              <select
+                value={questionsPerMistake}
+                onChange={(e) => setQuestionsPerMistake(Number(e.target.value))}
+                disabled={isGenerating}
+                className="text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+              >
+                {Array.from({ length: MAX_QUESTIONS_PER_MISTAKE }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleGenerate}
+              disabled={isGenerating || missed.length === 0}
+              className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isGenerating ? 'Gerando...' : worksheet ? 'Gerar novamente' : 'Gerar questões'}
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {worksheet && worksheet.questions.map((question, i) => (
+            <div key={i} className="border border-slate-200 rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-bold text-slate-700">{i + 1}.</span>
+                <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">
+                  Questão {question.sourceQuestionNumber}
+                </span>
+                <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700">
+                  {RECOVERY_DIFFICULTY_LABELS[question.difficulty]}
+                </span>
+                <span className="text-xs text-slate-500 truncate">{question.skill}</span>
+                <button
+                  onClick={() => handleRemoveQuestion(i)}
+                  className="ml-auto text-xs font-medium text-slate-400 hover:text-red-600"
+                >
+                  Remover
+                </button>
+              </div>
+              <p className="text-sm text-slate-700 whitespace-pre-wrap">{question.questionText}</p>
+              {question.alternatives.length > 0 && (
+                <ol className="text-xs text-slate-600 space-y-0.5 pl-1">
+                  {question.alternatives.map((alternative, j) => (
+                    <li key={j}>
+                      <span className="font-mono text-slate-400">{String.fromCharCode(65 + j)})</span> {alternative}
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <p className="text-xs text-green-700"><strong>Resposta:</strong> {question.answer}</p>
+              {question.explanation && <p className="text-xs text-slate-500">{question.explanation}</p>}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={includeAnswerKey}
+              onChange={(e) => setIncludeAnswerKey(e.target.checked)}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Incluir gabarito (em página separada)
+          </label>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-slate-600 text-sm font-medium hover:bg-slate-100 rounded">
+              Fechar
+            </button>
+            <button
+              onClick={() => worksheet && exportRecoveryWorksheetToPDF(worksheet, includeAnswerKey)}
+              disabled={!worksheet || worksheet.questions.length === 0}
+              className="px-4 py-2 bg-red-50 hover:bg-red-100 text-red-700 text-sm font-medium rounded border border-red-200 disabled:opacity-50"
+            >
+              PDF
+            </button>
+            <button
+              onClick={() => worksheet && exportRecoveryWorksheetToDOCX(worksheet, includeAnswerKey)}
+              disabled={!worksheet || worksheet.questions.length === 0}
+              className="px-4 py-2 bg-blue-50 hover:bg-blue-100 text-blue-700 text-sm font-medium rounded border border-blue-200 disabled:opacity-50"
+            >
+              DOCX
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
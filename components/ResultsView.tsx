@@ -1,42 +1,121 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { CorrectionResult, QuestionResult } from '../types';
-import { reevaluateQuestion, regenerateSummary } from '../services/geminiService';
+import { AnswerKey, CorrectionResult, EditSource, FeedbackStyle, GradingOpinion, PageAnnotation, PromptTemplate, QuestionResult, RubricCriterionScore, ValidationWarning } from '../types';
+import { gradeWithRubric, reevaluateQuestion, regenerateSummary } from '../services/geminiService';
 import { exportToPDF, exportToDOCX } from '../services/exportService';
+import { AnnotatedPage, renderAnnotatedPages } from '../services/annotationService';
+import { ExamImagePanel, ImageHighlight } from './ExamImagePanel';
+import { ImageRegionCrop } from './ImageRegionCrop';
+import { getPageIndex } from '../services/regionService';
+import { CONFIDENCE_FIELD_LABELS, getLowConfidenceFields, getPendingReviewCount, hasMathConflict, isFlaggedForReview } from '../services/reviewService';
+import { calculateTotals } from '../services/scoreService';
+import { criteriaFromScores, getCriterionMaxPoints, getCriterionPoints, sumRubricScores } from '../services/rubricService';
+import { formatNumber, GRADE_SCALE_LABELS, resolveScoringPolicy, summarizeGrade } from '../services/scoringPolicyService';
+import { loadFeedbackStyle } from '../services/feedbackStyleService';
+import { getMissedQuestions } from '../services/recoveryService';
+import { RecoveryWorksheetModal } from './RecoveryWorksheetModal';
+import { SkillBreakdown } from './SkillBreakdown';
+import { SkillCodesInput } from './SkillCodesInput';
+import { getQuestionSkills } from '../services/skillService';
+import { diffFromOriginal, EMPTY_HISTORY, getOriginalScore, recordEdit, redo, undo, UndoHistory } from '../services/editHistoryService';
+import { EditHistoryModal } from './EditHistoryModal';
+import { findAnswerKeyItem } from '../services/answerKeyService';
+import {
+  canMergeWithNext,
+  convertItemType,
+  createContextItem,
+  createQuestionItem,
+  ensureItemIds,
+  insertItem,
+  mergeWithNext,
+  moveItem,
+  removeItem,
+  splitItem,
+  suggestNextNumber,
+  withTotals,
+} from '../services/questionStructureService';
 
 interface ResultsViewProps {
   result: CorrectionResult;
-  examImage: string;
-  context: string;
+  examImages: string[];
+  answerKey: AnswerKey;
   onReset: () => void;
+  resetLabel?: string;
+  // Notified with the edited result so callers (e.g. batch mode) can keep the teacher's changes
+  onResultChange?: (result: CorrectionResult) => void;
+  // True while the analysis is still streaming; the result is shown read-only until it finishes
+  isStreaming?: boolean;
+  onCancel?: () => void;
+  // Template version that produced the correction; re-evaluations and summaries reuse it
+  promptTemplate?: PromptTemplate;
 }
 
-const ResultsView: React.FC<ResultsViewProps> = ({ result: initialResult, examImage, context, onReset }) => {
+// Rows are keyed by item id so structural edits never hand one item's editor state to another
+const withItemIds = (result: CorrectionResult): CorrectionResult => {
+  const questions = ensureItemIds(result.questions || []);
+  return questions === result.questions ? result : { ...result, questions };
+};
+
+const ResultsView: React.FC<ResultsViewProps> = ({ result: initialResult, examImages, answerKey, onReset, resetLabel = "Corrigir Outra Prova", onResultChange, isStreaming = false, onCancel, promptTemplate }) => {
   // Local state to handle edits
-  const [data, setData] = useState<CorrectionResult>(initialResult);
-  const [isImageZoomed, setIsImageZoomed] = useState(false);
+  const [data, setData] = useState<CorrectionResult>(() => withItemIds(initialResult));
   const [isUpdatingSummary, setIsUpdatingSummary] = useState(false);
+  // Card the teacher is working on; its regions are highlighted on the scan
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const [showOnlyFlagged, setShowOnlyFlagged] = useState(false);
+  const [showRecoveryWorksheet, setShowRecoveryWorksheet] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [markAdjustedGrades, setMarkAdjustedGrades] = useState(false);
+  const [isExportingPDF, setIsExportingPDF] = useState(false);
+  const [history, setHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+  const [draggedItemIndex, setDraggedItemIndex] = useState<number | null>(null);
+  // Latest values for handlers that run after an await (re-evaluation) or from the keyboard listener
+  const dataRef = useRef(data);
+  const historyRef = useRef(history);
+  dataRef.current = data;
+  historyRef.current = history;
   
+  // Style of the original analysis; OMR readings (which have none) follow the teacher's preference
+  const feedbackStyle = data.feedbackStyle || loadFeedbackStyle();
+
   // Ref to track initial render to avoid unnecessary summary generation on load
   const firstRender = useRef(true);
+  // Version shown by the last undo/redo: it already has its summary, and a new one would clear the redo stack
+  const restoredRef = useRef<CorrectionResult | null>(null);
+
+  // Result the state was last taken from (the state itself has item ids added)
+  const loadedResultRef = useRef(initialResult);
 
   useEffect(() => {
-    setData(initialResult);
+    // Batch mode feeds the edited result back; only a different correction resets the undo history
+    if (initialResult === dataRef.current || initialResult === loadedResultRef.current) return;
+    loadedResultRef.current = initialResult;
+    setData(withItemIds(initialResult));
+    setHistory(EMPTY_HISTORY);
   }, [initialResult]);
 
+  useEffect(() => {
+    if (onResultChange && data !== initialResult) onResultChange(data);
+  }, [data]);
+
   // Effect to automatically regenerate summary when questions or score change
   useEffect(() => {
     if (firstRender.current) {
       firstRender.current = false;
       return;
     }
+    // Partial results change on their own while streaming; only the teacher's edits trigger a new summary
+    if (isStreaming) return;
+    if (data === restoredRef.current) return;
 
     // Debounce the API call
     const timeoutId = setTimeout(async () => {
       setIsUpdatingSummary(true);
       try {
-        const newSummary = await regenerateSummary(data);
-        if (newSummary) {
-             setData(prev => ({ ...prev, summary: newSummary }));
+        const newSummary = await regenerateSummary(data, promptTemplate, feedbackStyle);
+        // Dropped when the questions changed meanwhile (an edit, undo or redo); otherwise recorded as an AI edit,
+        // shown in the log and undone as its own step without touching the questions
+        if (newSummary && dataRef.current.questions === data.questions) {
+          applyEdit({ ...dataRef.current, summary: newSummary }, 'ai');
         }
       } catch (error) {
         console.error("Failed to auto-update summary", error);
@@ -48,126 +127,313 @@ const ResultsView: React.FC<ResultsViewProps> = ({ result: initialResult, examIm
     return () => clearTimeout(timeoutId);
   }, [data.questions, data.totalScore]); // Dependency array: trigger on question or score changes
 
+  // Every edit goes through here: it keeps the AI original, logs the change and adds an undo step
+  const applyEdit = (next: CorrectionResult, source?: EditSource, structuralChange?: string) => {
+    const recorded = recordEdit(dataRef.current, next, historyRef.current, source, structuralChange);
+    dataRef.current = recorded.data;
+    historyRef.current = recorded.history;
+    setData(recorded.data);
+    setHistory(recorded.history);
+  };
+
+  const handleUndo = () => {
+    const restored = undo(dataRef.current, historyRef.current);
+    if (!restored) return;
+    restoredRef.current = restored.data;
+    setData(restored.data);
+    setHistory(restored.history);
+  };
+
+  const handleRedo = () => {
+    const restored = redo(dataRef.current, historyRef.current);
+    if (!restored) return;
+    restoredRef.current = restored.data;
+    setData(restored.data);
+    setHistory(restored.history);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y redo (also inside the text fields, which are all tracked)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isStreaming || showRecoveryWorksheet) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isStreaming, showRecoveryWorksheet]);
+
   // Handlers for header updates
   const handleHeaderChange = (field: keyof CorrectionResult, value: string | number) => {
-    setData(prev => ({ ...prev, [field]: value }));
+    applyEdit({ ...dataRef.current, [field]: value });
   };
 
   // Handler for question updates
   const handleQuestionChange = (index: number, field: keyof QuestionResult, value: any) => {
+    const data = dataRef.current;
     const updatedQuestions = [...data.questions];
     updatedQuestions[index] = { ...updatedQuestions[index], [field]: value };
     
-    // Auto-recalculate total score if a question score changes
-    // Only consider items that are actual questions with scores
-    let newTotalScore = data.totalScore;
-    let newMaxTotalScore = data.maxTotalScore;
-
-    if (updatedQuestions[index].type !== 'context') {
-        if (field === 'score') {
-            const scoreValue = parseFloat(value) || 0;
-            updatedQuestions[index].score = scoreValue; 
-            
-            newTotalScore = updatedQuestions.reduce((acc, q) => {
-                if (q.type === 'context') return acc;
-                return acc + (q.score || 0);
-            }, 0);
-            
-            // Round to 2 decimal places
-            newTotalScore = Math.round(newTotalScore * 100) / 100;
-        }
-
-        if (field === 'maxScore') {
-            const maxScoreValue = parseFloat(value) || 0;
-            updatedQuestions[index].maxScore = maxScoreValue;
-            
-            newMaxTotalScore = updatedQuestions.reduce((acc, q) => {
-                 if (q.type === 'context') return acc;
-                 return acc + (q.maxScore || 0);
-            }, 0);
-             newMaxTotalScore = Math.round(newMaxTotalScore * 100) / 100;
-        }
+    // Keep numeric fields as numbers and recalculate the (weighted) totals
+    if (updatedQuestions[index].type !== 'context' && (field === 'score' || field === 'maxScore')) {
+        updatedQuestions[index][field] = parseFloat(value) || 0;
     }
 
-    setData(prev => ({
-        ...prev,
+    applyEdit({
+        ...data,
         questions: updatedQuestions,
-        totalScore: field === 'score' ? newTotalScore : prev.totalScore,
-        maxTotalScore: field === 'maxScore' ? newMaxTotalScore : prev.maxTotalScore
-    }));
+        ...(field === 'score' || field === 'maxScore' ? calculateTotals(updatedQuestions) : {})
+    });
   };
 
-  const handleQuestionBulkUpdate = (index: number, updates: Partial<QuestionResult>) => {
+  const handleQuestionBulkUpdate = (index: number, updates: Partial<QuestionResult>, source?: EditSource) => {
+      const data = dataRef.current;
       const updatedQuestions = [...data.questions];
       updatedQuestions[index] = { ...updatedQuestions[index], ...updates };
 
-      let newTotalScore = data.totalScore;
-      if (updates.score !== undefined) {
-         newTotalScore = updatedQuestions.reduce((acc, q) => acc + (q.score || 0), 0);
-         newTotalScore = Math.round(newTotalScore * 100) / 100;
-      }
-
-      setData(prev => ({
-          ...prev,
+      applyEdit({
+          ...data,
           questions: updatedQuestions,
-          totalScore: updates.score !== undefined ? newTotalScore : prev.totalScore
-      }));
+          ...(updates.score !== undefined ? calculateTotals(updatedQuestions) : {})
+      }, source);
   };
 
   // Handler for updating specific alternatives
   const handleAlternativeChange = (qIndex: number, altIndex: number, value: string) => {
+      const data = dataRef.current;
       const updatedQuestions = [...data.questions];
       if (updatedQuestions[qIndex].alternatives) {
           const updatedAlternatives = [...(updatedQuestions[qIndex].alternatives as string[])];
           updatedAlternatives[altIndex] = value;
           updatedQuestions[qIndex] = { ...updatedQuestions[qIndex], alternatives: updatedAlternatives };
-          setData(prev => ({ ...prev, questions: updatedQuestions }));
+          applyEdit({ ...data, questions: updatedQuestions });
       }
   };
 
-  // Calculate percentage for color coding score
-  const percentage = (data.totalScore / data.maxTotalScore) * 100;
+  // Structural changes (add, remove, split, merge, move, convert) recalculate the totals and are logged as one entry
+  const applyStructureChange = (questions: QuestionResult[], description: string) => {
+    applyEdit({ ...dataRef.current, ...withTotals(questions) }, 'teacher', description);
+    setFocusedIndex(null);
+  };
+
+  const describeItem = (q: QuestionResult) =>
+    q.type === 'context' ? (q.questionNumber ? `Texto "${q.questionNumber}"` : 'Texto de apoio') : `Questão ${q.questionNumber}`;
+  // Portuguese participle agreement: "Questão 5 adicionada", "Texto de apoio adicionado"
+  const agree = (q: QuestionResult, participle: string) => `${participle}${q.type === 'context' ? 'o' : 'a'}`;
+
+  const handleAddItem = (index: number, type: 'question' | 'context') => {
+    const questions = dataRef.current.questions;
+    const page = questions[index - 1]?.page;
+    let item: QuestionResult;
+    if (type === 'context') {
+      item = createContextItem(page);
+    } else {
+      item = createQuestionItem(suggestNextNumber(questions), page);
+      // The teacher's key sets the value of a question it lists
+      const keyItem = findAnswerKeyItem(answerKey, item.questionNumber);
+      if (keyItem) item = { ...item, maxScore: keyItem.maxScore, weight: keyItem.weight, skills: keyItem.skills };
+    }
+    applyStructureChange(insertItem(questions, index, item), `${describeItem(item)} ${agree(item, 'adicionad')}`);
+  };
+
+  const handleRemoveItem = (index: number) => {
+    const questions = dataRef.current.questions;
+    applyStructureChange(removeItem(questions, index), `${describeItem(questions[index])} ${agree(questions[index], 'excluíd')}`);
+  };
+
+  const handleSplitItem = (index: number) => {
+    const questions = dataRef.current.questions;
+    const updated = splitItem(questions, index);
+    const parts = questions[index].type === 'context' ? 'dois' : `${updated[index].questionNumber} e ${updated[index + 1].questionNumber}`;
+    applyStructureChange(updated, `${describeItem(questions[index])} ${agree(questions[index], 'dividid')} em ${parts}`);
+  };
+
+  const handleMergeWithNext = (index: number) => {
+    const questions = dataRef.current.questions;
+    if (!canMergeWithNext(questions, index)) return;
+    applyStructureChange(mergeWithNext(questions, index), `${describeItem(questions[index])} ${agree(questions[index], 'juntad')} com ${describeItem(questions[index + 1]).toLowerCase()}`);
+  };
+
+  const handleConvertItem = (index: number) => {
+    const questions = dataRef.current.questions;
+    const original = questions[index];
+    applyStructureChange(
+      convertItemType(questions, index, suggestNextNumber(questions)),
+      `${describeItem(original)} ${agree(original, 'convertid')} em ${original.type === 'context' ? 'questão' : 'texto de apoio'}`
+    );
+  };
+
+  const handleItemDrop = (targetIndex: number) => {
+    if (draggedItemIndex === null || draggedItemIndex === targetIndex) return;
+    const questions = dataRef.current.questions;
+    applyStructureChange(moveItem(questions, draggedItemIndex, targetIndex), `${describeItem(questions[draggedItemIndex])} ${agree(questions[draggedItemIndex], 'movid')} para a posição ${targetIndex + 1}`);
+    setDraggedItemIndex(null);
+  };
+
+  const handleAnnotationsChange = (annotations: PageAnnotation[]) => {
+    applyEdit({ ...dataRef.current, annotations });
+  };
+
+  // Pages with pen marks are rendered first so the student gets the marked-up exam with the feedback
+  const handleExportPDF = async () => {
+    let annotatedPages: AnnotatedPage[] = [];
+    if ((data.annotations || []).length > 0) {
+      setIsExportingPDF(true);
+      try {
+        annotatedPages = await renderAnnotatedPages(examImages, data);
+      } catch (error) {
+        console.error("Failed to render annotated pages", error);
+        alert("Não foi possível incluir as páginas anotadas. O PDF será gerado sem elas.");
+      } finally {
+        setIsExportingPDF(false);
+      }
+    }
+    exportToPDF(data, policy, answerKey, markAdjustedGrades, annotatedPages);
+  };
+
+  const flaggedCount = data.questions.filter(isFlaggedForReview).length;
+  const pendingReviewCount = getPendingReviewCount(data.questions);
+
+  // A correction can only be finalized once every flagged question was checked
+  const handleFinalize = () => {
+    if (pendingReviewCount > 0) return;
+    applyEdit({ ...data, isFinal: true });
+  };
+
+  const getPageImage = (question: QuestionResult) => {
+    const pageIdx = getPageIndex(question.page, examImages.length);
+    return pageIdx !== undefined ? examImages[pageIdx] : undefined;
+  };
+
+  const focusedQuestion = focusedIndex !== null ? data.questions[focusedIndex] : undefined;
+  const focusedPageIndex = focusedQuestion ? getPageIndex(focusedQuestion.page, examImages.length) : undefined;
+  const highlight: ImageHighlight | null = focusedQuestion && focusedPageIndex !== undefined && (focusedQuestion.questionBox || focusedQuestion.answerBox)
+    ? {
+        pageIndex: focusedPageIndex,
+        label: focusedQuestion.type === 'context' ? focusedQuestion.questionNumber || 'Texto' : `Questão ${focusedQuestion.questionNumber}`,
+        questionBox: focusedQuestion.questionBox,
+        answerBox: focusedQuestion.answerBox,
+      }
+    : null;
+
+  // Final grade under the exam's scoring policy (or the school default)
+  const policy = resolveScoringPolicy(answerKey);
+  const grade = summarizeGrade(data, policy, answerKey);
+  const missedCount = getMissedQuestions(data).length;
+  const changedFieldCount = diffFromOriginal(data).length;
+
   let scoreColor = "text-red-600";
-  if (percentage >= 70) scoreColor = "text-green-600";
-  else if (percentage >= 50) scoreColor = "text-yellow-600";
+  if (grade.passed) scoreColor = "text-green-600";
+  else if (grade.percent >= policy.passingPercent - 20) scoreColor = "text-yellow-600";
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 animate-fade-in">
+      {showEditHistory && <EditHistoryModal data={data} onClose={() => setShowEditHistory(false)} />}
+      {showRecoveryWorksheet && (
+        <RecoveryWorksheetModal
+          data={data}
+          answerKey={answerKey}
+          feedbackStyle={feedbackStyle}
+          onClose={() => setShowRecoveryWorksheet(false)}
+        />
+      )}
       
       {/* Left Column: Image Reference */}
       <div className="lg:col-span-1">
         <div className="sticky top-24 space-y-6">
-          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 overflow-hidden">
-             <div className="flex items-center justify-between mb-3">
-                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Imagem Original</h3>
-                <button 
-                  onClick={() => setIsImageZoomed(true)}
-                  className="text-indigo-600 hover:bg-indigo-50 p-1 rounded-lg transition-colors"
-                  title="Expandir imagem"
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 3.75v4.5m0-4.5h4.5m-4.5 0L9 9M3.75 20.25v-4.5m0 4.5h4.5m-4.5 0L9 15M20.25 3.75h-4.5m4.5 0v4.5m0-4.5L15 9m5.25 11.25h-4.5m4.5 0v-4.5m0 4.5L15 15" />
+          <ExamImagePanel
+            images={examImages}
+            highlight={highlight}
+            annotations={data.annotations}
+            questions={data.questions}
+            activeQuestion={focusedQuestion && focusedQuestion.type !== 'context' ? focusedQuestion : undefined}
+            onAnnotationsChange={handleAnnotationsChange}
+            disabled={isStreaming}
+          />
+          
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 space-y-3">
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Status da Correção</h3>
+            {data.isFinal ? (
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm font-bold text-green-700 flex items-center gap-1.5">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                   </svg>
+                  Correção finalizada
+                </span>
+                <button
+                  onClick={() => applyEdit({ ...data, isFinal: false })}
+                  className="text-xs font-medium text-slate-500 hover:text-indigo-600"
+                >
+                  Reabrir
                 </button>
-             </div>
-             <div className="relative group cursor-pointer" onClick={() => setIsImageZoomed(true)}>
-                <img src={examImage} alt="Exam Original" className="w-full rounded-lg border border-slate-100" />
-                <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors rounded-lg flex items-center justify-center">
-                  <div className="opacity-0 group-hover:opacity-100 bg-white/90 p-2 rounded-full shadow-sm transition-opacity">
-                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 text-indigo-600">
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607zM10.5 7.5v6m3-3h-6" />
-                    </svg>
-                  </div>
-                </div>
-             </div>
+              </div>
+            ) : (
+              <>
+                <p className={`text-xs ${pendingReviewCount > 0 ? 'text-amber-700' : 'text-slate-500'}`}>
+                  {pendingReviewCount > 0
+                    ? `${pendingReviewCount} questão(ões) sinalizada(s) aguardando revisão.`
+                    : flaggedCount > 0 ? 'Todas as questões sinalizadas foram revisadas.' : 'Nenhuma questão foi sinalizada pela IA.'}
+                </p>
+                <button
+                  onClick={handleFinalize}
+                  disabled={isStreaming || pendingReviewCount > 0}
+                  className="w-full py-2 px-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors text-sm disabled:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed"
+                  title={pendingReviewCount > 0 ? 'Revise as questões sinalizadas antes de finalizar' : undefined}
+                >
+                  Finalizar Correção
+                </button>
+              </>
+            )}
           </div>
-          
+
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 space-y-3">
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Edições</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={handleUndo}
+                disabled={isStreaming || history.past.length === 0}
+                className="px-3 py-2 bg-white hover:bg-slate-50 text-slate-700 font-medium rounded-lg transition-colors border border-slate-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Desfazer (Ctrl+Z)"
+              >
+                Desfazer
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={isStreaming || history.future.length === 0}
+                className="px-3 py-2 bg-white hover:bg-slate-50 text-slate-700 font-medium rounded-lg transition-colors border border-slate-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Refazer (Ctrl+Shift+Z)"
+              >
+                Refazer
+              </button>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-slate-500">
+                {changedFieldCount > 0 ? `${changedFieldCount} alteração(ões) em relação à IA.` : 'Igual à correção da IA.'}
+              </p>
+              <button
+                onClick={() => setShowEditHistory(true)}
+                disabled={!data.aiOriginal}
+                className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:text-slate-400 disabled:cursor-not-allowed"
+              >
+                Ver alterações
+              </button>
+            </div>
+          </div>
+
           <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 space-y-3">
             <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Exportar Resultado</h3>
             <div className="grid grid-cols-2 gap-3">
                 <button 
-                    onClick={() => exportToPDF(data)}
-                    className="flex items-center justify-center gap-2 px-3 py-2 bg-red-50 hover:bg-red-100 text-red-700 font-medium rounded-lg transition-colors border border-red-200 text-sm"
+                    onClick={handleExportPDF}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-red-50 hover:bg-red-100 text-red-700 font-medium rounded-lg transition-colors border border-red-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={isStreaming || isExportingPDF}
                 >
                     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
                         <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
@@ -175,8 +441,9 @@ const ResultsView: React.FC<ResultsViewProps> = ({ result: initialResult, examIm
                     PDF
                 </button>
                 <button 
-                    onClick={() => exportToDOCX(data)}
-                    className="flex items-center justify-center gap-2 px-3 py-2 bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium rounded-lg transition-colors border border-blue-200 text-sm"
+                    onClick={() => exportToDOCX(data, policy, answerKey, markAdjustedGrades)}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium rounded-lg transition-colors border border-blue-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={isStreaming}
                 >
                     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
                         <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m.75 12l3-3m0 0l3 3m-3-3v6m-1.5-9H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
@@ -184,6 +451,25 @@ const ResultsView: React.FC<ResultsViewProps> = ({ result: initialResult, examIm
                     DOCX
                 </button>
             </div>
+            {data.aiOriginal && (
+              <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={markAdjustedGrades}
+                  onChange={(e) => setMarkAdjustedGrades(e.target.checked)}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Indicar notas ajustadas pelo professor
+              </label>
+            )}
+            <button
+              onClick={() => setShowRecoveryWorksheet(true)}
+              disabled={isStreaming || missedCount === 0}
+              className="w-full px-3 py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 font-medium rounded-lg transition-colors border border-indigo-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              title={missedCount === 0 ? 'O aluno não errou nenhuma questão' : undefined}
+            >
+              Gerar lista de recuperação
+            </button>
           </div>
 
           <button
@@ -193,13 +479,35 @@ const ResultsView: React.FC<ResultsViewProps> = ({ result: initialResult, examIm
             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
               <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5L3 12m0 0l7.5-7.5M3 12h18" />
             </svg>
-            Corrigir Outra Prova
+            {resetLabel}
           </button>
         </div>
       </div>
 
       {/* Right Column: Results */}
       <div className="lg:col-span-2 space-y-6">
+
+        {isStreaming && (
+          <div className="bg-indigo-50 rounded-xl border border-indigo-200 p-4 flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3 text-sm text-indigo-800">
+              <div className="w-4 h-4 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+              <span>
+                Analisando a prova... <strong>{data.questions.length}</strong> questão(ões) recebida(s) até agora.
+              </span>
+            </div>
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="text-xs font-semibold text-indigo-700 hover:text-red-600 border border-indigo-200 bg-white rounded-lg px-3 py-1.5 transition-colors"
+              >
+                Cancelar
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Editing is only enabled once the final, validated result arrives */}
+        <fieldset disabled={isStreaming} className="space-y-6 min-w-0">
         
         {/* Header Card (Editable) */}
         <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 relative overflow-hidden">
@@ -269,20 +577,49 @@ const ResultsView: React.FC<ResultsViewProps> = ({ result: initialResult, examIm
                <div className="text-right">
                     <span className="text-xs text-slate-500 font-bold uppercase tracking-wider block">Nota Final</span>
                     <div className="flex items-baseline justify-end gap-2">
-                        <input 
-                            type="number"
-                            value={data.totalScore}
-                            readOnly
-                            className={`text-5xl font-bold ${scoreColor} bg-transparent outline-none text-right w-32`}
-                        />
-                        <span className="text-2xl text-slate-400 font-medium">/ {data.maxTotalScore}</span>
+                        <span className={`text-5xl font-bold ${scoreColor}`}>{grade.gradeText}</span>
+                        {grade.scaleText && <span className="text-2xl text-slate-400 font-medium">{grade.scaleText}</span>}
                     </div>
-                    <p className="text-xs text-slate-400 mt-1">*Calculada automaticamente</p>
+                    {(policy.scale !== 'points' || grade.penalty > 0) && (
+                        <p className="text-xs text-slate-500 mt-1">
+                            {formatNumber(grade.points)} de {formatNumber(grade.maxPoints)} pts
+                            {grade.penalty > 0 && ` (penalidade de ${formatNumber(grade.penalty)} pts por erros)`}
+                        </p>
+                    )}
+                    <p className="text-xs text-slate-400 mt-1">*Calculada automaticamente · {GRADE_SCALE_LABELS[policy.scale]}, mínimo {policy.passingPercent}%</p>
                </div>
             </div>
           </div>
         </div>
 
+        {/* Automatic adjustments made when validating the AI output */}
+        {data.validationWarnings && data.validationWarnings.length > 0 && (
+          <div className="bg-amber-50 rounded-xl border border-amber-200 p-5">
+            <h3 className="text-sm font-bold text-amber-800 flex items-center gap-2 mb-3">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+              </svg>
+              Ajustes automáticos ({data.validationWarnings.length})
+            </h3>
+            <ul className="space-y-1.5">
+              {data.validationWarnings.map((w, i) => (
+                <li key={i} className="text-xs text-amber-900 flex items-start gap-2">
+                  <span className={`shrink-0 font-bold uppercase tracking-wider px-1.5 py-0.5 rounded text-[10px] ${w.kind === 'corrected' ? 'bg-amber-200 text-amber-900' : 'bg-red-100 text-red-700'}`}>
+                    {w.kind === 'corrected' ? 'Corrigido' : 'Verificar'}
+                  </span>
+                  <span>
+                    {w.questionNumber && <strong>Questão {w.questionNumber}: </strong>}
+                    {w.message}
+                    {w.originalValue !== undefined && w.correctedValue !== undefined && (
+                      <span className="text-amber-700"> ({String(w.originalValue ?? '—')} → {String(w.correctedValue)})</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Summary (Editable + AutoUpdate) */}
         <div className={`bg-white rounded-xl shadow-sm border transition-all duration-300 p-6 ${isUpdatingSummary ? 'border-indigo-300 ring-1 ring-indigo-100' : 'border-slate-200'}`}>
             <div className="flex items-center justify-between mb-3">
@@ -297,6 +634,11 @@ const ResultsView: React.FC<ResultsViewProps> = ({ result: initialResult, examIm
                   Resumo da Análise
                   {isUpdatingSummary && <span className="text-xs font-normal text-indigo-500 ml-2 animate-pulse">Atualizando...</span>}
                 </h3>
+                {data.promptTemplate && (
+                  <span className="text-xs text-slate-400" title="Modelo de instruções usado na correção">
+                    {data.promptTemplate.name} · v{data.promptTemplate.version}
+                  </span>
+                )}
             </div>
             <textarea
                 value={data.summary}
@@ -305,57 +647,98 @@ const ResultsView: React.FC<ResultsViewProps> = ({ result: initialResult, examIm
             />
         </div>
 
+        <SkillBreakdown data={data} answerKey={answerKey} policy={policy} />
+
         {/* Questions List */}
         <div className="space-y-4">
-          <h2 className="text-xl font-bold text-slate-800 px-1">Detalhamento das Questões</h2>
+          <div className="flex flex-wrap items-center justify-between gap-3 px-1">
+            <h2 className="text-xl font-bold text-slate-800">Detalhamento das Questões</h2>
+            {flaggedCount > 0 && (
+              <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={showOnlyFlagged}
+                  onChange={(e) => setShowOnlyFlagged(e.target.checked)}
+                  className="rounded border-slate-300 text-amber-500 focus:ring-amber-500"
+                />
+                Apenas sinalizadas ({pendingReviewCount} de {flaggedCount} pendentes)
+              </label>
+            )}
+          </div>
           
           {data.questions.map((q, idx) => {
-             if (q.type === 'context') {
-               return (
+             if (showOnlyFlagged && !isFlaggedForReview(q)) return null;
+             const card = q.type === 'context' ? (
                  <ContextCard 
-                    key={idx} 
                     question={q} 
                     index={idx} 
+                    isFocused={focusedIndex === idx}
+                    onFocus={setFocusedIndex}
                     onUpdate={handleQuestionChange} 
                  />
-               );
-             }
-             return (
+             ) : (
                <EditableQuestionCard 
-                  key={idx} 
                   question={q} 
                   index={idx} 
-                  context={context}
+                  answerKey={answerKey}
+                  correctionId={data.id}
+                  promptTemplate={promptTemplate}
+                  feedbackStyle={feedbackStyle}
+                  warnings={(data.validationWarnings || []).filter(w => w.questionNumber === q.questionNumber)}
+                  pageImage={getPageImage(q)}
+                  originalScore={getOriginalScore(data, q)}
+                  isFocused={focusedIndex === idx}
+                  onFocus={setFocusedIndex}
                   onUpdate={handleQuestionChange}
                   onBulkUpdate={handleQuestionBulkUpdate}
                   onAlternativeUpdate={handleAlternativeChange}
                />
              );
+             return (
+               <div
+                 key={q.id || idx}
+                 onDragOver={(e) => e.preventDefault()}
+                 onDrop={(e) => {
+                   e.preventDefault();
+                   handleItemDrop(idx);
+                 }}
+                 className={draggedItemIndex === idx ? 'opacity-40' : ''}
+               >
+                 <ItemToolbar
+                   question={q}
+                   canMerge={canMergeWithNext(data.questions, idx)}
+                   disabled={isStreaming}
+                   onDragStart={() => setDraggedItemIndex(idx)}
+                   onDragEnd={() => setDraggedItemIndex(null)}
+                   onInsertBelow={() => handleAddItem(idx + 1, 'question')}
+                   onSplit={() => handleSplitItem(idx)}
+                   onMerge={() => handleMergeWithNext(idx)}
+                   onConvert={() => handleConvertItem(idx)}
+                   onRemove={() => handleRemoveItem(idx)}
+                 />
+                 {card}
+               </div>
+             );
           })}
+
+          <div className="flex flex-wrap gap-3 px-1">
+            <button
+              onClick={() => handleAddItem(data.questions.length, 'question')}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              + Adicionar questão
+            </button>
+            <button
+              onClick={() => handleAddItem(data.questions.length, 'context')}
+              className="text-sm font-medium text-slate-500 hover:text-indigo-600"
+            >
+              + Adicionar texto de apoio
+            </button>
+          </div>
         </div>
+        </fieldset>
       </div>
 
-      {/* Image Modal */}
-      {isImageZoomed && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 animate-fade-in" onClick={() => setIsImageZoomed(false)}>
-           <div className="absolute top-4 right-4 flex gap-2">
-             <button 
-                onClick={() => setIsImageZoomed(false)}
-                className="text-white/70 hover:text-white bg-white/10 hover:bg-white/20 p-2 rounded-full transition-all"
-             >
-                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                </svg>
-             </button>
-           </div>
-           <img 
-              src={examImage} 
-              alt="Proval Original Zoomed" 
-              className="max-w-full max-h-[90vh] object-contain rounded-lg shadow-2xl"
-              onClick={(e) => e.stopPropagation()}
-           />
-        </div>
-      )}
     </div>
   );
 };
@@ -363,19 +746,71 @@ const ResultsView: React.FC<ResultsViewProps> = ({ result: initialResult, examIm
 interface QuestionProps {
     question: QuestionResult;
     index: number;
+    isFocused: boolean;
+    onFocus: (index: number) => void;
     onUpdate: (index: number, field: keyof QuestionResult, value: any) => void;
 }
 
 interface EditableQuestionCardProps extends QuestionProps {
-    context: string;
+    answerKey: AnswerKey;
+    correctionId?: string; // Re-evaluations are attributed to this correction in the usage log
+    promptTemplate?: PromptTemplate;
+    feedbackStyle: FeedbackStyle;
+    warnings: ValidationWarning[];
+    pageImage?: string; // Page of the scan where the question is, used to crop the answer
     onAlternativeUpdate: (qIndex: number, altIndex: number, value: string) => void;
-    onBulkUpdate: (index: number, updates: Partial<QuestionResult>) => void;
+    onBulkUpdate: (index: number, updates: Partial<QuestionResult>, source?: EditSource) => void;
+    originalScore?: number; // Score the AI gave, when the teacher changed it
 }
 
+interface ItemToolbarProps {
+    question: QuestionResult;
+    canMerge: boolean;
+    disabled: boolean;
+    onDragStart: () => void;
+    onDragEnd: () => void;
+    onInsertBelow: () => void;
+    onSplit: () => void;
+    onMerge: () => void;
+    onConvert: () => void;
+    onRemove: () => void;
+}
+
+// Structural actions of one item; the handle is the only draggable part so text in the card can still be selected
+const ItemToolbar: React.FC<ItemToolbarProps> = ({ question, canMerge, disabled, onDragStart, onDragEnd, onInsertBelow, onSplit, onMerge, onConvert, onRemove }) => {
+  const buttonClass = "font-medium text-slate-400 hover:text-indigo-600 disabled:opacity-40 disabled:hover:text-slate-400";
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 px-1 pb-1 text-xs">
+      <span
+        draggable={!disabled}
+        onDragStart={onDragStart}
+        onDragEnd={onDragEnd}
+        className={`text-slate-400 select-none ${disabled ? '' : 'cursor-grab hover:text-indigo-600'}`}
+        title="Arraste para reordenar"
+      >
+        ⠿ Mover
+      </span>
+      <button onClick={onInsertBelow} disabled={disabled} className={buttonClass}>Inserir questão abaixo</button>
+      <button onClick={onSplit} disabled={disabled} className={buttonClass}>Dividir</button>
+      <button onClick={onMerge} disabled={disabled || !canMerge} className={buttonClass} title={canMerge ? undefined : 'Só é possível juntar com o item seguinte do mesmo tipo'}>
+        Juntar com o próximo
+      </button>
+      <button onClick={onConvert} disabled={disabled} className={buttonClass}>
+        {question.type === 'context' ? 'Converter em questão' : 'Converter em texto de apoio'}
+      </button>
+      <button onClick={onRemove} disabled={disabled} className="font-medium text-slate-400 hover:text-red-600 disabled:opacity-40 ml-auto">Excluir</button>
+    </div>
+  );
+};
+
 // New Component for Context/Instruction Cards
-const ContextCard: React.FC<QuestionProps> = ({ question, index, onUpdate }) => {
+const ContextCard: React.FC<QuestionProps> = ({ question, index, isFocused, onFocus, onUpdate }) => {
   return (
-    <div className="bg-slate-50 rounded-xl shadow-sm border border-slate-200 p-6 mb-6">
+    <div
+      onClick={() => onFocus(index)}
+      onFocusCapture={() => onFocus(index)}
+      className={`bg-slate-50 rounded-xl shadow-sm border p-6 mb-6 ${isFocused ? 'border-indigo-300 ring-2 ring-indigo-200' : 'border-slate-200'}`}
+    >
       <div className="flex items-center gap-3 mb-4">
         {question.questionNumber && (
           <span className="bg-slate-200 text-slate-600 text-xs font-bold px-2 py-1 rounded uppercase tracking-wider">
@@ -385,6 +820,11 @@ const ContextCard: React.FC<QuestionProps> = ({ question, index, onUpdate }) =>
         <h4 className="text-sm font-bold text-slate-500 uppercase tracking-wide">
           Texto de Apoio / Contexto
         </h4>
+        {question.page !== undefined && (
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider ml-auto">
+            Pág. {question.page}
+          </span>
+        )}
       </div>
       <textarea
           value={question.questionText}
@@ -397,7 +837,7 @@ const ContextCard: React.FC<QuestionProps> = ({ question, index, onUpdate }) =>
   );
 };
 
-const EditableQuestionCard: React.FC<EditableQuestionCardProps> = ({ question, index, context, onUpdate, onBulkUpdate, onAlternativeUpdate }) => {
+const EditableQuestionCard: React.FC<EditableQuestionCardProps> = ({ question, index, answerKey, correctionId, promptTemplate, feedbackStyle, warnings, pageImage, originalScore, isFocused, onFocus, onUpdate, onBulkUpdate, onAlternativeUpdate }) => {
   const statusColor = question.isCorrect 
     ? "border-l-green-500 bg-green-50/30" 
     : (question.score || 0) > 0 
@@ -405,15 +845,22 @@ const EditableQuestionCard: React.FC<EditableQuestionCardProps> = ({ question, i
       : "border-l-red-500 bg-red-50/30";
 
   const [isReevaluating, setIsReevaluating] = useState(false);
+  const lowConfidenceFields = getLowConfidenceFields(question);
+  const needsReview = isFlaggedForReview(question) && !question.reviewed;
+  const mathConflict = hasMathConflict(question);
+  // The check is only shown for the transcription it was made on
+  const mathCheck = question.mathCheck && question.mathCheck.studentAnswer === question.studentAnswer?.trim() ? question.mathCheck : undefined;
 
   const handleReevaluate = async () => {
     setIsReevaluating(true);
     try {
         // Pass the CURRENT state of the question (with any user edits) to the AI
-        const updates = await reevaluateQuestion(question, context);
+        const updates = question.rubricScores
+          ? await gradeWithRubric(question, criteriaFromScores(question.rubricScores), answerKey, undefined, { correctionId }, feedbackStyle)
+          : await reevaluateQuestion(question, answerKey, { correctionId }, promptTemplate, feedbackStyle);
         
         // Update parent state with new analysis
-        onBulkUpdate(index, updates);
+        onBulkUpdate(index, updates, 'ai');
         
     } catch (err) {
         console.error("Failed to re-evaluate question", err);
@@ -423,14 +870,97 @@ const EditableQuestionCard: React.FC<EditableQuestionCardProps> = ({ question, i
     }
   };
 
+  // Adopting one consensus run replaces the merged judgement and counts as the teacher's review
+  const handleAdoptOpinion = (opinion: GradingOpinion) => {
+    onBulkUpdate(index, {
+      isCorrect: opinion.isCorrect,
+      score: opinion.score,
+      feedback: opinion.feedback,
+      ...(opinion.rubricScores ? { rubricScores: opinion.rubricScores } : {}),
+      reviewed: true,
+    });
+  };
+
+  // Changing a criterion level recomputes the question score from the rubric
+  const handleRubricChange = (criterionIndex: number, updates: Partial<RubricCriterionScore>) => {
+    if (!question.rubricScores) return;
+    const rubricScores = question.rubricScores.map((s, i) => i === criterionIndex ? { ...s, ...updates } : s);
+    const score = sumRubricScores(rubricScores);
+    onBulkUpdate(index, { rubricScores, score, isCorrect: score >= (question.maxScore || 0) });
+  };
+
   return (
-    <div className={`bg-white rounded-xl shadow-sm border border-slate-200 border-l-4 p-6 transition-all hover:shadow-md ${statusColor}`}>
+    <div
+      onClick={() => onFocus(index)}
+      onFocusCapture={() => onFocus(index)}
+      className={`bg-white rounded-xl shadow-sm border border-slate-200 border-l-4 p-6 transition-all hover:shadow-md ${statusColor} ${isFocused ? 'ring-2 ring-indigo-200' : needsReview ? 'ring-2 ring-amber-300' : ''}`}
+    >
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-5 gap-4">
         <div className="flex flex-wrap items-center gap-3 sm:gap-4 w-full sm:w-auto">
            {/* Question Number Box */}
            <div className="h-12 min-w-[3rem] w-auto px-3 rounded-xl bg-slate-900 text-white flex items-center justify-center font-bold text-xl shadow-md whitespace-nowrap shrink-0">
              {question.questionNumber}
            </div>
+
+           {question.page !== undefined && (
+             <span className="text-[10px] font-bold text-slate-500 bg-slate-100 border border-slate-200 px-2 py-1 rounded uppercase tracking-wider shrink-0">
+               Pág. {question.page}
+             </span>
+           )}
+
+           {question.weight !== undefined && question.weight !== 1 && (
+             <span className="text-[10px] font-bold text-indigo-600 bg-indigo-50 border border-indigo-100 px-2 py-1 rounded uppercase tracking-wider shrink-0" title="Peso definido no gabarito">
+               Peso {question.weight}
+             </span>
+           )}
+
+           {originalScore !== undefined && (
+             <span className="text-[10px] font-bold text-slate-600 bg-slate-100 border border-slate-200 px-2 py-1 rounded uppercase tracking-wider shrink-0" title="Nota alterada depois da correção da IA">
+               Nota ajustada · IA: {formatNumber(originalScore)}
+             </span>
+           )}
+
+           {warnings.length > 0 && (
+             <span className="text-[10px] font-bold text-amber-700 bg-amber-50 border border-amber-200 px-2 py-1 rounded uppercase tracking-wider shrink-0" title={warnings.map(w => w.message).join('\n')}>
+               {warnings.some(w => w.kind === 'corrected') ? 'Ajustada automaticamente' : 'Verificar'}
+             </span>
+           )}
+
+           {question.disagreement && (
+             <button
+               onClick={() => onUpdate(index, 'reviewed', !question.reviewed)}
+               className={`text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider border shrink-0 transition-colors ${question.reviewed ? 'text-green-700 bg-green-50 border-green-200 hover:bg-green-100' : 'text-red-700 bg-red-50 border-red-200 hover:bg-red-100'}`}
+               title="As correções do modo consenso divergiram nesta questão"
+             >
+               {question.reviewed ? 'Divergência revisada ✓' : 'Correções divergentes · Marcar revisada'}
+             </button>
+           )}
+
+           {mathConflict && (
+             <button
+               onClick={() => onUpdate(index, 'reviewed', !question.reviewed)}
+               className={`text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider border shrink-0 transition-colors ${question.reviewed ? 'text-green-700 bg-green-50 border-green-200 hover:bg-green-100' : 'text-red-700 bg-red-50 border-red-200 hover:bg-red-100'}`}
+               title={question.mathCheck?.explanation}
+             >
+               {question.reviewed ? 'Conflito revisado ✓' : 'Conflito com a verificação matemática · Marcar revisada'}
+             </button>
+           )}
+
+           {question.opinions && question.opinions.length > 1 && !question.disagreement && (
+             <span className="text-[10px] font-bold text-green-700 bg-green-50 border border-green-200 px-2 py-1 rounded uppercase tracking-wider shrink-0">
+               Consenso ({question.opinions.length} correções)
+             </span>
+           )}
+
+           {lowConfidenceFields.length > 0 && (
+             <button
+               onClick={() => onUpdate(index, 'reviewed', !question.reviewed)}
+               className={`text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider border shrink-0 transition-colors ${question.reviewed ? 'text-green-700 bg-green-50 border-green-200 hover:bg-green-100' : 'text-amber-800 bg-amber-100 border-amber-300 hover:bg-amber-200'}`}
+               title={`Baixa confiança da IA em: ${lowConfidenceFields.map(f => `${CONFIDENCE_FIELD_LABELS[f]} (${Math.round(question.confidence![f] * 100)}%)`).join(', ')}`}
+             >
+               {question.reviewed ? 'Revisada ✓' : `Baixa confiança (${lowConfidenceFields.map(f => CONFIDENCE_FIELD_LABELS[f]).join(', ')}) · Marcar revisada`}
+             </button>
+           )}
            
            <div className="flex items-center gap-2 flex-1 sm:flex-initial">
              <select 
@@ -472,6 +1002,8 @@ const EditableQuestionCard: React.FC<EditableQuestionCardProps> = ({ question, i
                     step="0.1"
                     value={question.score || 0} 
                     onChange={(e) => onUpdate(index, 'score', e.target.value)}
+                    readOnly={!!question.rubricScores}
+                    title={question.rubricScores ? "Calculada pela rubrica" : undefined}
                     className="font-mono font-bold text-lg text-slate-700 w-16 text-right py-2 pl-2 bg-white outline-none appearance-none"
                     placeholder="0"
                 />
@@ -528,6 +1060,26 @@ const EditableQuestionCard: React.FC<EditableQuestionCardProps> = ({ question, i
         </div>
       </div>
 
+      {/* BNCC skills: suggested by the model until the teacher confirms or edits them */}
+      <div className="mb-4">
+        <div className="flex items-center gap-2 mb-1">
+          <p className="text-xs font-bold text-slate-500 uppercase">Habilidades BNCC</p>
+          {question.skills && question.skills.length > 0 && !question.skillsConfirmed && (
+            <button
+              onClick={() => onUpdate(index, 'skillsConfirmed', true)}
+              className="text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider border text-amber-800 bg-amber-50 border-amber-200 hover:bg-amber-100"
+              title="Habilidades sugeridas pela IA"
+            >
+              Sugeridas pela IA · Confirmar
+            </button>
+          )}
+        </div>
+        <SkillCodesInput
+          codes={getQuestionSkills(question, answerKey)}
+          onChange={(skills) => onBulkUpdate(index, { skills, skillsConfirmed: true })}
+        />
+      </div>
+
       {/* Student Answer (Editable) */}
       <div className="mb-4">
         <p className="text-xs font-bold text-slate-500 uppercase mb-1 flex items-center gap-1">
@@ -540,10 +1092,101 @@ const EditableQuestionCard: React.FC<EditableQuestionCardProps> = ({ question, i
             value={question.studentAnswer || ''}
             onChange={(e) => onUpdate(index, 'studentAnswer', e.target.value)}
             className="w-full bg-white border border-slate-200 rounded-lg p-3 text-slate-800 font-medium italic shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none resize-y"
-            placeholder="Resposta identificada..."
+            placeholder="Em branco"
         />
+        {/* Crop of the scan so the transcription can be checked against the paper */}
+        {isFocused && pageImage && question.answerBox && (
+          <div className="mt-2">
+            <p className="text-[10px] font-bold text-amber-600 uppercase tracking-wider mb-1">Resposta na prova</p>
+            <ImageRegionCrop src={pageImage} box={question.answerBox} alt={`Resposta da questão ${question.questionNumber}`} />
+          </div>
+        )}
+        {mathCheck && (
+          <div className={`mt-2 text-xs rounded-lg border px-3 py-2 ${mathCheck.verdict === 'equivalent' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'}`}>
+            <span className="font-bold uppercase tracking-wider text-[10px] mr-1">Verificação matemática</span>
+            {mathCheck.explanation}
+            {mathCheck.overridden && (
+              <span className="block mt-1 font-medium">
+                Veredito da IA substituído ({mathCheck.aiIsCorrect ? 'correta' : 'incorreta'} → {mathCheck.verdict === 'equivalent' ? 'correta' : 'incorreta'}).
+              </span>
+            )}
+            {mathConflict && (
+              <span className="block mt-1 font-medium">A correção atual discorda desta verificação; confira antes de finalizar.</span>
+            )}
+          </div>
+        )}
       </div>
 
+      {/* Rubric Breakdown (Editable) */}
+      {question.rubricScores && question.rubricScores.length > 0 && (
+        <div className="mb-4">
+          <p className="text-xs font-bold text-slate-500 uppercase mb-1">Rubrica</p>
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {question.rubricScores.map((criterion, i) => (
+              <div key={criterion.criterionId} className="p-3 space-y-2">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <span className="text-sm font-semibold text-slate-700">{criterion.name}</span>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={criterion.levelIndex}
+                      onChange={(e) => handleRubricChange(i, { levelIndex: parseInt(e.target.value, 10) })}
+                      className="text-xs bg-white border border-slate-300 rounded-lg px-2 py-1 outline-none focus:border-indigo-500 cursor-pointer"
+                    >
+                      {criterion.levels.map((level, levelIdx) => (
+                        <option key={levelIdx} value={levelIdx}>{level.label} ({level.points} pts)</option>
+                      ))}
+                    </select>
+                    <span className="font-mono text-xs font-bold text-slate-600 whitespace-nowrap">
+                      {getCriterionPoints(criterion)} / {getCriterionMaxPoints(criterion)}
+                    </span>
+                  </div>
+                </div>
+                <textarea
+                  value={criterion.justification}
+                  onChange={(e) => handleRubricChange(i, { justification: e.target.value })}
+                  rows={2}
+                  className="w-full text-xs text-slate-600 leading-relaxed bg-slate-50 border border-slate-100 rounded p-2 focus:border-indigo-500 outline-none resize-y"
+                  placeholder="Justificativa..."
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Consensus runs side by side when they disagreed */}
+      {question.disagreement && question.opinions && (
+        <div className="mb-4">
+          <p className="text-xs font-bold text-red-600 uppercase mb-1">Opiniões das correções</p>
+          <div className={`grid grid-cols-1 gap-3 ${question.opinions.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+            {question.opinions.map(opinion => (
+              <div key={opinion.run} className="border border-slate-200 rounded-lg p-3 bg-white flex flex-col gap-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-bold text-slate-700">Correção {opinion.run}</span>
+                  <span className="text-[10px] text-slate-400 truncate" title={opinion.model}>{opinion.model}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className={`font-bold ${opinion.isCorrect ? 'text-green-700' : 'text-red-600'}`}>
+                    {opinion.isCorrect ? 'Correta' : 'Incorreta'}
+                  </span>
+                  <span className="font-mono font-bold text-slate-700">{opinion.score} / {question.maxScore || 0}</span>
+                </div>
+                {opinion.studentAnswer !== (question.studentAnswer || '') && (
+                  <p className="text-xs text-slate-500 italic">Leu: "{opinion.studentAnswer}"</p>
+                )}
+                <p className="text-xs text-slate-600 leading-relaxed flex-1">{opinion.feedback}</p>
+                <button
+                  onClick={() => handleAdoptOpinion(opinion)}
+                  className="text-xs font-medium text-indigo-600 hover:text-indigo-700 hover:underline self-start"
+                >
+                  Usar esta correção
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Feedback (Editable) */}
       <div>
         <p className="text-xs font-bold text-slate-500 uppercase mb-1">Feedback da IA</p>
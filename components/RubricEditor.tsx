@@ -0,0 +1,106 @@
+import React from 'react';
+import { RubricCriterion, RubricLevel } from '../types';
+import { createRubricCriterion, getRubricMaxScore } from '../services/rubricService';
+
+interface RubricEditorProps {
+  criteria: RubricCriterion[];
+  onChange: (criteria: RubricCriterion[]) => void;
+}
+
+export const RubricEditor: React.FC<RubricEditorProps> = ({ criteria, onChange }) => {
+
+  const updateCriterion = (criterionId: string, updates: Partial<RubricCriterion>) => {
+    onChange(criteria.map(c => c.id === criterionId ? { ...c, ...updates } : c));
+  };
+
+  const updateLevel = (criterion: RubricCriterion, levelIndex: number, updates: Partial<RubricLevel>) => {
+    const levels = criterion.levels.map((level, i) => i === levelIndex ? { ...level, ...updates } : level);
+    updateCriterion(criterion.id, { levels });
+  };
+
+  const handleAddLevel = (criterion: RubricCriterion) => {
+    updateCriterion(criterion.id, { levels: [...criterion.levels, { label: "", points: 0 }] });
+  };
+
+  const handleRemoveLevel = (criterion: RubricCriterion, levelIndex: number) => {
+    if (criterion.levels.length <= 1) return;
+    updateCriterion(criterion.id, { levels: criterion.levels.filter((_, i) => i !== levelIndex) });
+  };
+
+  return (
+    <div className="space-y-2">
+      {criteria.map(criterion => (
+        <div key={criterion.id} className="bg-white border border-slate-200 rounded p-2 space-y-1.5">
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={criterion.name}
+              onChange={(e) => updateCriterion(criterion.id, { name: e.target.value })}
+              className="flex-1 min-w-0 text-xs font-bold border-b border-slate-200 focus:border-indigo-500 outline-none py-1"
+              placeholder="Critério (ex: Argumentação)"
+            />
+            <button
+              onClick={() => onChange(criteria.filter(c => c.id !== criterion.id))}
+              className="text-slate-400 hover:text-red-600 p-0.5 rounded transition-colors"
+              title="Remover critério"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {criterion.levels.map((level, i) => (
+            <div key={i} className="flex items-center gap-1 pl-2">
+              <input
+                type="text"
+                value={level.label}
+                onChange={(e) => updateLevel(criterion, i, { label: e.target.value })}
+                className="flex-1 min-w-0 text-xs border border-slate-200 rounded p-1 outline-none focus:border-indigo-500"
+                placeholder="Nível"
+              />
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                value={level.points}
+                onChange={(e) => updateLevel(criterion, i, { points: parseFloat(e.target.value) || 0 })}
+                className="w-14 text-xs font-mono border border-slate-200 rounded p-1 outline-none focus:border-indigo-500"
+                title="Pontos do nível"
+              />
+              <button
+                onClick={() => handleRemoveLevel(criterion, i)}
+                disabled={criterion.levels.length <= 1}
+                className="text-slate-300 hover:text-red-500 disabled:opacity-30 p-0.5"
+                title="Remover nível"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 12h-15" />
+                </svg>
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => handleAddLevel(criterion)}
+            className="text-[11px] text-indigo-600 hover:text-indigo-800 pl-2"
+          >
+            + Nível
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => onChange([...criteria, createRubricCriterion()])}
+          className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+        >
+          + Critério
+        </button>
+        {criteria.length > 0 && (
+          <span className="text-[11px] text-slate-500">Máximo: <strong>{getRubricMaxScore(criteria)}</strong> pts</span>
+        )}
+      </div>
+    </div>
+  );
+};
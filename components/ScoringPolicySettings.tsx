@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { ConceptBand, GradeRounding, GradeScale, ScoringPolicy } from '../types';
+import { GRADE_ROUNDING_LABELS, GRADE_SCALE_LABELS, SCORING_PRESETS, saveSchoolScoringPolicy } from '../services/scoringPolicyService';
+
+interface ScoringPolicySettingsProps {
+  policy: ScoringPolicy;
+  isCustom: boolean; // The exam has its own policy instead of the school default
+  onChange: (policy: ScoringPolicy | undefined) => void; // undefined goes back to the school default
+  disabled?: boolean;
+}
+
+const PENALTY_OPTIONS = [0, 0.2, 0.25, 1 / 3, 0.5, 1];
+
+const formatPenalty = (penalty: number) =>
+  penalty === 0 ? 'Sem penalidade' : penalty === 1 / 3 ? '1/3 do valor' : `${Math.round(penalty * 100)}% do valor`;
+
+// Collapsible panel with the grade scale, rounding and pass rules applied to the exam
+export const ScoringPolicySettings: React.FC<ScoringPolicySettingsProps> = ({ policy, isCustom, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [savedAsDefault, setSavedAsDefault] = useState(false);
+
+  const update = (updates: Partial<ScoringPolicy>) => {
+    setSavedAsDefault(false);
+    onChange({ ...policy, ...updates });
+  };
+
+  const handlePresetChange = (index: number) => {
+    const preset = SCORING_PRESETS[index];
+    if (preset) update(preset.policy);
+  };
+
+  const handleBandChange = (concept: string, minPercent: number) => {
+    const conceptBands: ConceptBand[] = policy.conceptBands.map(band =>
+      band.concept === concept ? { ...band, minPercent: Math.min(100, Math.max(0, minPercent)) } : band
+    );
+    update({ conceptBands });
+  };
+
+  const handleSaveAsDefault = () => {
+    saveSchoolScoringPolicy(policy);
+    setSavedAsDefault(true);
+  };
+
+  return (
+    <div className="mt-4 border border-slate-200 rounded-xl text-left">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-slate-700"
+      >
+        <span className="flex items-center gap-2">
+          Nota e aprovação
+          <span className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${isCustom ? 'bg-indigo-50 text-indigo-700' : 'bg-slate-100 text-slate-500'}`}>
+            {GRADE_SCALE_LABELS[policy.scale]}
+          </span>
+        </span>
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 border-t border-slate-100 pt-3">
+          <label className="block text-sm text-slate-600">
+            Modelo pronto
+            <select
+              value=""
+              disabled={disabled}
+              onChange={(e) => handlePresetChange(Number(e.target.value))}
+              className="mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+            >
+              <option value="" disabled>Escolher...</option>
+              {SCORING_PRESETS.map((preset, i) => (
+                <option key={preset.label} value={i}>{preset.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-slate-600">
+              Escala
+              <select
+                value={policy.scale}
+                disabled={disabled}
+                onChange={(e) => update({ scale: e.target.value as GradeScale })}
+                className="mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+              >
+                {(Object.keys(GRADE_SCALE_LABELS) as GradeScale[]).map(scale => (
+                  <option key={scale} value={scale}>{GRADE_SCALE_LABELS[scale]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-slate-600">
+              Arredondamento
+              <select
+                value={policy.rounding}
+                disabled={disabled || policy.scale === 'concept'}
+                onChange={(e) => update({ rounding: e.target.value as GradeRounding })}
+                className="mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+              >
+                {(Object.keys(GRADE_ROUNDING_LABELS) as GradeRounding[]).map(rounding => (
+                  <option key={rounding} value={rounding}>{GRADE_ROUNDING_LABELS[rounding]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-slate-600">
+              Mínimo para aprovação
+              <div className="mt-1 flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={policy.passingPercent}
+                  disabled={disabled}
+                  onChange={(e) => update({ passingPercent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                  className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1 outline-none focus:border-indigo-500"
+                />
+                <span className="text-slate-400">%</span>
+              </div>
+            </label>
+            <label className="text-sm text-slate-600">
+              Erro na múltipla escolha
+              <select
+                value={policy.wrongAnswerPenalty}
+                disabled={disabled}
+                onChange={(e) => update({ wrongAnswerPenalty: Number(e.target.value) })}
+                className="mt-1 w-full text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white outline-none focus:border-indigo-500"
+              >
+                {PENALTY_OPTIONS.map(penalty => (
+                  <option key={penalty} value={penalty}>{formatPenalty(penalty)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {policy.scale === 'concept' && (
+            <div className="space-y-1">
+              <p className="text-xs text-slate-500">Percentual mínimo de cada conceito</p>
+              <div className="grid grid-cols-5 gap-2">
+                {policy.conceptBands.map(band => (
+                  <label key={band.concept} className="text-xs font-bold text-slate-600 text-center">
+                    {band.concept}
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={band.minPercent}
+                      disabled={disabled}
+                      onChange={(e) => handleBandChange(band.concept, Number(e.target.value) || 0)}
+                      className="mt-1 w-full text-sm font-normal border border-slate-300 rounded-lg px-1 py-1 text-center outline-none focus:border-indigo-500"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-slate-500">
+            A penalidade desconta uma fração do valor de cada questão objetiva errada; questões em branco não são penalizadas.
+          </p>
+
+          <div className="flex items-center justify-between gap-2 pt-1">
+            <button
+              onClick={handleSaveAsDefault}
+              disabled={disabled}
+              className="text-xs font-bold text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded-lg transition-colors"
+            >
+              {savedAsDefault ? 'Salvo como padrão' : 'Salvar como padrão da escola'}
+            </button>
+            {isCustom && (
+              <button
+                onClick={() => { setSavedAsDefault(false); onChange(undefined); }}
+                disabled={disabled}
+                className="text-xs font-medium text-slate-500 hover:text-slate-700 px-2 py-1"
+              >
+                Usar padrão da escola
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
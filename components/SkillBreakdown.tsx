@@ -0,0 +1,73 @@
+import React from 'react';
+import { AnswerKey, CorrectionResult, ScoringPolicy } from '../types';
+import { summarizeSkills } from '../services/skillService';
+import { formatNumber, getPerformanceBand, PerformanceBand } from '../services/scoringPolicyService';
+
+interface SkillBreakdownProps {
+  data: CorrectionResult;
+  answerKey: AnswerKey;
+  policy: ScoringPolicy; // Its pass mark sets the bar colors
+}
+
+const BAND_COLORS: Record<PerformanceBand, string> = {
+  passing: 'bg-green-500',
+  near: 'bg-yellow-500',
+  failing: 'bg-red-500',
+};
+
+// Points earned vs. possible for each BNCC skill of the exam
+export const SkillBreakdown: React.FC<SkillBreakdownProps> = ({ data, answerKey, policy }) => {
+  const { skills, untaggedCount } = summarizeSkills(data, answerKey);
+  if (skills.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-bold text-slate-800">Desempenho por Habilidade (BNCC)</h3>
+        {skills.some(s => s.pendingConfirmation) && (
+          <span className="text-xs text-amber-700">Inclui habilidades sugeridas pela IA, ainda não confirmadas</span>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse text-sm">
+          <thead>
+            <tr className="border-b border-slate-200">
+              <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">Habilidade</th>
+              <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase">Questões</th>
+              <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase text-right">Pontos</th>
+              <th className="py-2 px-2 text-xs font-bold text-slate-500 uppercase w-1/3">Aproveitamento</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {skills.map(skill => (
+              <tr key={skill.code}>
+                <td className="py-2 px-2 font-mono font-bold text-slate-700">
+                  {skill.code}
+                  {skill.pendingConfirmation && <span className="text-amber-600" title="Sugerida pela IA"> *</span>}
+                </td>
+                <td className="py-2 px-2 text-slate-600">{skill.questionNumbers.join(', ')}</td>
+                <td className="py-2 px-2 text-right font-mono text-slate-700 whitespace-nowrap">
+                  {formatNumber(skill.earned)} / {formatNumber(skill.possible)}
+                </td>
+                <td className="py-2 px-2">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${BAND_COLORS[getPerformanceBand(skill.percent, policy)]}`}
+                        style={{ width: `${skill.percent}%` }}
+                      />
+                    </div>
+                    <span className="text-xs font-bold text-slate-600 w-10 text-right">{skill.percent}%</span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {untaggedCount > 0 && (
+        <p className="text-xs text-slate-500 mt-2">{untaggedCount} questão(ões) sem habilidade associada.</p>
+      )}
+    </div>
+  );
+};
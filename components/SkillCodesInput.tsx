@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { formatSkillCodes, parseSkillCodes } from '../services/skillService';
+
+interface SkillCodesInputProps {
+  codes: string[];
+  onChange: (codes: string[]) => void;
+  className?: string;
+}
+
+// Free-text field for BNCC codes; the list is only parsed when the teacher leaves the field, so partial codes can be typed
+export const SkillCodesInput: React.FC<SkillCodesInputProps> = ({ codes, onChange, className = '' }) => {
+  const [text, setText] = useState(formatSkillCodes(codes));
+  const [invalid, setInvalid] = useState<string[]>([]);
+
+  useEffect(() => {
+    setText(formatSkillCodes(codes));
+  }, [codes.join(',')]);
+
+  const commit = () => {
+    const parsed = parseSkillCodes(text);
+    setInvalid(parsed.invalid);
+    setText(formatSkillCodes(parsed.codes));
+    onChange(parsed.codes);
+  };
+
+  return (
+    <div className={className}>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+        className="w-full text-xs font-mono border border-slate-200 rounded p-1.5 outline-none focus:border-indigo-500"
+        placeholder="Habilidades BNCC (ex: EF06MA03, EF06MA04)"
+      />
+      {invalid.length > 0 && (
+        <p className="text-[11px] text-red-600 mt-1">Códigos inválidos ignorados: {invalid.join(', ')}</p>
+      )}
+    </div>
+  );
+};
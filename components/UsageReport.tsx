@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { AIUsageRecord, User } from '../types';
+import { getUsageRecords } from '../services/authService';
+import { computePackageMargins, getCostPerCredit, getUsageCostBrl, summarizeCorrectionCosts, USD_TO_BRL } from '../services/usageService';
+import { PACKAGES } from './PaymentModal';
+
+interface UsageReportProps {
+  users: User[];
+}
+
+// How many of the latest corrections are listed in the table
+const RECENT_LIMIT = 20;
+
+const formatBrl = (value: number, digits = 2) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+const formatTokens = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 0 });
+
+// Admin view comparing the real token cost of the corrections with the price of the credit packages
+export const UsageReport: React.FC<UsageReportProps> = ({ users }) => {
+  const [records, setRecords] = useState<AIUsageRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadRecords = async () => {
+    setLoading(true);
+    try {
+      setRecords(await getUsageRecords());
+    } catch (error) {
+      console.error("Error loading AI usage", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRecords();
+  }, []);
+
+  const corrections = summarizeCorrectionCosts(records);
+  const count = corrections.length;
+  const average = (pick: (c: typeof corrections[0]) => number) =>
+    count > 0 ? corrections.reduce((sum, c) => sum + pick(c), 0) / count : 0;
+
+  const averageCost = average(c => c.costBrl);
+  const creditsCharged = corrections.reduce((sum, c) => sum + c.credits, 0);
+  const margins = computePackageMargins(PACKAGES, getCostPerCredit(corrections));
+  const looseCost = records.filter(r => !r.correctionId).reduce((sum, r) => sum + getUsageCostBrl(r), 0);
+  const userNames = new Map(users.map(u => [u.id, u.name]));
+
+  const stats = [
+    { label: 'Correções registradas', value: count.toString() },
+    { label: 'Custo médio por correção', value: formatBrl(averageCost, 4) },
+    { label: 'Créditos cobrados', value: creditsCharged.toString() },
+    { label: 'Tokens médios (entrada / saída)', value: `${formatTokens(average(c => c.inputTokens))} / ${formatTokens(average(c => c.outputTokens))}` },
+    { label: 'Tempo médio de resposta', value: `${(average(c => c.latencyMs) / 1000).toFixed(1)} s` },
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-6 mt-8">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Custos de IA</h2>
+          <p className="text-sm text-slate-500">
+            Calculado a partir dos tokens de cada chamada (US$ 1 = {formatBrl(USD_TO_BRL)}).
+          </p>
+        </div>
+        <button onClick={loadRecords} className="text-indigo-600 hover:text-indigo-800 text-sm font-medium">
+          Atualizar Custos
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Carregando...</p>
+      ) : (
+        <div className="space-y-8">
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            {stats.map(stat => (
+              <div key={stat.label} className="rounded-xl border border-slate-200 p-4">
+                <div className="text-xs font-bold text-slate-500 uppercase">{stat.label}</div>
+                <div className="text-xl font-bold text-slate-800 mt-1">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-bold text-slate-500 uppercase mb-2">Margem por pacote</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left border-collapse">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase">Pacote</th>
+                    <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase text-right">Preço / crédito</th>
+                    <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase text-right">Custo / crédito</th>
+                    <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase text-right">Margem / crédito</th>
+                    <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase text-right">Margem</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {margins.map(m => (
+                    <tr key={m.label} className="hover:bg-slate-50 transition-colors">
+                      <td className="py-3 px-4">
+                        <div className="font-medium text-slate-900">{m.label}</div>
+                        <div className="text-xs text-slate-500">{m.credits} créditos por {formatBrl(m.price)}</div>
+                      </td>
+                      <td className="py-3 px-4 text-right font-mono text-sm text-slate-700">{formatBrl(m.pricePerCredit, 4)}</td>
+                      <td className="py-3 px-4 text-right font-mono text-sm text-slate-700">{formatBrl(m.costPerCredit, 4)}</td>
+                      <td className={`py-3 px-4 text-right font-mono text-sm font-bold ${m.marginPerCredit >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                        {formatBrl(m.marginPerCredit, 4)}
+                      </td>
+                      <td className={`py-3 px-4 text-right text-sm font-bold ${m.marginPercent >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                        {creditsCharged > 0 ? `${m.marginPercent.toFixed(0)}%` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+              O custo por crédito divide o custo das correções cobradas pelos créditos debitados; análises canceladas, com falha ou de administradores não entram.
+            </p>
+            {looseCost > 0 && (
+              <p className="text-xs text-slate-500 mt-2">
+                Chamadas fora de uma correção (ex.: resumos de cartões-resposta) somam {formatBrl(looseCost, 4)} e não entram na média nem no custo por crédito.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-bold text-slate-500 uppercase mb-2">Últimas correções</h3>
+            {count === 0 ? (
+              <p className="text-sm text-slate-500">Nenhuma correção registrada ainda.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left border-collapse">
+                  <thead>
+                    <tr className="border-b border-slate-200">
+                      <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase">Data</th>
+                      <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase">Usuário</th>
+                      <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase">Modelo</th>
+                      <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase text-right">Chamadas</th>
+                      <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase text-right">Tokens (entrada / saída)</th>
+                      <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase text-right">Imagens</th>
+                      <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase text-right">Tempo</th>
+                      <th className="py-3 px-4 text-xs font-bold text-slate-500 uppercase text-right">Custo</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {corrections.slice(0, RECENT_LIMIT).map(c => (
+                      <tr key={c.correctionId} className="hover:bg-slate-50 transition-colors text-sm">
+                        <td className="py-3 px-4 text-slate-700">{new Date(c.createdAt).toLocaleString('pt-BR')}</td>
+                        <td className="py-3 px-4 text-slate-700">{(c.userId && userNames.get(c.userId)) || '—'}</td>
+                        <td className="py-3 px-4 text-slate-500">{c.model}</td>
+                        <td className="py-3 px-4 text-right text-slate-700">{c.calls}</td>
+                        <td className="py-3 px-4 text-right font-mono text-slate-700">{formatTokens(c.inputTokens)} / {formatTokens(c.outputTokens)}</td>
+                        <td className="py-3 px-4 text-right text-slate-700">{(c.imageBytes / 1024).toFixed(0)} KB</td>
+                        <td className="py-3 px-4 text-right text-slate-700">{(c.latencyMs / 1000).toFixed(1)} s</td>
+                        <td className="py-3 px-4 text-right font-mono font-bold text-slate-800">{formatBrl(c.costBrl, 4)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createStubProvider, withRecording } from "./providers/stubProvider";
+
+export type AIProviderName = 'gemini' | 'openai' | 'stub';
+
+// Identifies which service call produced a request; used by the stub to pick fixtures
+export type AIOperation = 'analyzeExam' | 'analyzeEssay' | 'reevaluateQuestion' | 'gradeWithRubric' | 'regenerateSummary' | 'extractAnswerKey' | 'generateRecoveryWorksheet';
+
+export interface PageImage {
+  mimeType: string;
+  data: string; // Base64 without the Data-URI prefix
+}
+
+export interface AnalyzeRequest {
+  operation: AIOperation;
+  prompt: string;
+  pages: PageImage[];
+  schema: object; // Gemini-style response schema (see types.ts)
+  temperature: number;
+  model?: string; // Overrides the configured model (consensus runs with a second model of the same provider)
+  signal?: AbortSignal;
+  onText?: (textSoFar: string) => void; // When present the provider streams, reporting the accumulated text
+}
+
+export interface TextRequest {
+  operation: AIOperation;
+  prompt: string;
+  schema?: object; // When present the provider must answer with JSON
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIResponse {
+  text: string;
+  usage?: TokenUsage; // Token counts reported by the API, when it reports them
+  model?: string; // Model that answered, when it differs from the provider's default
+}
+
+// Every provider returns the raw model text; parsing and validation stay in geminiService
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly model: string;
+  analyze(request: AnalyzeRequest): Promise<AIResponse>; // Multimodal (exam pages) -> JSON
+  reevaluate(request: TextRequest): Promise<AIResponse>; // Text -> JSON
+  summarize(request: TextRequest): Promise<AIResponse>; // Text -> free text
+}
+
+export interface AIConfig {
+  provider: AIProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  recordFixtures: boolean; // Store real responses so the stub can replay them later
+}
+
+const DEFAULT_MODELS: Record<AIProviderName, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  stub: 'stub-fixtures',
+};
+
+// Reads the build-time configuration injected by vite.config.ts
+export const getAIConfig = (): AIConfig => {
+  const provider = (process.env.AI_PROVIDER || 'gemini') as AIProviderName;
+  if (!(provider in DEFAULT_MODELS)) {
+    throw new Error(`Unknown AI provider "${provider}". Use gemini, openai or stub.`);
+  }
+
+  return {
+    provider,
+    model: process.env.AI_MODEL || DEFAULT_MODELS[provider],
+    apiKey: provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.API_KEY,
+    baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    recordFixtures: process.env.AI_RECORD_FIXTURES === 'true',
+  };
+};
+
+// Cancellation is reported with the standard AbortError so fetch/SDK aborts and our own checks look the same
+export const createAbortError = () => new DOMException("The analysis was cancelled.", "AbortError");
+
+export const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+// Label placed before each page image so the model keeps the reading order
+export const pageLabel = (index: number, total: number) => `Página ${index + 1} de ${total}:`;
+
+let cachedProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (cachedProvider) return cachedProvider;
+
+  const config = getAIConfig();
+  let provider: AIProvider;
+  switch (config.provider) {
+    case 'openai':
+      provider = createOpenAICompatibleProvider(config);
+      break;
+    case 'stub':
+      provider = createStubProvider(config);
+      break;
+    default:
+      provider = createGeminiProvider(config);
+  }
+
+  cachedProvider = config.recordFixtures && config.provider !== 'stub' ? withRecording(provider) : provider;
+  return cachedProvider;
+};
+
+// Allows switching provider at runtime (e.g. in tests)
+export const setAIProvider = (provider: AIProvider | null) => {
+  cachedProvider = provider;
+};
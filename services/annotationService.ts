@@ -0,0 +1,205 @@
+import { AnnotationKind, AnnotationPoint, CorrectionResult, PageAnnotation, QuestionResult } from "../types";
+import { normalizeQuestionNumber } from "./answerKeyService";
+import { createCanvas } from "./imageUtils";
+import { formatNumber } from "./scoringPolicyService";
+
+// Drawing happens in page units: the page is 1000 wide and as tall as its aspect ratio requires, so the SVG overlay
+// and the export canvas share the same paths. Stored points use the 0-1000 scale on both axes, like BoundingBox.
+const PAGE_WIDTH = 1000;
+const MARK_SIZE = 36;
+const PEN_WIDTH = 3;
+const TEXT_SIZE = 22;
+const STAMP_TEXT_SIZE = 26;
+// Consecutive free-hand points closer than this are dropped
+const MIN_STROKE_STEP = 3;
+// How far from a mark a click of the eraser still hits it
+const ERASER_RADIUS = 25;
+
+export type AnnotationTool = AnnotationKind | 'eraser';
+
+export const ANNOTATION_TOOL_LABELS: Record<AnnotationTool, string> = {
+  check: 'Certo',
+  cross: 'Errado',
+  stroke: 'Caneta',
+  text: 'Texto',
+  score: 'Nota',
+  eraser: 'Apagar',
+};
+
+// Red pen first; the other colors tell apart a second pass or a note to the student
+export const ANNOTATION_COLORS = ['#dc2626', '#2563eb', '#16a34a'];
+export const DEFAULT_ANNOTATION_COLOR = ANNOTATION_COLORS[0];
+
+const clampCoordinate = (value: number) => Math.min(Math.max(value, 0), 1000);
+
+export const createAnnotation = (
+  pageIndex: number,
+  kind: AnnotationKind,
+  point: AnnotationPoint,
+  color: string,
+  details: Pick<PageAnnotation, 'text' | 'questionNumber'> = {}
+): PageAnnotation => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  pageIndex,
+  kind,
+  points: [point],
+  color,
+  ...details,
+});
+
+export const extendStroke = (stroke: PageAnnotation, point: AnnotationPoint): PageAnnotation => {
+  const last = stroke.points[stroke.points.length - 1];
+  if (last && Math.hypot(point.x - last.x, point.y - last.y) < MIN_STROKE_STEP) return stroke;
+  return { ...stroke, points: [...stroke.points, point] };
+};
+
+// Point under the pointer, in the 0-1000 scale of the page element
+export const toPagePoint = (clientX: number, clientY: number, rect: DOMRect): AnnotationPoint => ({
+  x: Math.round(clampCoordinate(((clientX - rect.left) / rect.width) * 1000)),
+  y: Math.round(clampCoordinate(((clientY - rect.top) / rect.height) * 1000)),
+});
+
+export const getPageAnnotations = (annotations: PageAnnotation[] | undefined, pageIndex: number) =>
+  (annotations || []).filter(a => a.pageIndex === pageIndex);
+
+export const formatStampText = (question: QuestionResult) =>
+  `${formatNumber(question.score || 0)}/${formatNumber(question.maxScore || 0)}`;
+
+// A score stamp follows the current score of its question; the text saved when placed is kept if the question is gone
+export const getStampText = (annotation: PageAnnotation, questions: QuestionResult[]) => {
+  const normalized = annotation.questionNumber ? normalizeQuestionNumber(annotation.questionNumber) : undefined;
+  const question = normalized
+    ? questions.find(q => q.type !== 'context' && normalizeQuestionNumber(q.questionNumber) === normalized)
+    : undefined;
+  return question ? formatStampText(question) : annotation.text || '';
+};
+
+// Height of the page in page units (aspect = height / width of the image)
+export const getViewHeight = (aspect: number) => PAGE_WIDTH * aspect;
+
+const toView = (point: AnnotationPoint, aspect: number) => ({ x: point.x, y: point.y * aspect });
+
+const getStampRadius = (text: string) => Math.max(MARK_SIZE, text.length * STAMP_TEXT_SIZE * 0.32 + 12);
+
+export const getStrokeWidth = (annotation: PageAnnotation) => annotation.kind === 'stroke' ? PEN_WIDTH : PEN_WIDTH * 1.5;
+
+// SVG path of a mark in page units; the export canvas draws the same string through Path2D
+export const getAnnotationPath = (annotation: PageAnnotation, aspect: number, stampText = ''): string => {
+  if (annotation.points.length === 0) return '';
+  const { x, y } = toView(annotation.points[0], aspect);
+  const s = MARK_SIZE;
+  switch (annotation.kind) {
+    case 'check':
+      return `M ${x - 0.5 * s} ${y} L ${x - 0.15 * s} ${y + 0.4 * s} L ${x + 0.55 * s} ${y - 0.5 * s}`;
+    case 'cross':
+      return `M ${x - 0.4 * s} ${y - 0.4 * s} L ${x + 0.4 * s} ${y + 0.4 * s} M ${x + 0.4 * s} ${y - 0.4 * s} L ${x - 0.4 * s} ${y + 0.4 * s}`;
+    case 'stroke':
+      return annotation.points.map((p, i) => {
+        const v = toView(p, aspect);
+        return `${i === 0 ? 'M' : 'L'} ${v.x} ${v.y}`;
+      }).join(' ');
+    case 'score': {
+      const r = getStampRadius(stampText);
+      return `M ${x - r} ${y} A ${r} ${r} 0 1 0 ${x + r} ${y} A ${r} ${r} 0 1 0 ${x - r} ${y}`;
+    }
+    default:
+      return '';
+  }
+};
+
+export interface AnnotationLabel {
+  text: string;
+  x: number;
+  y: number; // Baseline
+  size: number;
+  bold: boolean;
+  centered: boolean;
+}
+
+// Written part of text notes and score stamps, in page units
+export const getAnnotationLabel = (annotation: PageAnnotation, aspect: number, stampText = ''): AnnotationLabel | null => {
+  if (annotation.points.length === 0) return null;
+  const { x, y } = toView(annotation.points[0], aspect);
+  if (annotation.kind === 'text' && annotation.text) {
+    return { text: annotation.text, x, y: y + TEXT_SIZE * 0.35, size: TEXT_SIZE, bold: false, centered: false };
+  }
+  if (annotation.kind === 'score' && stampText) {
+    return { text: stampText, x, y: y + STAMP_TEXT_SIZE * 0.35, size: STAMP_TEXT_SIZE, bold: true, centered: true };
+  }
+  return null;
+};
+
+// The mark closest to a click of the eraser, if any is within reach
+export const findAnnotationAt = (annotations: PageAnnotation[], point: AnnotationPoint, aspect: number): PageAnnotation | undefined => {
+  const target = toView(point, aspect);
+  let closest: PageAnnotation | undefined;
+  let closestDistance = ERASER_RADIUS;
+  annotations.forEach(annotation => {
+    annotation.points.forEach(p => {
+      const v = toView(p, aspect);
+      const distance = Math.hypot(v.x - target.x, v.y - target.y);
+      if (distance <= closestDistance) {
+        closest = annotation;
+        closestDistance = distance;
+      }
+    });
+  });
+  return closest;
+};
+
+const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: PageAnnotation, aspect: number, questions: QuestionResult[]) => {
+  const stampText = annotation.kind === 'score' ? getStampText(annotation, questions) : '';
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineWidth = getStrokeWidth(annotation);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  const path = getAnnotationPath(annotation, aspect, stampText);
+  if (path) ctx.stroke(new Path2D(path));
+
+  const label = getAnnotationLabel(annotation, aspect, stampText);
+  if (label) {
+    ctx.font = `${label.bold ? 'bold ' : ''}${label.size}px sans-serif`;
+    ctx.textAlign = label.centered ? 'center' : 'left';
+    ctx.fillText(label.text, label.x, label.y);
+  }
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("Failed to load the exam page image."));
+  image.src = src;
+});
+
+export interface AnnotatedPage {
+  pageIndex: number;
+  dataUrl: string; // JPEG
+  width: number;
+  height: number;
+}
+
+// Burns the annotations into a copy of every annotated page, for the PDF export
+export const renderAnnotatedPages = async (images: string[], data: CorrectionResult, maxSide = 1600): Promise<AnnotatedPage[]> => {
+  const annotations = data.annotations || [];
+  const pageIndexes = Array.from(new Set(annotations.map(a => a.pageIndex)))
+    .filter(pageIndex => images[pageIndex])
+    .sort((a, b) => a - b);
+
+  const pages: AnnotatedPage[] = [];
+  for (const pageIndex of pageIndexes) {
+    const image = await loadImage(images[pageIndex]);
+    const scale = Math.min(1, maxSide / Math.max(image.naturalWidth, image.naturalHeight));
+    const { canvas, ctx } = createCanvas(image.naturalWidth * scale, image.naturalHeight * scale);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const aspect = canvas.height / canvas.width;
+    const unit = canvas.width / PAGE_WIDTH;
+    ctx.scale(unit, unit);
+    getPageAnnotations(annotations, pageIndex).forEach(annotation => drawAnnotation(ctx, annotation, aspect, data.questions));
+
+    pages.push({ pageIndex, dataUrl: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height });
+  }
+  return pages;
+};
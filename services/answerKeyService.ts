@@ -0,0 +1,121 @@
+import { AnswerKey, AnswerKeyItem, AnswerKeyQuestionType, ExtractedAnswerKeyItem } from "../types";
+
+export const QUESTION_TYPE_LABELS: Record<AnswerKeyQuestionType, string> = {
+  multiple_choice: 'Múltipla escolha',
+  numeric: 'Numérica',
+  short_answer: 'Resposta curta',
+  essay: 'Dissertativa',
+};
+
+export const createEmptyAnswerKey = (): AnswerKey => ({ items: [], instructions: "" });
+
+export const createAnswerKeyItem = (questionNumber: string): AnswerKeyItem => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  questionNumber,
+  type: 'multiple_choice',
+  expectedAnswer: "",
+  acceptedVariants: [],
+  maxScore: 1,
+  weight: 1,
+});
+
+// "13 a", "13a" and "13-A)" all refer to the same question
+export const normalizeQuestionNumber = (questionNumber: string) =>
+  questionNumber.toLowerCase().replace(/quest[aã]o/g, '').replace(/[^a-z0-9]/g, '');
+
+// Number for another item that would share questionNumber: "1" becomes "1 (cópia 2)". The word keeps it apart from
+// real numbers once normalized ("1 (2)" would read as question 12), so the copy never picks up another item's key.
+export const copyQuestionNumber = (questionNumber: string, copy: number) => `${questionNumber} (cópia ${copy})`;
+
+export const findAnswerKeyItem = (answerKey: AnswerKey, questionNumber: string): AnswerKeyItem | undefined => {
+  const normalized = normalizeQuestionNumber(questionNumber);
+  return answerKey.items.find(item => normalizeQuestionNumber(item.questionNumber) === normalized);
+};
+
+const formatItem = (item: AnswerKeyItem) => {
+  const parts = [
+    `- Questão ${item.questionNumber} [${QUESTION_TYPE_LABELS[item.type]}]`,
+    `resposta esperada: "${item.expectedAnswer}"`,
+  ];
+  if (item.acceptedVariants.length > 0) {
+    parts.push(`variantes aceitas: ${item.acceptedVariants.map(v => `"${v}"`).join(', ')}`);
+  }
+  parts.push(`valor máximo (maxScore): ${item.maxScore}`);
+  if (item.skills && item.skills.length > 0) {
+    parts.push(`habilidades BNCC: ${item.skills.join(', ')}`);
+  }
+  return parts.join('; ');
+};
+
+// Text block describing the answer key, interpolated into the AI prompts
+export const formatAnswerKeyForPrompt = (answerKey: AnswerKey, questionNumber?: string): string => {
+  const items = questionNumber
+    ? answerKey.items.filter(item => normalizeQuestionNumber(item.questionNumber) === normalizeQuestionNumber(questionNumber))
+    : answerKey.items;
+
+  const sections: string[] = [];
+  if (items.length > 0) {
+    sections.push(
+      `Gabarito definido pelo professor (use EXATAMENTE estes valores de 'maxScore' e considere corretas apenas a resposta esperada ou suas variantes aceitas):\n${items.map(formatItem).join('\n')}`
+    );
+  } else {
+    sections.push("Nenhum gabarito estruturado foi fornecido. Deduza as respostas corretas e o valor de cada questão.");
+  }
+  if (answerKey.instructions.trim()) {
+    sections.push(`Instruções adicionais do professor:\n"${answerKey.instructions.trim()}"`);
+  }
+  return sections.join('\n\n');
+};
+
+const toConfidence = (value: unknown) => {
+  const num = Number(value);
+  if (!isFinite(num)) return 0;
+  return Math.min(Math.max(num > 1 ? num / 100 : num, 0), 1);
+};
+
+// "C", "c)", "(C) 3/4" or "Letra C"
+export const MC_LETTER_PATTERN = /^\s*(?:letra\s+)?\(?([a-z])(?:\)|[\s.:-]|$)/i;
+
+// Cleans the questions the AI read from a blank exam: valid types, positive values, unique numbers
+export const normalizeExtractedItems = (raw: Partial<ExtractedAnswerKeyItem>[]): ExtractedAnswerKeyItem[] => {
+  const seen = new Set<string>();
+  return raw.flatMap((item, idx) => {
+    const questionNumber = String(item.questionNumber ?? '').trim() || String(idx + 1);
+    const normalized = normalizeQuestionNumber(questionNumber);
+    if (seen.has(normalized)) return [];
+    seen.add(normalized);
+
+    const type = item.type && item.type in QUESTION_TYPE_LABELS ? item.type : 'short_answer';
+    const maxScore = Number(item.maxScore);
+    const expectedAnswer = String(item.expectedAnswer ?? '').trim();
+    return [{
+      ...createAnswerKeyItem(questionNumber),
+      type,
+      expectedAnswer: type === 'multiple_choice' ? (MC_LETTER_PATTERN.exec(expectedAnswer)?.[1].toUpperCase() || expectedAnswer) : expectedAnswer,
+      acceptedVariants: Array.isArray(item.acceptedVariants) ? item.acceptedVariants.map(String).filter(v => v.trim()) : [],
+      maxScore: isFinite(maxScore) && maxScore > 0 ? maxScore : 1,
+      skills: Array.isArray(item.skills) ? item.skills.map(String) : [], // Codes are validated by skillService
+      questionText: String(item.questionText ?? ''),
+      alternatives: Array.isArray(item.alternatives) ? item.alternatives.map(String) : [],
+      answerSource: item.answerSource === 'marked' ? 'marked' : 'proposed',
+      confidence: toConfidence(item.confidence),
+      included: true,
+    }];
+  });
+};
+
+// Items the teacher kept, without the extraction details
+export const toAnswerKeyItems = (items: ExtractedAnswerKeyItem[]): AnswerKeyItem[] =>
+  items
+    .filter(item => item.included)
+    .map(({ questionText, alternatives, answerSource, confidence, included, ...item }) => item);
+
+// Adds the missing multiple-choice items 1..count (bubble sheets always number questions sequentially)
+export const ensureSequentialItems = (answerKey: AnswerKey, count: number): AnswerKey => {
+  const items = [...answerKey.items];
+  for (let n = 1; n <= count; n++) {
+    if (!findAnswerKeyItem(answerKey, String(n))) items.push(createAnswerKeyItem(String(n)));
+  }
+  items.sort((a, b) => (parseInt(a.questionNumber, 10) || Infinity) - (parseInt(b.questionNumber, 10) || Infinity));
+  return { ...answerKey, items };
+};
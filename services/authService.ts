@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
-import { User } from "../types";
+import { AIUsageRecord, PromptOperation, PromptTemplate, User } from "../types";
 
 // Configuration for Supabase
 const SUPABASE_URL = 'https://wynpsqzvkgkmlvfwglnv.supabase.co';
@@ -204,7 +204,7 @@ export const adminResetPassword = async (userId: string, newPass: string): Promi
 
 // --- User Methods ---
 
-export const consumeCredit = async (userId: string): Promise<boolean> => {
+export const consumeCredit = async (userId: string, amount = 1): Promise<boolean> => {
   // Offline bypass
   if (userId === 'offline-super-admin') return true;
 
@@ -212,8 +212,8 @@ export const consumeCredit = async (userId: string): Promise<boolean> => {
   if (!profile) return false;
   if (profile.role === 'admin') return true;
 
-  if (profile.credits > 0) {
-    await supabase.from('profiles').update({ credits: profile.credits - 1 }).eq('id', userId);
+  if (profile.credits >= amount) {
+    await supabase.from('profiles').update({ credits: profile.credits - amount }).eq('id', userId);
     return true;
   }
   return false;
@@ -223,6 +223,117 @@ export const reportPayment = async (userId: string, credits: number, amount: num
     console.log(`[PAGAMENTO] Usuário ${userId} reportou pagamento de R$${amount}`);
 };
 
+// --- Usage Methods ---
+
+export const saveUsageRecord = async (userId: string, record: AIUsageRecord): Promise<void> => {
+  if (userId === 'offline-super-admin') return;
+
+  const { error } = await supabase.from('ai_usage').insert({
+    user_id: userId,
+    correction_id: record.correctionId ?? null,
+    operation: record.operation,
+    provider: record.provider,
+    model: record.model,
+    input_tokens: record.inputTokens,
+    output_tokens: record.outputTokens,
+    latency_ms: record.latencyMs,
+    image_bytes: record.imageBytes,
+    credits_charged: record.creditsCharged ?? null,
+    created_at: record.createdAt,
+  });
+  if (error) console.error("Error saving AI usage:", error);
+};
+
+export const getUsageRecords = async (limit = 5000): Promise<AIUsageRecord[]> => {
+  const { data, error } = await supabase
+    .from('ai_usage')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+      console.error("Error fetching AI usage:", error);
+      return [];
+  }
+
+  return data.map(row => ({
+    correctionId: row.correction_id ?? undefined,
+    userId: row.user_id,
+    operation: row.operation,
+    provider: row.provider,
+    model: row.model,
+    inputTokens: row.input_tokens ?? 0,
+    outputTokens: row.output_tokens ?? 0,
+    latencyMs: row.latency_ms ?? 0,
+    imageBytes: row.image_bytes ?? 0,
+    creditsCharged: row.credits_charged ?? undefined,
+    createdAt: row.created_at,
+  }));
+};
+
+// --- Prompt Template Methods ---
+
+const mapRowToPromptTemplate = (row: any): PromptTemplate => ({
+  id: row.id,
+  templateId: row.template_id,
+  version: row.version,
+  name: row.name,
+  subject: row.subject || '',
+  gradeLevel: row.grade_level || '',
+  prompts: row.prompts,
+  createdAt: row.created_at,
+  archived: !!row.archived,
+});
+
+// Every version of every template (corrections keep pointing to old versions)
+export const getPromptTemplates = async (): Promise<PromptTemplate[]> => {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('*')
+    .order('version', { ascending: false });
+
+  if (error) {
+      console.error("Error fetching prompt templates:", error);
+      return [];
+  }
+
+  return data.map(mapRowToPromptTemplate);
+};
+
+export interface PromptTemplateDraft {
+  templateId?: string; // Omitted for a new template
+  name: string;
+  subject: string;
+  gradeLevel: string;
+  prompts: Record<PromptOperation, string>;
+}
+
+// Inserts the draft as the next version of its template; existing versions are never updated
+export const savePromptTemplate = async (draft: PromptTemplateDraft, currentVersion = 0): Promise<PromptTemplate> => {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .insert({
+      template_id: draft.templateId || `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      version: currentVersion + 1,
+      name: draft.name,
+      subject: draft.subject,
+      grade_level: draft.gradeLevel,
+      prompts: draft.prompts,
+      created_at: new Date().toISOString(),
+      archived: false,
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+  return mapRowToPromptTemplate(data);
+};
+
+export const archivePromptTemplate = async (templateId: string): Promise<void> => {
+  const { error } = await supabase.from('prompt_templates').update({ archived: true }).eq('template_id', templateId);
+  if (error) throw new Error(error.message);
+};
+
 export const changeOwnPassword = async (userId: string, currentPass: string, newPass: string): Promise<void> => {
     if (userId === 'offline-super-admin') return;
     const { error } = await supabase.auth.updateUser({ password: newPass });
@@ -0,0 +1,124 @@
+import { CorrectionResult, GradingOpinion, QuestionResult, ValidationWarning } from "../types";
+import { calculateTotals } from "./scoreService";
+
+const SETTINGS_STORAGE_KEY = 'correctorai_consensus_settings';
+
+export interface ConsensusSettings {
+  enabled: boolean;
+  runs: number; // Independent gradings of the same exam (2 or 3)
+  models: string[]; // Model of each run; empty entries use the configured model
+  scoreTolerance: number; // Largest score spread still considered an agreement, as a fraction of the question value
+}
+
+export const CONSENSUS_RUN_OPTIONS = [2, 3];
+
+export const DEFAULT_CONSENSUS_SETTINGS: ConsensusSettings = {
+  enabled: false,
+  runs: 2,
+  models: [],
+  scoreTolerance: 0.1,
+};
+
+export const loadConsensusSettings = (): ConsensusSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_CONSENSUS_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CONSENSUS_SETTINGS;
+  } catch {
+    return DEFAULT_CONSENSUS_SETTINGS;
+  }
+};
+
+export const saveConsensusSettings = (settings: ConsensusSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export interface ConsensusRun {
+  model: string;
+  result: CorrectionResult; // Validated (and rubric-graded) result of the run
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const toOpinion = (question: QuestionResult, run: number, model: string): GradingOpinion => ({
+  run,
+  model,
+  studentAnswer: question.studentAnswer || '',
+  isCorrect: !!question.isCorrect,
+  score: question.score || 0,
+  feedback: question.feedback || '',
+  rubricScores: question.rubricScores,
+});
+
+export const hasDisagreement = (opinions: GradingOpinion[], maxScore: number, scoreTolerance: number) => {
+  if (opinions.length < 2) return false;
+  if (new Set(opinions.map(o => o.isCorrect)).size > 1) return true;
+  const scores = opinions.map(o => o.score);
+  return Math.max(...scores) - Math.min(...scores) > scoreTolerance * maxScore + 1e-9;
+};
+
+/**
+ * Merges independent gradings of the same exam. The first run provides the structure (items, transcription,
+ * regions); for each question the majority decides isCorrect and the median decides the score. Every run's
+ * opinion is kept on the question so the teacher can compare them when they disagree.
+ */
+export const mergeConsensusRuns = (runs: ConsensusRun[], scoreTolerance: number): CorrectionResult => {
+  const [base, ...others] = runs;
+  const warnings: ValidationWarning[] = [...(base.result.validationWarnings || [])];
+
+  const questions = base.result.questions.map((question): QuestionResult => {
+    if (question.type === 'context') return question;
+
+    const matches = [
+      { question, run: 1, model: base.model },
+      ...others.flatMap((run, i) => {
+        const match = run.result.questions.find(q => q.type !== 'context' && q.questionNumber === question.questionNumber);
+        return match ? [{ question: match, run: i + 2, model: run.model }] : [];
+      }),
+    ];
+    const opinions = matches.map(m => toOpinion(m.question, m.run, m.model));
+
+    if (matches.length < runs.length) {
+      warnings.push({
+        kind: 'flagged',
+        questionNumber: question.questionNumber,
+        field: 'consensus',
+        message: `Apenas ${matches.length} de ${runs.length} correções identificaram esta questão.`,
+      });
+    }
+    if (matches.length < 2) return { ...question, opinions };
+
+    const correctVotes = opinions.filter(o => o.isCorrect).length;
+    const isCorrect = correctVotes * 2 === opinions.length ? !!question.isCorrect : correctVotes * 2 > opinions.length;
+    const medianScore = median(opinions.map(o => o.score));
+
+    // The run closest to the consensus provides the feedback (and the rubric levels, when graded by rubric)
+    const representative = matches
+      .filter(m => !!m.question.isCorrect === isCorrect)
+      .sort((a, b) => Math.abs((a.question.score || 0) - medianScore) - Math.abs((b.question.score || 0) - medianScore))[0]
+      || matches[0];
+
+    return {
+      ...question,
+      isCorrect,
+      score: representative.question.rubricScores ? representative.question.score : round2(medianScore),
+      feedback: representative.question.feedback,
+      rubricScores: representative.question.rubricScores,
+      opinions,
+      disagreement: hasDisagreement(opinions, question.maxScore || 0, scoreTolerance),
+      reviewed: false,
+    };
+  });
+
+  return {
+    ...base.result,
+    questions,
+    ...calculateTotals(questions),
+    validationWarnings: warnings,
+  };
+};
@@ -0,0 +1,216 @@
+import { CorrectionResult, CorrectionSnapshot, EditLogEntry, EditSource, QuestionResult } from "../types";
+import { normalizeQuestionNumber } from "./answerKeyService";
+
+type HeaderField = 'studentName' | 'schoolName' | 'teacherName' | 'className' | 'examDate' | 'summary';
+type QuestionField = 'questionText' | 'alternatives' | 'studentAnswer' | 'isCorrect' | 'score' | 'maxScore' | 'feedback' | 'skills';
+
+export const HEADER_FIELD_LABELS: Record<HeaderField, string> = {
+  studentName: 'Aluno',
+  schoolName: 'Escola',
+  teacherName: 'Professor',
+  className: 'Turma',
+  examDate: 'Data',
+  summary: 'Resumo',
+};
+
+export const QUESTION_FIELD_LABELS: Record<QuestionField, string> = {
+  questionText: 'Enunciado',
+  alternatives: 'Alternativas',
+  studentAnswer: 'Resposta do aluno',
+  isCorrect: 'Situação',
+  score: 'Nota',
+  maxScore: 'Valor',
+  feedback: 'Feedback',
+  skills: 'Habilidades BNCC',
+};
+
+const HEADER_FIELDS = Object.keys(HEADER_FIELD_LABELS) as HeaderField[];
+const QUESTION_FIELDS = Object.keys(QUESTION_FIELD_LABELS) as QuestionField[];
+
+// Log field for added, removed, split, merged, moved or converted items (their fields are not compared one by one)
+export const STRUCTURE_FIELD = 'structure';
+
+export const MAX_UNDO_STEPS = 100;
+// Consecutive changes to the same field within this window (typing) become one undo step and one log entry
+const COALESCE_WINDOW_MS = 1500;
+
+export interface UndoHistory {
+  past: CorrectionResult[];
+  future: CorrectionResult[];
+  lastEdit?: { key: string; at: number }; // Field changed by the latest step, to coalesce typing
+}
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (typeof value === 'boolean') return value ? 'Correta' : 'Incorreta';
+  if (Array.isArray(value)) return value.join('; ');
+  return String(value);
+};
+
+// Header and questions as they stand, without the review state; used to keep the AI original
+export const takeSnapshot = (data: CorrectionResult): CorrectionSnapshot => JSON.parse(JSON.stringify({
+  studentName: data.studentName,
+  schoolName: data.schoolName,
+  teacherName: data.teacherName,
+  className: data.className,
+  examDate: data.examDate,
+  summary: data.summary,
+  totalScore: data.totalScore,
+  maxTotalScore: data.maxTotalScore,
+  questions: data.questions,
+}));
+
+// Field-level changes between two versions of the same correction (questions are matched by position)
+export const describeChanges = (before: CorrectionResult, after: CorrectionResult, source: EditSource): EditLogEntry[] => {
+  const at = new Date().toISOString();
+  const entries: EditLogEntry[] = [];
+
+  HEADER_FIELDS.forEach(field => {
+    const from = formatValue(before[field]);
+    const to = formatValue(after[field]);
+    if (from !== to) entries.push({ at, field, before: from, after: to, source });
+  });
+
+  after.questions.forEach((question, i) => {
+    const previous = before.questions[i];
+    if (!previous || question.type === 'context') return;
+    QUESTION_FIELDS.forEach(field => {
+      const from = formatValue(previous[field]);
+      const to = formatValue(question[field]);
+      if (from !== to) entries.push({ at, questionNumber: question.questionNumber, field, before: from, after: to, source });
+    });
+  });
+
+  return entries;
+};
+
+const entryKey = (entry: Pick<EditLogEntry, 'questionNumber' | 'field' | 'source'>) =>
+  `${entry.source}|${entry.questionNumber ?? ''}|${entry.field}`;
+
+// Appends new entries, merging a change into the previous entry for the same field while the teacher is typing
+export const appendToLog = (log: EditLogEntry[], entries: EditLogEntry[], coalesce: boolean): EditLogEntry[] => {
+  if (entries.length === 0) return log;
+  const merged = [...log];
+  entries.forEach(entry => {
+    const last = merged[merged.length - 1];
+    if (coalesce && last && entryKey(last) === entryKey(entry)) {
+      merged[merged.length - 1] = { ...last, at: entry.at, after: entry.after };
+      // Typing back to the value it started from leaves nothing to record
+      if (last.before === entry.after) merged.pop();
+    } else {
+      merged.push(entry);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Records a new version of the correction: the AI original is kept on the first edit, the changes are logged and the
+ * previous version becomes an undo step. Typing in the same field is coalesced into a single step.
+ * Structural changes pass a description instead, since questions can no longer be matched by position.
+ * Returns the version to show and the updated history.
+ */
+export const recordEdit = (
+  current: CorrectionResult,
+  next: CorrectionResult,
+  history: UndoHistory,
+  source: EditSource = 'teacher',
+  structuralChange?: string
+): { data: CorrectionResult; history: UndoHistory } => {
+  const entries = structuralChange
+    ? [{ at: new Date().toISOString(), field: STRUCTURE_FIELD, before: '', after: structuralChange, source }]
+    : describeChanges(current, next, source);
+  const now = Date.now();
+  // Each structural change is its own undo step
+  const key = !structuralChange && entries.length === 1 ? entryKey(entries[0]) : '';
+  const coalesce = !!key && history.lastEdit?.key === key && now - history.lastEdit.at < COALESCE_WINDOW_MS;
+
+  const data: CorrectionResult = {
+    ...next,
+    aiOriginal: current.aiOriginal || takeSnapshot(current),
+    editLog: appendToLog(current.editLog || [], entries, coalesce),
+  };
+  return {
+    data,
+    history: {
+      past: coalesce ? history.past : [...history.past, current].slice(-MAX_UNDO_STEPS),
+      future: [],
+      lastEdit: key ? { key, at: now } : undefined,
+    },
+  };
+};
+
+// Undo and redo swap whole versions, so the log always describes the edits present in the version shown
+export const undo = (current: CorrectionResult, history: UndoHistory): { data: CorrectionResult; history: UndoHistory } | null => {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return null;
+  return { data: previous, history: { past: history.past.slice(0, -1), future: [current, ...history.future] } };
+};
+
+export const redo = (current: CorrectionResult, history: UndoHistory): { data: CorrectionResult; history: UndoHistory } | null => {
+  const next = history.future[0];
+  if (!next) return null;
+  return { data: next, history: { past: [...history.past, current], future: history.future.slice(1) } };
+};
+
+export interface FieldDiff {
+  questionNumber?: string; // Absent for header fields
+  field: string;
+  label: string;
+  original: string; // Value returned by the AI
+  current: string;
+}
+
+const findOriginalQuestion = (original: CorrectionSnapshot, questionNumber: string): QuestionResult | undefined => {
+  const normalized = normalizeQuestionNumber(questionNumber);
+  return original.questions.find(q => q.type !== 'context' && normalizeQuestionNumber(q.questionNumber) === normalized);
+};
+
+// Everything that differs from what the AI returned; questions are matched by number
+export const diffFromOriginal = (data: CorrectionResult): FieldDiff[] => {
+  const original = data.aiOriginal;
+  if (!original) return [];
+  const diffs: FieldDiff[] = [];
+
+  HEADER_FIELDS.forEach(field => {
+    const from = formatValue(original[field]);
+    const to = formatValue(data[field]);
+    if (from !== to) diffs.push({ field, label: HEADER_FIELD_LABELS[field], original: from, current: to });
+  });
+
+  const matched = new Set<QuestionResult>();
+  data.questions.forEach(question => {
+    if (question.type === 'context') return;
+    const originalQuestion = findOriginalQuestion(original, question.questionNumber);
+    if (!originalQuestion) {
+      diffs.push({ questionNumber: question.questionNumber, field: 'question', label: 'Questão', original: '', current: 'Adicionada pelo professor' });
+      return;
+    }
+    matched.add(originalQuestion);
+    QUESTION_FIELDS.forEach(field => {
+      const from = formatValue(originalQuestion[field]);
+      const to = formatValue(question[field]);
+      if (from !== to) diffs.push({ questionNumber: question.questionNumber, field, label: QUESTION_FIELD_LABELS[field], original: from, current: to });
+    });
+  });
+
+  original.questions.forEach(question => {
+    if (question.type === 'context' || matched.has(question)) return;
+    diffs.push({ questionNumber: question.questionNumber, field: 'question', label: 'Questão', original: 'Corrigida pela IA', current: 'Removida pelo professor' });
+  });
+
+  return diffs;
+};
+
+// Score the AI gave to the question, when the teacher changed it (used to mark adjusted grades in the report)
+export const getOriginalScore = (data: CorrectionResult, question: QuestionResult): number | undefined => {
+  if (!data.aiOriginal || question.type === 'context') return undefined;
+  const originalQuestion = findOriginalQuestion(data.aiOriginal, question.questionNumber);
+  if (!originalQuestion || (originalQuestion.score ?? 0) === (question.score ?? 0)) return undefined;
+  return originalQuestion.score ?? 0;
+};
+
+export const getFieldLabel = (field: string) =>
+  field === STRUCTURE_FIELD ? 'Estrutura' : HEADER_FIELD_LABELS[field as HeaderField] || QUESTION_FIELD_LABELS[field as QuestionField] || field;
@@ -0,0 +1,54 @@
+import { EssayCompetenceScore, EssayResult, EssayZeroReason } from "../types";
+
+export const ESSAY_MAX_SCORE = 1000;
+export const COMPETENCE_MAX_SCORE = 200;
+export const COMPETENCE_LEVELS = [0, 40, 80, 120, 160, 200];
+
+export const ENEM_COMPETENCES: { number: number; title: string; description: string }[] = [
+  { number: 1, title: "Norma culta", description: "Demonstrar domínio da modalidade escrita formal da língua portuguesa." },
+  { number: 2, title: "Tema e tipo textual", description: "Compreender a proposta e aplicar conceitos das várias áreas do conhecimento para desenvolver o tema, dentro dos limites do texto dissertativo-argumentativo." },
+  { number: 3, title: "Argumentação", description: "Selecionar, relacionar, organizar e interpretar informações, fatos, opiniões e argumentos em defesa de um ponto de vista." },
+  { number: 4, title: "Coesão", description: "Demonstrar conhecimento dos mecanismos linguísticos necessários para a construção da argumentação." },
+  { number: 5, title: "Proposta de intervenção", description: "Elaborar proposta de intervenção para o problema abordado, respeitando os direitos humanos." },
+];
+
+export const ZERO_REASON_LABELS: Record<EssayZeroReason, string> = {
+  fuga_ao_tema: "Fuga total ao tema",
+  tipo_textual: "Não atendimento ao tipo dissertativo-argumentativo",
+  texto_insuficiente: "Texto insuficiente (até 7 linhas)",
+  parte_desconectada: "Parte deliberadamente desconectada do tema",
+  copia_texto_motivador: "Cópia dos textos motivadores",
+  identificacao: "Identificação do participante no texto",
+  folha_em_branco: "Folha em branco",
+};
+
+// Snaps a competence grade to the official levels (0, 40, ..., 200)
+const snapToLevel = (score: number) => {
+  const clamped = Math.min(Math.max(score || 0, 0), COMPETENCE_MAX_SCORE);
+  return Math.round(clamped / 40) * 40;
+};
+
+export const calculateEssayTotal = (competences: EssayCompetenceScore[], zeroReason?: EssayZeroReason) =>
+  zeroReason ? 0 : competences.reduce((acc, c) => acc + c.score, 0);
+
+// Guarantees exactly five competences with valid levels and a consistent total
+export const normalizeEssayResult = (result: EssayResult): EssayResult => {
+  const zeroReason = result.zeroReason && result.zeroReason in ZERO_REASON_LABELS ? result.zeroReason : undefined;
+
+  const competences = ENEM_COMPETENCES.map(({ number }) => {
+    const found = (result.competences || []).find(c => c.competence === number);
+    return {
+      competence: number,
+      score: zeroReason ? 0 : snapToLevel(found?.score ?? 0),
+      justification: found?.justification || "",
+    };
+  });
+
+  return {
+    ...result,
+    competences,
+    zeroReason,
+    zeroExplanation: zeroReason ? result.zeroExplanation : undefined,
+    totalScore: calculateEssayTotal(competences, zeroReason),
+  };
+};
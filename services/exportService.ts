@@ -1,7 +1,33 @@
 import { jsPDF } from "jspdf";
 import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, BorderStyle } from "docx";
 import saveAs from "file-saver";
-import { CorrectionResult } from "../types";
+import { AnswerKey, CorrectionResult, EssayResult, OmrSheetLayout, RecoveryWorksheet, ScoringPolicy } from "../types";
+import { getCriterionMaxPoints, getCriterionPoints } from "./rubricService";
+import { COMPETENCE_MAX_SCORE, ENEM_COMPETENCES, ESSAY_MAX_SCORE, ZERO_REASON_LABELS } from "./essayService";
+import { getSheetQuestions, SHEET_GEOMETRY } from "./omrService";
+import { DEFAULT_SCORING_POLICY, formatNumber, getPerformanceBand, GradeSummary, PerformanceBand, summarizeGrade } from "./scoringPolicyService";
+import { RECOVERY_DIFFICULTY_LABELS } from "./recoveryService";
+import { getQuestionSkills, summarizeSkills } from "./skillService";
+import { getOriginalScore } from "./editHistoryService";
+import { AnnotatedPage } from "./annotationService";
+
+// Raw points (and penalty) shown under the final grade when the grade is not the point sum itself
+const describePoints = (grade: GradeSummary, policy: ScoringPolicy) => {
+  const parts: string[] = [];
+  if (policy.scale !== 'points') parts.push(`Pontuação: ${formatNumber(grade.points)} / ${formatNumber(grade.maxPoints)} pts`);
+  if (grade.penalty > 0) parts.push(`Penalidade por erros: -${formatNumber(grade.penalty)} pts`);
+  parts.push(grade.passed ? 'Aprovado' : 'Abaixo da média');
+  return parts.join(' · ');
+};
+
+const BAND_COLORS: Record<PerformanceBand, string> = {
+  passing: '16a34a',
+  near: 'ca8a04',
+  failing: 'dc2626',
+};
+
+const countAdjustedGrades = (data: CorrectionResult) =>
+  data.questions.filter(q => getOriginalScore(data, q) !== undefined).length;
 
 const getFileName = (studentName: string, type: string) => {
   const sanitized = studentName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
@@ -9,7 +35,10 @@ const getFileName = (studentName: string, type: string) => {
   return `correcao_${sanitized}_${date}.${type}`;
 };
 
-export const exportToPDF = (data: CorrectionResult) => {
+// markAdjustedGrades notes, next to each question, the score the AI gave when the teacher changed it.
+// annotatedPages (see renderAnnotatedPages) are appended after the feedback, one exam page per PDF page.
+export const exportToPDF = (data: CorrectionResult, policy: ScoringPolicy = DEFAULT_SCORING_POLICY, answerKey?: AnswerKey, markAdjustedGrades: boolean = false, annotatedPages: AnnotatedPage[] = []) => {
+  const grade = summarizeGrade(data, policy, answerKey);
   const doc = new jsPDF();
   const margin = 20;
   let y = 20;
@@ -45,7 +74,11 @@ export const exportToPDF = (data: CorrectionResult) => {
   if (data.examDate) addText(`Data: ${data.examDate}`, 10);
   
   y += 5;
-  addText(`Nota Final: ${data.totalScore} / ${data.maxTotalScore}`, 14, 'bold', data.totalScore / data.maxTotalScore >= 0.7 ? '#16a34a' : '#dc2626');
+  addText(`Nota Final: ${grade.gradeText} ${grade.scaleText}`.trim(), 14, 'bold', grade.passed ? '#16a34a' : '#dc2626');
+  addText(describePoints(grade, policy), 9, 'normal', '#475569');
+  if (markAdjustedGrades && countAdjustedGrades(data) > 0) {
+    addText(`${countAdjustedGrades(data)} nota(s) ajustada(s) pelo professor após a correção da IA.`, 9, 'italic', '#64748b');
+  }
   
   y += 10;
 
@@ -55,6 +88,17 @@ export const exportToPDF = (data: CorrectionResult) => {
   addText(data.summary, 10, 'italic', '#475569');
   y += 10;
 
+  // Skills (a question counts in full for each of its skills)
+  const { skills } = summarizeSkills(data, answerKey);
+  if (skills.length > 0) {
+    checkPageBreak(30);
+    addText("Desempenho por Habilidade (BNCC)", 12, 'bold');
+    skills.forEach(skill => {
+      addText(`${skill.code}: ${formatNumber(skill.earned)} / ${formatNumber(skill.possible)} pts (${skill.percent}%) - Questões ${skill.questionNumbers.join(', ')}`, 9, 'normal', `#${BAND_COLORS[getPerformanceBand(skill.percent, policy)]}`);
+    });
+    y += 10;
+  }
+
   // Questions
   doc.setDrawColor(200);
   doc.line(margin, y, pageWidth - margin, y);
@@ -73,8 +117,13 @@ export const exportToPDF = (data: CorrectionResult) => {
       const isCorrectText = q.isCorrect ? "(Correta)" : "(Incorreta/Parcial)";
       const color = q.isCorrect ? '#16a34a' : ((q.score || 0) > 0 ? '#ca8a04' : '#dc2626');
 
-      addText(`Questão ${q.questionNumber} ${isCorrectText}`, 11, 'bold', color);
+      const pageText = q.page !== undefined ? ` - Pág. ${q.page}` : '';
+      addText(`Questão ${q.questionNumber}${pageText} ${isCorrectText}`, 11, 'bold', color);
       addText(scoreText, 10, 'bold', color);
+      const originalScore = markAdjustedGrades ? getOriginalScore(data, q) : undefined;
+      if (originalScore !== undefined) addText(`Nota ajustada pelo professor (nota da IA: ${formatNumber(originalScore)})`, 8, 'italic', '#64748b');
+      const questionSkills = getQuestionSkills(q, answerKey);
+      if (questionSkills.length > 0) addText(`Habilidades BNCC: ${questionSkills.join(', ')}`, 8, 'normal', '#64748b');
       y += 2;
 
       // Enunciation
@@ -87,6 +136,17 @@ export const exportToPDF = (data: CorrectionResult) => {
       addText(q.studentAnswer || "(Sem resposta)", 9, 'italic');
       y += 2;
 
+      // Rubric
+      if (q.rubricScores && q.rubricScores.length > 0) {
+        addText("Rubrica:", 9, 'bold');
+        q.rubricScores.forEach(c => {
+          const level = c.levels[c.levelIndex]?.label || '-';
+          addText(`• ${c.name}: ${level} (${getCriterionPoints(c)} / ${getCriterionMaxPoints(c)} pts)`, 9);
+          if (c.justification) addText(c.justification, 8, 'italic', '#475569');
+        });
+        y += 2;
+      }
+
       // Feedback
       addText("Feedback:", 9, 'bold');
       addText(q.feedback || "", 9, 'normal', '#334155');
@@ -99,10 +159,22 @@ export const exportToPDF = (data: CorrectionResult) => {
     }
   });
 
+  // Marked-up exam pages, scaled to fit below the title
+  annotatedPages.forEach(page => {
+    doc.addPage();
+    y = 20;
+    addText(`Prova Corrigida - Página ${page.pageIndex + 1}`, 12, 'bold', '#4f46e5');
+    const maxHeight = doc.internal.pageSize.getHeight() - margin - y;
+    const scale = Math.min(contentWidth / page.width, maxHeight / page.height);
+    const width = page.width * scale;
+    doc.addImage(page.dataUrl, 'JPEG', margin + (contentWidth - width) / 2, y, width, page.height * scale);
+  });
+
   doc.save(getFileName(data.studentName, 'pdf'));
 };
 
-export const exportToDOCX = (data: CorrectionResult) => {
+export const exportToDOCX = (data: CorrectionResult, policy: ScoringPolicy = DEFAULT_SCORING_POLICY, answerKey?: AnswerKey, markAdjustedGrades: boolean = false) => {
+  const grade = summarizeGrade(data, policy, answerKey);
   const children: any[] = [];
 
   // Title
@@ -134,11 +206,23 @@ export const exportToDOCX = (data: CorrectionResult) => {
     new Paragraph({
       children: [
         new TextRun({ text: "Nota Final: ", bold: true, size: 28 }),
-        new TextRun({ text: `${data.totalScore} / ${data.maxTotalScore}`, bold: true, size: 28, color: data.totalScore / data.maxTotalScore >= 0.7 ? "16a34a" : "dc2626" }),
+        new TextRun({ text: `${grade.gradeText} ${grade.scaleText}`.trim(), bold: true, size: 28, color: grade.passed ? "16a34a" : "dc2626" }),
       ],
-      spacing: { before: 200, after: 200 }
+      spacing: { before: 200, after: 100 }
+    })
+  );
+  children.push(
+    new Paragraph({
+      children: [new TextRun({ text: describePoints(grade, policy), size: 18, color: "475569" })],
+      spacing: { after: 200 }
     })
   );
+  if (markAdjustedGrades && countAdjustedGrades(data) > 0) {
+    children.push(new Paragraph({
+      children: [new TextRun({ text: `${countAdjustedGrades(data)} nota(s) ajustada(s) pelo professor após a correção da IA.`, italics: true, size: 18, color: "64748b" })],
+      spacing: { after: 200 }
+    }));
+  }
 
   // Summary
   children.push(new Paragraph({ text: "Resumo da Análise", heading: HeadingLevel.HEADING_2 }));
@@ -147,6 +231,23 @@ export const exportToDOCX = (data: CorrectionResult) => {
     spacing: { after: 400 }
   }));
 
+  // Skills (a question counts in full for each of its skills)
+  const { skills } = summarizeSkills(data, answerKey);
+  if (skills.length > 0) {
+    children.push(new Paragraph({ text: "Desempenho por Habilidade (BNCC)", heading: HeadingLevel.HEADING_2 }));
+    skills.forEach(skill => {
+      children.push(new Paragraph({
+        children: [
+          new TextRun({ text: `${skill.code}: `, bold: true }),
+          new TextRun({ text: `${formatNumber(skill.earned)} / ${formatNumber(skill.possible)} pts (${skill.percent}%)`, bold: true, color: BAND_COLORS[getPerformanceBand(skill.percent, policy)] }),
+          new TextRun({ text: ` — Questões ${skill.questionNumbers.join(', ')}`, color: "64748b" }),
+        ],
+        bullet: { level: 0 }
+      }));
+    });
+    children.push(new Paragraph({ text: "", spacing: { after: 200 } }));
+  }
+
   // Questions
   data.questions.forEach((q) => {
     if (q.type === 'context') {
@@ -166,13 +267,14 @@ export const exportToDOCX = (data: CorrectionResult) => {
       );
     } else {
       const color = q.isCorrect ? "16a34a" : ((q.score || 0) > 0 ? "ca8a04" : "dc2626");
+      const pageText = q.page !== undefined ? ` - Pág. ${q.page}` : "";
       
       // Header Q
       children.push(
         new Paragraph({
           children: [
             new TextRun({ 
-              text: `Questão ${q.questionNumber} - (${q.score}/${q.maxScore} pts)`, 
+              text: `Questão ${q.questionNumber}${pageText} - (${q.score}/${q.maxScore} pts)`, 
               bold: true, 
               size: 24,
               color: color
@@ -183,6 +285,16 @@ export const exportToDOCX = (data: CorrectionResult) => {
         })
       );
 
+      const originalScore = markAdjustedGrades ? getOriginalScore(data, q) : undefined;
+      if (originalScore !== undefined) {
+        children.push(new Paragraph({ children: [new TextRun({ text: `Nota ajustada pelo professor (nota da IA: ${formatNumber(originalScore)})`, italics: true, size: 16, color: "64748b" })] }));
+      }
+
+      const questionSkills = getQuestionSkills(q, answerKey);
+      if (questionSkills.length > 0) {
+        children.push(new Paragraph({ children: [new TextRun({ text: `Habilidades BNCC: ${questionSkills.join(', ')}`, size: 16, color: "64748b" })] }));
+      }
+
       // Enunciation
       children.push(new Paragraph({ children: [new TextRun({ text: "Enunciado:", bold: true })] }));
       children.push(new Paragraph({ text: q.questionText, spacing: { after: 100 } }));
@@ -191,6 +303,22 @@ export const exportToDOCX = (data: CorrectionResult) => {
       children.push(new Paragraph({ children: [new TextRun({ text: "Resposta do Aluno:", bold: true })] }));
       children.push(new Paragraph({ text: q.studentAnswer || "(Sem resposta)", italics: true, spacing: { after: 100 } }));
 
+      // Rubric
+      if (q.rubricScores && q.rubricScores.length > 0) {
+        children.push(new Paragraph({ children: [new TextRun({ text: "Rubrica:", bold: true })] }));
+        q.rubricScores.forEach(c => {
+          const level = c.levels[c.levelIndex]?.label || "-";
+          children.push(new Paragraph({
+            children: [
+              new TextRun({ text: `${c.name}: `, bold: true }),
+              new TextRun({ text: `${level} (${getCriterionPoints(c)} / ${getCriterionMaxPoints(c)} pts)` }),
+              ...(c.justification ? [new TextRun({ text: ` — ${c.justification}`, italics: true, color: "475569" })] : [])
+            ],
+            bullet: { level: 0 }
+          }));
+        });
+      }
+
       // Feedback
       children.push(new Paragraph({ children: [new TextRun({ text: "Feedback:", bold: true })] }));
       children.push(new Paragraph({ text: q.feedback || "", spacing: { after: 100 } }));
@@ -207,4 +335,377 @@ export const exportToDOCX = (data: CorrectionResult) => {
   Packer.toBlob(doc).then((blob) => {
     saveAs(blob, getFileName(data.studentName, 'docx'));
   });
-};
\ No newline at end of file
+};
+
+// --- Redação (ENEM) ---
+
+const getCompetenceTitle = (competence: number) =>
+  ENEM_COMPETENCES.find(c => c.number === competence)?.title || "";
+
+export const exportEssayToPDF = (data: EssayResult) => {
+  const doc = new jsPDF();
+  const margin = 20;
+  let y = 20;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - (margin * 2);
+
+  const checkPageBreak = (heightNeeded: number) => {
+    if (y + heightNeeded > doc.internal.pageSize.getHeight() - margin) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  const addText = (text: string, fontSize: number = 10, fontType: string = 'normal', color: string = '#000000') => {
+    doc.setFontSize(fontSize);
+    doc.setFont("helvetica", fontType);
+    doc.setTextColor(color);
+
+    const lines = doc.splitTextToSize(text, contentWidth);
+    checkPageBreak(lines.length * (fontSize * 0.4));
+    doc.text(lines, margin, y);
+    y += lines.length * (fontSize * 0.4) + 2;
+  };
+
+  // Header
+  addText("Correção de Redação (Modelo ENEM) - CorrectorAI", 18, 'bold', '#4f46e5');
+  y += 5;
+
+  addText(`Aluno: ${data.studentName}`, 12, 'bold');
+  if (data.schoolName) addText(`Escola: ${data.schoolName}`, 10);
+  if (data.className) addText(`Turma: ${data.className}`, 10);
+  if (data.teacherName) addText(`Professor: ${data.teacherName}`, 10);
+  if (data.examDate) addText(`Data: ${data.examDate}`, 10);
+  addText(`Tema: ${data.theme}`, 10, 'italic');
+
+  y += 5;
+  addText(`Nota Final: ${data.totalScore} / ${ESSAY_MAX_SCORE}`, 14, 'bold', data.totalScore / ESSAY_MAX_SCORE >= 0.7 ? '#16a34a' : '#dc2626');
+
+  if (data.zeroReason) {
+    addText(`Redação anulada: ${ZERO_REASON_LABELS[data.zeroReason]}`, 11, 'bold', '#dc2626');
+    if (data.zeroExplanation) addText(data.zeroExplanation, 10, 'normal', '#dc2626');
+  }
+  y += 8;
+
+  // Competences
+  addText("Competências", 12, 'bold');
+  y += 2;
+  data.competences.forEach(c => {
+    checkPageBreak(25);
+    addText(`Competência ${c.competence} - ${getCompetenceTitle(c.competence)}: ${c.score} / ${COMPETENCE_MAX_SCORE}`, 10, 'bold', '#334155');
+    addText(c.justification, 9, 'normal', '#475569');
+    y += 3;
+  });
+  y += 5;
+
+  // Summary
+  checkPageBreak(30);
+  addText("Comentário Geral", 12, 'bold');
+  addText(data.summary, 10, 'italic', '#475569');
+  y += 8;
+
+  // Transcription
+  doc.setDrawColor(200);
+  doc.line(margin, y, pageWidth - margin, y);
+  y += 8;
+  addText("Transcrição do Texto", 12, 'bold');
+  addText(data.transcription, 10, 'normal', '#1e293b');
+
+  doc.save(getFileName(`redacao_${data.studentName}`, 'pdf'));
+};
+
+export const exportEssayToDOCX = (data: EssayResult) => {
+  const children: any[] = [];
+
+  children.push(
+    new Paragraph({
+      text: "Correção de Redação (Modelo ENEM) - CorrectorAI",
+      heading: HeadingLevel.HEADING_1,
+      alignment: AlignmentType.CENTER,
+    })
+  );
+
+  const createInfoLine = (label: string, value: string) => new Paragraph({
+    children: [
+      new TextRun({ text: `${label}: `, bold: true }),
+      new TextRun({ text: value }),
+    ],
+    spacing: { after: 100 }
+  });
+
+  children.push(createInfoLine("Aluno", data.studentName));
+  if (data.schoolName) children.push(createInfoLine("Escola", data.schoolName));
+  if (data.className) children.push(createInfoLine("Turma", data.className));
+  if (data.teacherName) children.push(createInfoLine("Professor", data.teacherName));
+  if (data.examDate) children.push(createInfoLine("Data", data.examDate));
+  children.push(createInfoLine("Tema", data.theme));
+
+  children.push(
+    new Paragraph({
+      children: [
+        new TextRun({ text: "Nota Final: ", bold: true, size: 28 }),
+        new TextRun({ text: `${data.totalScore} / ${ESSAY_MAX_SCORE}`, bold: true, size: 28, color: data.totalScore / ESSAY_MAX_SCORE >= 0.7 ? "16a34a" : "dc2626" }),
+      ],
+      spacing: { before: 200, after: 200 }
+    })
+  );
+
+  if (data.zeroReason) {
+    children.push(new Paragraph({
+      children: [
+        new TextRun({ text: `Redação anulada: ${ZERO_REASON_LABELS[data.zeroReason]}`, bold: true, color: "dc2626" }),
+        ...(data.zeroExplanation ? [new TextRun({ text: ` — ${data.zeroExplanation}`, color: "dc2626" })] : [])
+      ],
+      spacing: { after: 200 }
+    }));
+  }
+
+  // Competences
+  children.push(new Paragraph({ text: "Competências", heading: HeadingLevel.HEADING_2 }));
+  data.competences.forEach(c => {
+    children.push(new Paragraph({
+      children: [
+        new TextRun({ text: `Competência ${c.competence} - ${getCompetenceTitle(c.competence)}: `, bold: true }),
+        new TextRun({ text: `${c.score} / ${COMPETENCE_MAX_SCORE}`, bold: true, color: "4f46e5" }),
+      ],
+      spacing: { before: 200 }
+    }));
+    children.push(new Paragraph({ text: c.justification, spacing: { after: 100 } }));
+  });
+
+  // Summary
+  children.push(new Paragraph({ text: "Comentário Geral", heading: HeadingLevel.HEADING_2 }));
+  children.push(new Paragraph({
+    children: [new TextRun({ text: data.summary, italics: true })],
+    spacing: { after: 400 }
+  }));
+
+  // Transcription (one paragraph per line break of the original text)
+  children.push(new Paragraph({ text: "Transcrição do Texto", heading: HeadingLevel.HEADING_2 }));
+  data.transcription.split('\n').forEach(line => {
+    children.push(new Paragraph({ text: line, spacing: { after: 80 } }));
+  });
+
+  const doc = new Document({
+    sections: [{
+      properties: {},
+      children: children,
+    }],
+  });
+
+  Packer.toBlob(doc).then((blob) => {
+    saveAs(blob, getFileName(`redacao_${data.studentName}`, 'docx'));
+  });
+};
+
+const getAlternativeLabel = (index: number) => `${String.fromCharCode(65 + index)})`;
+
+// Student sheet first; the answer key (for the teacher) starts on a new page so it can be removed before printing
+export const exportRecoveryWorksheetToPDF = (worksheet: RecoveryWorksheet, includeAnswerKey: boolean = true) => {
+  const doc = new jsPDF();
+  const margin = 20;
+  let y = 20;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - (margin * 2);
+
+  const checkPageBreak = (heightNeeded: number) => {
+    if (y + heightNeeded > doc.internal.pageSize.getHeight() - margin) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  const addText = (text: string, fontSize: number = 10, fontType: string = 'normal', color: string = '#000000', indent: number = 0) => {
+    doc.setFontSize(fontSize);
+    doc.setFont("helvetica", fontType);
+    doc.setTextColor(color);
+
+    const lines = doc.splitTextToSize(text, contentWidth - indent);
+    checkPageBreak(lines.length * (fontSize * 0.4));
+    doc.text(lines, margin + indent, y);
+    y += lines.length * (fontSize * 0.4) + 2;
+  };
+
+  // Header
+  addText("Lista de Recuperação - CorrectorAI", 18, 'bold', '#4f46e5');
+  y += 5;
+  addText(`Aluno: ${worksheet.studentName}`, 12, 'bold');
+  if (worksheet.schoolName) addText(`Escola: ${worksheet.schoolName}`, 10);
+  if (worksheet.className) addText(`Turma: ${worksheet.className}`, 10);
+  if (worksheet.teacherName) addText(`Professor: ${worksheet.teacherName}`, 10);
+  y += 8;
+
+  worksheet.questions.forEach((question, i) => {
+    checkPageBreak(30);
+    addText(`${i + 1}. ${question.questionText}`, 11, 'normal');
+    question.alternatives.forEach((alternative, j) => addText(`${getAlternativeLabel(j)} ${alternative}`, 10, 'normal', '#1e293b', 6));
+
+    // Lines for the student to answer open questions
+    if (question.alternatives.length === 0) {
+      doc.setDrawColor(200);
+      for (let line = 0; line < 3; line++) {
+        y += 7;
+        checkPageBreak(2);
+        doc.line(margin, y, pageWidth - margin, y);
+      }
+      y += 3;
+    }
+    y += 6;
+  });
+
+  if (includeAnswerKey) {
+    doc.addPage();
+    y = 20;
+    addText("Gabarito", 16, 'bold', '#4f46e5');
+    y += 4;
+    worksheet.questions.forEach((question, i) => {
+      checkPageBreak(25);
+      addText(`${i + 1}. ${question.answer}`, 11, 'bold', '#16a34a');
+      addText(`Reforça a questão ${question.sourceQuestionNumber} · ${question.skill} · ${RECOVERY_DIFFICULTY_LABELS[question.difficulty]}`, 8, 'normal', '#64748b');
+      if (question.explanation) addText(question.explanation, 9, 'normal', '#475569');
+      y += 4;
+    });
+  }
+
+  doc.save(getFileName(`recuperacao_${worksheet.studentName}`, 'pdf'));
+};
+
+export const exportRecoveryWorksheetToDOCX = (worksheet: RecoveryWorksheet, includeAnswerKey: boolean = true) => {
+  const children: any[] = [];
+
+  children.push(
+    new Paragraph({
+      text: "Lista de Recuperação - CorrectorAI",
+      heading: HeadingLevel.HEADING_1,
+      alignment: AlignmentType.CENTER,
+    })
+  );
+
+  const createInfoLine = (label: string, value: string) => new Paragraph({
+    children: [
+      new TextRun({ text: `${label}: `, bold: true }),
+      new TextRun({ text: value }),
+    ],
+    spacing: { after: 100 }
+  });
+
+  children.push(createInfoLine("Aluno", worksheet.studentName));
+  if (worksheet.schoolName) children.push(createInfoLine("Escola", worksheet.schoolName));
+  if (worksheet.className) children.push(createInfoLine("Turma", worksheet.className));
+  if (worksheet.teacherName) children.push(createInfoLine("Professor", worksheet.teacherName));
+
+  worksheet.questions.forEach((question, i) => {
+    children.push(new Paragraph({
+      children: [
+        new TextRun({ text: `${i + 1}. `, bold: true }),
+        new TextRun({ text: question.questionText }),
+      ],
+      spacing: { before: 300, after: 100 }
+    }));
+    question.alternatives.forEach((alternative, j) => {
+      children.push(new Paragraph({ text: `${getAlternativeLabel(j)} ${alternative}`, indent: { left: 360 }, spacing: { after: 60 } }));
+    });
+    // Lines for the student to answer open questions
+    if (question.alternatives.length === 0) {
+      for (let line = 0; line < 3; line++) {
+        children.push(new Paragraph({
+          text: "",
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, space: 1, color: "cbd5e1" } },
+          spacing: { before: 240 }
+        }));
+      }
+    }
+  });
+
+  if (includeAnswerKey) {
+    children.push(new Paragraph({ text: "Gabarito", heading: HeadingLevel.HEADING_1, pageBreakBefore: true }));
+    worksheet.questions.forEach((question, i) => {
+      children.push(new Paragraph({
+        children: [new TextRun({ text: `${i + 1}. ${question.answer}`, bold: true, color: "16a34a" })],
+        spacing: { before: 200 }
+      }));
+      children.push(new Paragraph({
+        children: [new TextRun({
+          text: `Reforça a questão ${question.sourceQuestionNumber} · ${question.skill} · ${RECOVERY_DIFFICULTY_LABELS[question.difficulty]}`,
+          size: 16,
+          color: "64748b"
+        })]
+      }));
+      if (question.explanation) children.push(new Paragraph({ text: question.explanation, spacing: { after: 100 } }));
+    });
+  }
+
+  const doc = new Document({
+    sections: [{
+      properties: {},
+      children: children,
+    }],
+  });
+
+  Packer.toBlob(doc).then((blob) => {
+    saveAs(blob, getFileName(`recuperacao_${worksheet.studentName}`, 'docx'));
+  });
+};
+
+// Printable bubble sheet; the geometry comes from omrService so the reader finds every bubble
+export const exportAnswerSheetTemplate = (layout: OmrSheetLayout) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const g = SHEET_GEOMETRY;
+  const questions = getSheetQuestions(layout);
+
+  // Registration marks
+  doc.setFillColor(0, 0, 0);
+  [[g.markLeft, g.markTop], [g.markRight, g.markTop], [g.markRight, g.markBottom], [g.markLeft, g.markBottom]].forEach(([x, y]) => {
+    doc.rect(x - g.markSize / 2, y - g.markSize / 2, g.markSize, g.markSize, 'F');
+  });
+
+  doc.setTextColor('#000000');
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(layout.title || 'Cartão-resposta', g.pageWidth / 2, 30, { align: 'center' });
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+  doc.setDrawColor(120, 120, 120);
+  doc.text("Nome:", 25, 44);
+  doc.line(39, 45, 185, 45);
+  doc.text("Turma:", 25, 54);
+  doc.line(40, 55, 100, 55);
+  doc.text("Data:", 110, 54);
+  doc.line(122, 55, 185, 55);
+
+  doc.setFontSize(8);
+  doc.setTextColor('#475569');
+  doc.text("Preencha completamente apenas um círculo por questão, com caneta preta ou azul. Não rasure e não dobre a folha.", g.pageWidth / 2, 64, { align: 'center' });
+
+  // Column headers with the alternative letters
+  const columns = new Set(questions.map(q => q.column));
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(8);
+  columns.forEach(column => {
+    const first = questions.find(q => q.column === column)!;
+    first.bubbles.forEach(bubble => {
+      doc.text(bubble.letter, bubble.x, g.gridTop - g.rowHeight / 2 - 1.5, { align: 'center' });
+    });
+  });
+
+  questions.forEach(question => {
+    const y = question.bubbles[0].y;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.setTextColor('#000000');
+    doc.text(question.questionNumber, question.bubbles[0].x - g.bubbleRadius - 2, y + 1.2, { align: 'right' });
+
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(0.3);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(5.5);
+    doc.setTextColor('#b4b4b4');
+    question.bubbles.forEach(bubble => {
+      doc.circle(bubble.x, bubble.y, g.bubbleRadius, 'S');
+      doc.text(bubble.letter, bubble.x, bubble.y + 0.8, { align: 'center' });
+    });
+  });
+
+  doc.save(`cartao_resposta_${questions.length}_questoes.pdf`);
+};
@@ -0,0 +1,63 @@
+import { FeedbackAudience, FeedbackLanguage, FeedbackStyle, FeedbackTone } from "../types";
+
+const STYLE_STORAGE_KEY = 'correctorai_feedback_style';
+
+export const FEEDBACK_LANGUAGE_LABELS: Record<FeedbackLanguage, string> = {
+  pt: 'Português',
+  en: 'Inglês',
+  es: 'Espanhol',
+};
+
+export const FEEDBACK_AUDIENCE_LABELS: Record<FeedbackAudience, string> = {
+  student: 'Aluno',
+  guardian: 'Responsável',
+};
+
+export const FEEDBACK_TONE_LABELS: Record<FeedbackTone, string> = {
+  standard: 'Padrão',
+  simple: 'Linguagem simples',
+  formal: 'Formal',
+};
+
+// Matches the behavior before the options existed: Portuguese, addressed to the student
+export const DEFAULT_FEEDBACK_STYLE: FeedbackStyle = {
+  language: 'pt',
+  audience: 'student',
+  tone: 'standard',
+};
+
+export const loadFeedbackStyle = (): FeedbackStyle => {
+  try {
+    const stored = localStorage.getItem(STYLE_STORAGE_KEY);
+    return stored ? { ...DEFAULT_FEEDBACK_STYLE, ...JSON.parse(stored) } : DEFAULT_FEEDBACK_STYLE;
+  } catch {
+    return DEFAULT_FEEDBACK_STYLE;
+  }
+};
+
+export const saveFeedbackStyle = (style: FeedbackStyle) => {
+  localStorage.setItem(STYLE_STORAGE_KEY, JSON.stringify(style));
+};
+
+const LANGUAGE_INSTRUCTIONS: Record<FeedbackLanguage, string> = {
+  pt: 'Escreva o feedback e o resumo em português do Brasil.',
+  en: 'Escreva o feedback e o resumo em INGLÊS (English), mesmo que a prova esteja em português. Não traduza as transcrições: enunciados e respostas do aluno ficam no idioma original.',
+  es: 'Escreva o feedback e o resumo em ESPANHOL (Español), mesmo que a prova esteja em português. Não traduza as transcrições: enunciados e respostas do aluno ficam no idioma original.',
+};
+
+const AUDIENCE_INSTRUCTIONS: Record<FeedbackAudience, string> = {
+  student: 'Dirija-se diretamente ao aluno (use "você", ou o equivalente no idioma escolhido, em vez de "o aluno").',
+  guardian: 'O texto será lido pelo responsável do aluno: refira-se ao aluno na terceira pessoa (ex.: "o estudante") e, quando houver erros, sugira como o responsável pode ajudar em casa.',
+};
+
+const TONE_INSTRUCTIONS: Record<FeedbackTone, string> = {
+  standard: 'Use um tom construtivo, encorajador e objetivo.',
+  simple: 'Use frases curtas e vocabulário simples, adequado a crianças em alfabetização; evite termos técnicos.',
+  formal: 'Use um tom formal e preciso, adequado ao ensino médio, com a terminologia própria da disciplina.',
+};
+
+// Instructions inserted in the prompts through the {{feedbackStyle}} variable
+export const formatFeedbackStyleForPrompt = (style: FeedbackStyle = DEFAULT_FEEDBACK_STYLE): string =>
+  [LANGUAGE_INSTRUCTIONS[style.language], AUDIENCE_INSTRUCTIONS[style.audience], TONE_INSTRUCTIONS[style.tone]]
+    .map(line => `- ${line}`)
+    .join('\n');
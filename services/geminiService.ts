@@ -1,5 +1,19 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { CorrectionResult, correctionSchema, QuestionResult } from "../types";
+import { Type } from "@google/genai";
+import { AnswerKey, answerKeyExtractionSchema, CorrectionResult, correctionSchema, EssayResult, essaySchema, ExtractedAnswerKeyItem, FeedbackStyle, MathCheck, PromptTemplate, QuestionResult, RecoveryWorksheet, recoveryWorksheetSchema, RubricCriterion, RubricCriterionScore, ValidationWarning } from "../types";
+import { findAnswerKeyItem, formatAnswerKeyForPrompt, normalizeExtractedItems } from "./answerKeyService";
+import { validateCorrectionResult } from "./validationService";
+import { getRubricMaxScore, scaleRubric, sumRubricScores } from "./rubricService";
+import { calculateTotals } from "./scoreService";
+import { ENEM_COMPETENCES, normalizeEssayResult, ZERO_REASON_LABELS } from "./essayService";
+import { getAIProvider, isAbortError, PageImage } from "./aiProvider";
+import { createCorrectionId, trackUsage, UsageScope } from "./usageService";
+import { buildPartialCorrection } from "./partialResultService";
+import { ConsensusRun, ConsensusSettings, mergeConsensusRuns } from "./consensusService";
+import { DEFAULT_PROMPT_TEMPLATE, renderPrompt, toTemplateRef } from "./promptTemplateService";
+import { DEFAULT_FEEDBACK_STYLE, formatFeedbackStyleForPrompt } from "./feedbackStyleService";
+import { applyMathCheck, applyMathChecks } from "./mathCheckService";
+import { normalizeSkillCodes } from "./skillService";
+import { DEFAULT_QUESTIONS_PER_MISTAKE, formatMissedQuestionsForPrompt, getMissedQuestions, normalizeRecoveryQuestions } from "./recoveryService";
 
 // Helper to convert File to Base64
 const fileToBase64 = (file: File): Promise<string> => {
@@ -16,158 +30,399 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+const filesToPageImages = async (pageFiles: File[]): Promise<PageImage[]> =>
+  Promise.all(pageFiles.map(async (file) => ({ mimeType: file.type, data: await fileToBase64(file) })));
+
+const getTotalBytes = (pageFiles: File[]) => pageFiles.reduce((sum, file) => sum + file.size, 0);
+
+export interface AnalysisOptions {
+  signal?: AbortSignal; // Cancels the request; the promise then rejects with an AbortError
+  onPartial?: (partial: CorrectionResult) => void; // Header and completed questions while the response streams
+  consensus?: ConsensusSettings; // When enabled the exam is graded several times and the runs are merged
+  template?: PromptTemplate; // Instructions for the subject / grade level; defaults to the built-in template
+  feedbackStyle?: FeedbackStyle; // Language, audience and tone of the feedback and summary
+}
+
 export const analyzeExam = async (
-  imageFile: File, 
-  context: string
+  pageFiles: File[], 
+  answerKey: AnswerKey,
+  options: AnalysisOptions = {}
 ): Promise<CorrectionResult> => {
+  const { signal, onPartial, consensus, template = DEFAULT_PROMPT_TEMPLATE, feedbackStyle = DEFAULT_FEEDBACK_STYLE } = options;
   
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing. Please check your environment configuration.");
+  if (pageFiles.length === 0) {
+    throw new Error("No exam pages provided.");
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const pages = await filesToPageImages(pageFiles);
 
-  const base64Image = await fileToBase64(imageFile);
+  const prompt = renderPrompt(template, 'analyzeExam', {
+    pageCount: pageFiles.length,
+    answerKey: formatAnswerKeyForPrompt(answerKey),
+    feedbackStyle: formatFeedbackStyleForPrompt(feedbackStyle),
+  });
 
-  const prompt = `
-    Você é um professor assistente especialista em correção de provas.
-    Sua tarefa é analisar a imagem desta prova escolar.
-    
-    Contexto/Gabarito fornecido pelo professor:
-    "${context}"
-    
-    Instruções de Análise:
-    1. **Cabeçalho**: Identifique e extraia Nome do aluno, Escola, Professor, Turma e Data, se visíveis.
-    2. **Transcrição Geral**: Transcreva o conteúdo textual no campo 'fullTranscription'.
-    
-    3. **Identificação de Itens (Questões e Contexto)**:
-       Percorra a prova sequencialmente.
-       - **Textos de Apoio / Enunciados Compartilhados**: Se encontrar um texto, tirinha, ou enunciado que serve de base para uma ou mais questões subsequentes (ex: "Leia o texto para responder às questões 1 a 3"), crie um item com **type: 'context'**.
-         - No campo 'questionText', coloque todo o conteúdo desse texto de apoio.
-         - No campo 'questionNumber', coloque algo como "Texto", "Instrução" ou deixe vazio se não houver numeração específica.
-       
-       - **Questões**: Para cada pergunta que exige resposta, crie um item com **type: 'question'**.
-         - 'questionNumber': Identifique o número (ex: "1", "2", "13 a", "13 b").
-         - 'questionText': O enunciado específico daquela questão.
-    
-    4. **OCR e Fidelidade (CRÍTICO)**:
-       - O OCR deve ser **extremamente fiel** a todos os símbolos matemáticos, químicos e físicos.
-       - **NÃO simplifique fórmulas**. Se a imagem mostra H₂O, transcreva H₂O (com subscrito Unicode), NUNCA H2O.
-       - Se a imagem mostra x², transcreva x² (com sobrescrito Unicode).
-       - Use caracteres Unicode para frações, integrais, setas, etc., conforme aparecem.
-
-    5. **Correção (apenas para type='question')**:
-       - Transcreva a RESPOSTA do aluno em 'studentAnswer' com a mesma fidelidade de símbolos usada no enunciado.
-       - Compare com o gabarito e atribua 'score', 'isCorrect' e 'feedback'.
-       - O feedback deve ser construtivo e em Português.
-       - **IMPORTANTE**: Dirija-se diretamente ao aluno no feedback (use "você" em vez de "o aluno").
-       - **IMPORTANTE**: Se a resposta do aluno estiver INCORRETA, o feedback DEVE indicar explicitamente qual seria a resposta correta no final.
-  `;
+  // Only notify when something visible changed (new header data or another finished question)
+  let lastPartialKey = '';
+  const handleText = (text: string) => {
+    const partial = buildPartialCorrection(text);
+    if (!partial || !onPartial) return;
+    const key = `${partial.studentName}|${partial.summary.length}|${partial.questions.length}`;
+    if (key === lastPartialKey) return;
+    lastPartialKey = key;
+    onPartial(partial);
+  };
+
+  const usage: UsageScope = { correctionId: createCorrectionId(), records: [] };
+
+  const runAnalysis = async (model: string | undefined, streaming: boolean): Promise<CorrectionResult> => {
+    const jsonText = await trackUsage('analyzeExam', usage, getTotalBytes(pageFiles), provider => provider.analyze({
+      operation: 'analyzeExam',
+      prompt,
+      pages,
+      schema: correctionSchema,
+      temperature: 0.2,
+      model,
+      signal,
+      onText: streaming && onPartial ? handleText : undefined,
+    }));
+    signal?.throwIfAborted();
+
+    const result = validateCorrectionResult(JSON.parse(jsonText) as CorrectionResult, answerKey);
+    return applyRubricGrading(result, answerKey, signal, usage, feedbackStyle);
+  };
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: imageFile.type,
-              data: base64Image
-            }
-          },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: correctionSchema,
-        temperature: 0.2,
+    let graded: CorrectionResult;
+    if (consensus?.enabled && consensus.runs > 1) {
+      // Runs go in parallel; only the first one streams its partial result
+      const models = Array.from({ length: consensus.runs }, (_, i) => consensus.models[i]?.trim() || undefined);
+      const settled = await Promise.allSettled(models.map((model, i) => runAnalysis(model, i === 0)));
+      signal?.throwIfAborted();
+
+      const runs: ConsensusRun[] = [];
+      settled.forEach((outcome, i) => {
+        if (outcome.status === 'fulfilled') {
+          runs.push({ model: models[i] || getAIProvider().model, result: outcome.value });
+        } else {
+          console.error(`Consensus run ${i + 1} failed:`, outcome.reason);
+        }
+      });
+      if (runs.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+      graded = { ...mergeConsensusRuns(runs, consensus.scoreTolerance), consensusRuns: runs.length };
+      if (runs.length < consensus.runs) {
+        graded.validationWarnings = [...(graded.validationWarnings || []), {
+          kind: 'flagged',
+          field: 'consensus',
+          message: `Apenas ${runs.length} de ${consensus.runs} correções do modo consenso foram concluídas.`,
+        }];
       }
-    });
+    } else {
+      graded = await runAnalysis(undefined, true);
+    }
+    signal?.throwIfAborted();
+    // Numeric and algebraic answers are re-checked deterministically against the key
+    graded = applyMathChecks(graded, answerKey);
+    return { ...graded, id: usage.correctionId, usage: usage.records, promptTemplate: toTemplateRef(template), feedbackStyle };
+
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Error analyzing exam:", error);
+    throw error;
+  }
+};
+
+// Reads the questions of a blank exam (or the teacher's filled copy) into a draft answer key for the teacher to confirm
+export const extractAnswerKey = async (
+  pageFiles: File[],
+  signal?: AbortSignal
+): Promise<ExtractedAnswerKeyItem[]> => {
+  if (pageFiles.length === 0) {
+    throw new Error("No exam pages provided.");
+  }
+
+  const pages = await filesToPageImages(pageFiles);
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response from AI");
+  const prompt = `
+    Você é um professor especialista em elaborar gabaritos.
+    As imagens mostram as ${pageFiles.length} página(s) de uma prova, na ordem correta. Pode ser a prova em branco
+    ou a cópia do professor com as respostas marcadas.
 
-    const result: CorrectionResult = JSON.parse(jsonText);
-    return result;
+    Tarefa: liste TODAS as questões que exigem resposta (ignore textos de apoio e instruções gerais).
+    Para cada questão:
+    1. 'questionNumber': o número como aparece na prova (ex: "1", "2", "13 a").
+    2. 'type': 'multiple_choice' se houver alternativas; 'numeric' se a resposta for um número ou expressão matemática;
+       'short_answer' para respostas curtas; 'essay' para respostas dissertativas longas.
+    3. 'questionText' e 'alternatives': o enunciado e as alternativas (sem a letra), com fidelidade aos símbolos (x², H₂O, ½).
+    4. 'expectedAnswer': a resposta correta. Nas questões de múltipla escolha, APENAS a letra (ex: "C").
+       - Se a resposta estiver marcada ou escrita na prova (cópia do professor), use-a e preencha 'answerSource' = 'marked'.
+       - Caso contrário, resolva a questão você mesmo e preencha 'answerSource' = 'proposed'.
+       - Nas dissertativas, descreva os pontos que uma resposta completa deve conter.
+    5. 'acceptedVariants': formas equivalentes aceitáveis (ex: "0,5" e "1/2"), se houver.
+    6. 'maxScore': o valor da questão se estiver indicado na prova (ex: "(2,0 pontos)"); caso contrário, 1.
+       'skills': os códigos das habilidades da BNCC que a questão avalia (ex: EF06MA03), se tiver certeza.
+    7. 'confidence': de 0 a 1, o quanto você tem certeza da resposta correta. Seja honesto: o professor confere
+       manualmente as respostas com confiança baixa.
+  `;
 
+  try {
+    const jsonText = await trackUsage('extractAnswerKey', {}, getTotalBytes(pageFiles), provider => provider.analyze({
+      operation: 'extractAnswerKey',
+      prompt,
+      pages,
+      schema: answerKeyExtractionSchema,
+      temperature: 0.1,
+      signal,
+    }));
+    signal?.throwIfAborted();
+
+    const parsed = JSON.parse(jsonText);
+    return normalizeExtractedItems(Array.isArray(parsed.questions) ? parsed.questions : [])
+      .map(item => ({ ...item, skills: normalizeSkillCodes(item.skills) }));
   } catch (error) {
-    console.error("Error analyzing exam:", error);
+    if (!isAbortError(error)) console.error("Error extracting answer key:", error);
     throw error;
   }
 };
 
 export const reevaluateQuestion = async (
   question: QuestionResult,
-  context: string
-): Promise<{ isCorrect: boolean; score: number; feedback: string }> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing.");
+  answerKey: AnswerKey,
+  usage: UsageScope = {},
+  template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE,
+  feedbackStyle: FeedbackStyle = DEFAULT_FEEDBACK_STYLE
+): Promise<{ isCorrect: boolean; score: number; feedback: string; mathCheck?: MathCheck }> => {
+  // The teacher's key is authoritative for the question value
+  const keyItem = findAnswerKeyItem(answerKey, question.questionNumber);
+  const maxScore = keyItem ? keyItem.maxScore : question.maxScore;
+
+  const prompt = renderPrompt(template, 'reevaluateQuestion', {
+    answerKey: formatAnswerKeyForPrompt(answerKey, question.questionNumber),
+    questionText: question.questionText,
+    alternatives: JSON.stringify(question.alternatives || []),
+    studentAnswer: question.studentAnswer,
+    maxScore,
+    feedbackStyle: formatFeedbackStyleForPrompt(feedbackStyle),
+  });
+
+  const reevalSchema = {
+    type: Type.OBJECT,
+    properties: {
+      isCorrect: { type: Type.BOOLEAN },
+      score: { type: Type.NUMBER },
+      feedback: { type: Type.STRING }
+    },
+    required: ["isCorrect", "score", "feedback"]
+  };
+
+  try {
+    const jsonText = await trackUsage('reevaluateQuestion', usage, 0, provider => provider.reevaluate({
+      operation: 'reevaluateQuestion',
+      prompt,
+      schema: reevalSchema,
+      temperature: 0.2,
+    }));
+
+    const reevaluation = JSON.parse(jsonText);
+    if (typeof maxScore === 'number') {
+      reevaluation.score = Math.min(Math.max(reevaluation.score, 0), maxScore);
+    }
+    const { question: checked } = applyMathCheck({ ...question, ...reevaluation, maxScore }, answerKey);
+    return { isCorrect: !!checked.isCorrect, score: checked.score ?? reevaluation.score, feedback: reevaluation.feedback, mathCheck: checked.mathCheck };
+  } catch (error) {
+    console.error("Error reevaluating question:", error);
+    throw error;
+  }
+};
+
+export const analyzeEssay = async (
+  pageFiles: File[],
+  theme: string,
+  instructions: string,
+  signal?: AbortSignal
+): Promise<EssayResult> => {
+  if (pageFiles.length === 0) {
+    throw new Error("No essay pages provided.");
   }
-  
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  const pages = await filesToPageImages(pageFiles);
+
+  const competencesText = ENEM_COMPETENCES.map(c => `       ${c.number}. ${c.title}: ${c.description}`).join('\n');
+  const zeroReasonsText = Object.entries(ZERO_REASON_LABELS).map(([key, label]) => `       - '${key}': ${label}`).join('\n');
 
   const prompt = `
-    Atue como um corretor de provas escolar.
-    Você deve reavaliar uma questão específica com base nos dados atualizados (que podem ter sido editados pelo professor).
+    Você é um corretor experiente de redações no modelo do ENEM.
+    Sua tarefa é corrigir a redação manuscrita nas imagens (${pageFiles.length} página(s), na ordem correta).
+
+    Tema da redação: "${theme || 'Não informado — identifique o tema pela folha de redação ou pelo próprio texto.'}"
+    ${instructions.trim() ? `Instruções adicionais do professor: "${instructions.trim()}"` : ''}
+
+    Instruções:
+    1. **Cabeçalho**: Identifique Nome do aluno, Escola, Professor, Turma e Data, se visíveis.
+    2. **Transcrição**: Transcreva o texto manuscrito em 'transcription' com fidelidade total, preservando parágrafos e os desvios do aluno (NÃO corrija ortografia).
+    3. **Competências**: Avalie as cinco competências do ENEM, cada uma com nota 0, 40, 80, 120, 160 ou 200:
+${competencesText}
+       Para cada competência, justifique a nota citando trechos do texto.
+    4. **Nota zero**: Verifique se a redação se enquadra em alguma condição de nota zero. Se sim, preencha 'zeroReason' com um dos códigos abaixo e explique em 'zeroExplanation':
+${zeroReasonsText}
+    5. **Comentário geral**: Escreva em 'summary' um comentário construtivo em Português, dirigindo-se diretamente ao aluno (use "você").
+  `;
 
-    Contexto/Gabarito Original da Prova:
-    "${context}"
+  const usage: UsageScope = { correctionId: createCorrectionId(), records: [] };
 
-    Dados da Questão para Reavaliação:
+  try {
+    const jsonText = await trackUsage('analyzeEssay', usage, getTotalBytes(pageFiles), provider => provider.analyze({
+      operation: 'analyzeEssay',
+      prompt,
+      pages,
+      schema: essaySchema,
+      temperature: 0.2,
+      signal,
+    }));
+    signal?.throwIfAborted();
+
+    const essay = normalizeEssayResult(JSON.parse(jsonText) as EssayResult);
+    return { ...essay, id: usage.correctionId, usage: usage.records };
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Error analyzing essay:", error);
+    throw error;
+  }
+};
+
+// Second pass: questions with a rubric in the answer key are graded criterion by criterion
+const applyRubricGrading = async (
+  result: CorrectionResult,
+  answerKey: AnswerKey,
+  signal: AbortSignal | undefined,
+  usage: UsageScope,
+  feedbackStyle: FeedbackStyle
+): Promise<CorrectionResult> => {
+  const warnings: ValidationWarning[] = [];
+  const questions = await Promise.all(result.questions.map(async (q) => {
+    if (q.type === 'context') return q;
+    const keyItem = findAnswerKeyItem(answerKey, q.questionNumber);
+    if (!keyItem?.rubric || keyItem.rubric.length === 0) return q;
+
+    // The question value in the key stays authoritative: the rubric points are scaled to it
+    const criteria = scaleRubric(keyItem.rubric, keyItem.maxScore);
+    const rubricMax = getRubricMaxScore(keyItem.rubric);
+    try {
+      const graded = await gradeWithRubric(q, criteria, answerKey, signal, usage, feedbackStyle);
+      if (criteria !== keyItem.rubric) {
+        warnings.push({
+          kind: 'corrected',
+          questionNumber: q.questionNumber,
+          field: 'rubric',
+          message: `A rubrica soma ${rubricMax} pts; os níveis foram ajustados proporcionalmente ao valor da questão no gabarito (${keyItem.maxScore}).`,
+          originalValue: rubricMax,
+          correctedValue: keyItem.maxScore,
+        });
+      }
+      return { ...q, ...graded };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // Keep the holistic grade if the rubric pass fails
+      console.error(`Error grading question ${q.questionNumber} with rubric:`, error);
+      return q;
+    }
+  }));
+
+  const validationWarnings = [...(result.validationWarnings || []), ...warnings];
+  return { ...result, questions, ...calculateTotals(questions), validationWarnings };
+};
+
+export const gradeWithRubric = async (
+  question: QuestionResult,
+  criteria: RubricCriterion[],
+  answerKey: AnswerKey,
+  signal?: AbortSignal,
+  usage: UsageScope = {},
+  feedbackStyle: FeedbackStyle = DEFAULT_FEEDBACK_STYLE
+): Promise<{ rubricScores: RubricCriterionScore[]; score: number; maxScore: number; isCorrect: boolean; feedback: string }> => {
+  const rubricText = criteria.map(c => {
+    const levels = c.levels.map((l, i) => `      ${i}: "${l.label}" (${l.points} pts)`).join('\n');
+    return `    - Critério "${c.name}" (id: ${c.id}):\n${levels}`;
+  }).join('\n');
+
+  const prompt = `
+    Atue como um corretor de provas escolar avaliando uma resposta discursiva com base em uma RUBRICA definida pelo professor.
+
+    Gabarito da Prova:
+    ${formatAnswerKeyForPrompt(answerKey, question.questionNumber)}
+
+    Dados da Questão:
     - Enunciado: "${question.questionText}"
-    - Alternativas: ${JSON.stringify(question.alternatives || [])}
     - Resposta do Aluno (transcrita): "${question.studentAnswer}"
-    - Nota Máxima da Questão: ${question.maxScore}
+
+    Rubrica (para cada critério, escolha o índice do nível alcançado):
+${rubricText}
 
     Instruções:
-    1. Analise se a 'Resposta do Aluno' está correta, considerando o Enunciado, as Alternativas e o Contexto.
-    2. Determine se está correta (isCorrect), a nota a ser dada (score) e forneça um feedback explicativo (feedback).
-    3. Se a resposta for parcialmente correta, ajuste a nota proporcionalmente, mas 'isCorrect' pode ser falso se não for totalmente correta, ou verdadeiro se for aceitável. Use seu julgamento pedagógico.
-    4. O feedback deve justificar a nota e dirigir-se diretamente ao aluno (use "você" em vez de "o aluno").
-    5. **IMPORTANTE**: Se a resposta do aluno estiver INCORRETA, o feedback DEVE indicar explicitamente qual seria a resposta correta no final.
+    1. Para CADA critério da rubrica, escolha exatamente um nível ('levelIndex') e escreva uma justificativa curta ('justification') baseada em trechos da resposta.
+    2. Use o 'criterionId' exatamente como informado.
+    3. Escreva um 'feedback' geral construtivo, seguindo este estilo:
+    ${formatFeedbackStyleForPrompt(feedbackStyle)}
 
     Responda APENAS com o JSON.
   `;
 
-  const reevalSchema = {
+  const rubricSchema = {
     type: Type.OBJECT,
     properties: {
-      isCorrect: { type: Type.BOOLEAN },
-      score: { type: Type.NUMBER },
+      criteria: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            criterionId: { type: Type.STRING },
+            levelIndex: { type: Type.INTEGER },
+            justification: { type: Type.STRING }
+          },
+          required: ["criterionId", "levelIndex", "justification"]
+        }
+      },
       feedback: { type: Type.STRING }
     },
-    required: ["isCorrect", "score", "feedback"]
+    required: ["criteria", "feedback"]
   };
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { text: prompt },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: reevalSchema,
-        temperature: 0.2,
-      }
+    const jsonText = await trackUsage('gradeWithRubric', usage, 0, provider => provider.reevaluate({
+      operation: 'gradeWithRubric',
+      prompt,
+      schema: rubricSchema,
+      temperature: 0.2,
+      signal,
+    }));
+
+    const graded: { criteria: { criterionId: string; levelIndex: number; justification: string }[]; feedback: string } = JSON.parse(jsonText);
+
+    // Build the scores from the teacher's rubric, so points never come from the model
+    const rubricScores: RubricCriterionScore[] = criteria.map(c => {
+      const match = graded.criteria.find(g => g.criterionId === c.id);
+      const levelIndex = match ? Math.min(Math.max(match.levelIndex, 0), c.levels.length - 1) : 0;
+      return {
+        criterionId: c.id,
+        name: c.name,
+        levels: c.levels,
+        levelIndex,
+        justification: match?.justification || ""
+      };
     });
 
-    if (!response.text) throw new Error("No response from AI");
-    return JSON.parse(response.text);
+    const score = sumRubricScores(rubricScores);
+    const maxScore = getRubricMaxScore(criteria);
+    return { rubricScores, score, maxScore, isCorrect: score >= maxScore, feedback: graded.feedback };
   } catch (error) {
-    console.error("Error reevaluating question:", error);
+    console.error("Error grading with rubric:", error);
     throw error;
   }
 };
 
 export const regenerateSummary = async (
-  currentData: CorrectionResult
+  currentData: CorrectionResult,
+  template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE,
+  feedbackStyle: FeedbackStyle = currentData.feedbackStyle || DEFAULT_FEEDBACK_STYLE
 ): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing.");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
   // Simplify questions to essential data for summary generation to save tokens/context
   const simplifiedQuestions = currentData.questions.map(q => {
       if (q.type === 'context') return null;
@@ -181,39 +436,77 @@ export const regenerateSummary = async (
       };
   }).filter(Boolean);
 
+  const prompt = renderPrompt(template, 'regenerateSummary', {
+    studentName: currentData.studentName,
+    totalScore: currentData.totalScore,
+    maxTotalScore: currentData.maxTotalScore,
+    questions: JSON.stringify(simplifiedQuestions),
+    feedbackStyle: formatFeedbackStyleForPrompt(feedbackStyle),
+  });
+
+  try {
+    return await trackUsage('regenerateSummary', { correctionId: currentData.id }, 0, provider => provider.summarize({
+      operation: 'regenerateSummary',
+      prompt,
+      temperature: 0.3,
+    }));
+  } catch (error) {
+    console.error("Error regenerating summary:", error);
+    return "";
+  }
+};
+
+// New practice questions on the skills of the questions the student missed, with their answer key
+export const generateRecoveryWorksheet = async (
+  data: CorrectionResult,
+  answerKey: AnswerKey,
+  questionsPerMistake: number = DEFAULT_QUESTIONS_PER_MISTAKE,
+  feedbackStyle: FeedbackStyle = data.feedbackStyle || DEFAULT_FEEDBACK_STYLE
+): Promise<RecoveryWorksheet> => {
+  const missed = getMissedQuestions(data);
+  if (missed.length === 0) {
+    throw new Error("The correction has no missed questions.");
+  }
+
   const prompt = `
-    Atue como um professor experiente corrigindo uma prova.
-    
-    Tarefa: Reescreva o "Resumo da Análise" com base nos dados atualizados da prova. 
-    Algumas notas, respostas ou avaliações podem ter mudado. O resumo deve refletir o estado ATUAL.
-
-    Dados do Aluno:
-    - Nome: ${currentData.studentName}
-    - Nota Final: ${currentData.totalScore} de ${currentData.maxTotalScore}
-
-    Questões:
-    ${JSON.stringify(simplifiedQuestions)}
-
-    Instruções para o Resumo:
-    1. Escreva um texto corrido (parágrafo único ou dois curtos).
-    2. Analise o desempenho do aluno considerando os acertos e erros.
-    3. Seja encorajador mas objetivo.
-    4. Se a nota for alta, parabenize. Se for baixa, sugira atenção.
-    5. Responda APENAS com o texto do resumo.
+    Você é um professor elaborando uma lista de recuperação personalizada.
+    O aluno errou (total ou parcialmente) as questões abaixo:
+
+    ${formatMissedQuestionsForPrompt(missed, answerKey)}
+
+    Tarefa: para CADA questão acima, crie ${questionsPerMistake} questão(ões) NOVA(S) de prática.
+    1. Trabalhe a mesma habilidade e o mesmo conteúdo, com a mesma dificuldade e o mesmo formato da original
+       (múltipla escolha continua múltipla escolha). Não repita o enunciado nem os números da prova.
+    2. Use o erro do aluno para escolher o foco: se ele errou um passo específico, as novas questões devem exercitá-lo.
+    3. Preencha 'sourceQuestionNumber' com o número da questão original e 'skill' com a habilidade trabalhada.
+    4. 'answer': nas questões de múltipla escolha, APENAS a letra correta; nas demais, a resposta esperada.
+    5. 'explanation': a resolução passo a passo, para o gabarito.
+    6. Mantenha a fidelidade dos símbolos (x², H₂O, ½).
+
+    A lista é entregue ao próprio aluno:
+    ${formatFeedbackStyleForPrompt({ ...feedbackStyle, audience: 'student' })}
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { text: prompt },
-      config: {
-        temperature: 0.3,
-      }
-    });
+    const jsonText = await trackUsage('generateRecoveryWorksheet', { correctionId: data.id }, 0, provider => provider.reevaluate({
+      operation: 'generateRecoveryWorksheet',
+      prompt,
+      schema: recoveryWorksheetSchema,
+      temperature: 0.7,
+    }));
 
-    return response.text || "";
+    const parsed = JSON.parse(jsonText);
+    return {
+      correctionId: data.id,
+      studentName: data.studentName,
+      schoolName: data.schoolName,
+      className: data.className,
+      teacherName: data.teacherName,
+      createdAt: new Date().toISOString(),
+      questions: normalizeRecoveryQuestions(Array.isArray(parsed.questions) ? parsed.questions : []),
+    };
   } catch (error) {
-    console.error("Error regenerating summary:", error);
-    return "";
+    console.error("Error generating recovery worksheet:", error);
+    throw error;
   }
 };
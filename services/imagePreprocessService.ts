@@ -0,0 +1,271 @@
+import { ExamPage, NormalizedPoint, PageCorners } from "../types";
+import { createCanvas, fileToCanvas, otsuThreshold, scaleCanvas, squareToQuad, toGray } from "./imageUtils";
+
+export interface PreprocessOptions {
+  enabled: boolean;
+  autoCrop: boolean; // Detect the sheet and correct the perspective
+  deskew: boolean; // Straighten slightly rotated text lines
+  enhanceContrast: boolean;
+  binarize: boolean; // Pure black and white (helps faint pencil, loses colored marks)
+  maxDimension: number; // Longest side of the image sent to the model, in pixels
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  enabled: true,
+  autoCrop: true,
+  deskew: true,
+  enhanceContrast: true,
+  binarize: false,
+  maxDimension: 2048,
+};
+
+export const MAX_DIMENSION_OPTIONS = [1280, 1600, 2048, 2560, 3200];
+
+export const FULL_PAGE_CORNERS: PageCorners = [
+  { x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 },
+];
+
+const OPTIONS_STORAGE_KEY = 'correctorai_preprocess_options';
+// Longest side used for page detection and skew estimation (speed over precision)
+const ANALYSIS_SIZE = 480;
+const MAX_SKEW_DEGREES = 5;
+const SKEW_STEP_DEGREES = 0.5;
+const OUTPUT_QUALITY = 0.9;
+
+export const loadPreprocessOptions = (): PreprocessOptions => {
+  try {
+    const stored = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(stored) } : DEFAULT_PREPROCESS_OPTIONS;
+  } catch {
+    return DEFAULT_PREPROCESS_OPTIONS;
+  }
+};
+
+export const savePreprocessOptions = (options: PreprocessOptions) => {
+  localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+};
+
+const quadArea = (corners: PageCorners) => {
+  let area = 0;
+  corners.forEach((p, i) => {
+    const next = corners[(i + 1) % 4];
+    area += p.x * next.y - next.x * p.y;
+  });
+  return Math.abs(area) / 2;
+};
+
+// Finds the sheet as the extreme light pixels along the diagonals; falls back to the full image
+const detectPageCorners = (source: HTMLCanvasElement): PageCorners => {
+  const small = scaleCanvas(source, Math.min(1, ANALYSIS_SIZE / Math.max(source.width, source.height)));
+  const { width, height } = small;
+  const gray = toGray(small.getContext('2d')!.getImageData(0, 0, width, height).data);
+  const threshold = otsuThreshold(gray);
+
+  let tl = { x: 0, y: 0, v: Infinity }, br = { x: 0, y: 0, v: -Infinity };
+  let tr = { x: 0, y: 0, v: -Infinity }, bl = { x: 0, y: 0, v: Infinity };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] <= threshold) continue;
+      const sum = x + y, diff = x - y;
+      if (sum < tl.v) tl = { x, y, v: sum };
+      if (sum > br.v) br = { x, y, v: sum };
+      if (diff > tr.v) tr = { x, y, v: diff };
+      if (diff < bl.v) bl = { x, y, v: diff };
+    }
+  }
+  if (!isFinite(tl.v)) return FULL_PAGE_CORNERS;
+
+  const toPoint = (p: { x: number; y: number }): NormalizedPoint => ({ x: p.x / (width - 1), y: p.y / (height - 1) });
+  const corners: PageCorners = [toPoint(tl), toPoint(tr), toPoint(br), toPoint(bl)];
+
+  // A tiny or degenerate outline means the paper could not be told apart from the background
+  const area = quadArea(corners);
+  if (area < 0.25) return FULL_PAGE_CORNERS;
+  return corners;
+};
+
+const isFullPage = (corners: PageCorners) =>
+  corners.every((p, i) => Math.abs(p.x - FULL_PAGE_CORNERS[i].x) < 0.01 && Math.abs(p.y - FULL_PAGE_CORNERS[i].y) < 0.01);
+
+const warpPerspective = (source: HTMLCanvasElement, corners: PageCorners, maxDimension: number) => {
+  const quad = corners.map(p => ({ x: p.x * (source.width - 1), y: p.y * (source.height - 1) }));
+  const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+  let width = Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2]));
+  let height = Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2]));
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  width = Math.round(width * scale);
+  height = Math.round(height * scale);
+
+  const src = source.getContext('2d')!.getImageData(0, 0, source.width, source.height);
+  const { canvas, ctx } = createCanvas(width, height);
+  const out = ctx.createImageData(canvas.width, canvas.height);
+  const map = squareToQuad(quad);
+
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      const p = map(x / (canvas.width - 1 || 1), y / (canvas.height - 1 || 1));
+      // Bilinear sampling keeps thin pen strokes readable
+      const x0 = Math.min(Math.max(Math.floor(p.x), 0), src.width - 1);
+      const y0 = Math.min(Math.max(Math.floor(p.y), 0), src.height - 1);
+      const x1 = Math.min(x0 + 1, src.width - 1), y1 = Math.min(y0 + 1, src.height - 1);
+      const fx = Math.min(Math.max(p.x - x0, 0), 1), fy = Math.min(Math.max(p.y - y0, 0), 1);
+      const o = (y * canvas.width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const top = src.data[(y0 * src.width + x0) * 4 + ch] * (1 - fx) + src.data[(y0 * src.width + x1) * 4 + ch] * fx;
+        const bottom = src.data[(y1 * src.width + x0) * 4 + ch] * (1 - fx) + src.data[(y1 * src.width + x1) * 4 + ch] * fx;
+        out.data[o + ch] = top * (1 - fy) + bottom * fy;
+      }
+      out.data[o + 3] = 255;
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
+
+// Projection profile: the angle at which dark pixels pile up in the fewest rows is the text angle
+const estimateSkew = (source: HTMLCanvasElement) => {
+  const small = scaleCanvas(source, Math.min(1, ANALYSIS_SIZE / Math.max(source.width, source.height)));
+  const { width, height } = small;
+  const gray = toGray(small.getContext('2d')!.getImageData(0, 0, width, height).data);
+  const threshold = otsuThreshold(gray);
+
+  const ink: { x: number; y: number }[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] < threshold) ink.push({ x: x - width / 2, y: y - height / 2 });
+    }
+  }
+  if (ink.length < 50) return 0;
+
+  let bestAngle = 0, bestScore = -1;
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const rad = angle * Math.PI / 180;
+    const sin = Math.sin(rad), cos = Math.cos(rad);
+    const rows = new Map<number, number>();
+    ink.forEach(p => {
+      const row = Math.round(p.y * cos - p.x * sin);
+      rows.set(row, (rows.get(row) || 0) + 1);
+    });
+    let score = 0;
+    rows.forEach(count => { score += count * count; });
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+};
+
+const rotateCanvas = (source: HTMLCanvasElement, degrees: number) => {
+  const { canvas, ctx } = createCanvas(source.width, source.height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(-degrees * Math.PI / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+// Stretches the 1st-99th luminance percentiles to the full range, optionally thresholding to black/white
+const adjustTones = (canvas: HTMLCanvasElement, enhanceContrast: boolean, binarize: boolean) => {
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const gray = toGray(data);
+
+  if (binarize) {
+    const threshold = otsuThreshold(gray);
+    for (let i = 0; i < gray.length; i++) {
+      const v = gray[i] > threshold ? 255 : 0;
+      data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = v;
+    }
+  } else if (enhanceContrast) {
+    const histogram = new Array(256).fill(0);
+    gray.forEach(v => histogram[v]++);
+    const percentile = (p: number) => {
+      let count = 0;
+      for (let i = 0; i < 256; i++) {
+        count += histogram[i];
+        if (count >= gray.length * p) return i;
+      }
+      return 255;
+    };
+    const low = percentile(0.01), high = percentile(0.99);
+    if (high - low < 10) return;
+    const factor = 255 / (high - low);
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = (data[i] - low) * factor;
+      data[i + 1] = (data[i + 1] - low) * factor;
+      data[i + 2] = (data[i + 2] - low) * factor;
+    }
+  } else {
+    return;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/**
+ * Cleans up a phone photo before analysis: EXIF rotation, perspective crop to the sheet,
+ * deskew, tone adjustment and downscaling. `manualCorners` overrides the automatic detection.
+ */
+export const preprocessImage = async (
+  file: File,
+  options: PreprocessOptions,
+  manualCorners?: PageCorners
+): Promise<{ file: File; corners: PageCorners }> => {
+  // Work on a copy slightly larger than the output so the warp has detail to sample from
+  const source = await fileToCanvas(file, options.maxDimension * 1.5);
+
+  const corners = manualCorners || (options.autoCrop ? detectPageCorners(source) : FULL_PAGE_CORNERS);
+  let output = isFullPage(corners)
+    ? scaleCanvas(source, Math.min(1, options.maxDimension / Math.max(source.width, source.height)))
+    : warpPerspective(source, corners, options.maxDimension);
+
+  // A manual outline already defines the orientation the teacher wants
+  if (options.deskew && !manualCorners) {
+    const skew = estimateSkew(output);
+    if (Math.abs(skew) >= SKEW_STEP_DEGREES) output = rotateCanvas(output, skew);
+  }
+
+  adjustTones(output, options.enhanceContrast, options.binarize);
+
+  const blob = await new Promise<Blob | null>((resolve) => output.toBlob(resolve, 'image/jpeg', OUTPUT_QUALITY));
+  if (!blob) throw new Error(`Failed to preprocess ${file.name}`);
+
+  const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+  return { file: new File([blob], name, { type: 'image/jpeg' }), corners };
+};
+
+// Applies the preprocessing to a page, keeping the original upload so it can be re-cropped later
+export const preprocessPage = async (
+  page: ExamPage,
+  options: PreprocessOptions,
+  manualCorners?: PageCorners
+): Promise<ExamPage> => {
+  const original = page.original || { file: page.file, previewUrl: page.previewUrl };
+  if (!options.enabled && !manualCorners) {
+    if (page.original) URL.revokeObjectURL(page.previewUrl);
+    return { id: page.id, file: original.file, previewUrl: original.previewUrl };
+  }
+
+  // With preprocessing off, a manual crop only straightens the sheet
+  const effectiveOptions = options.enabled ? options : { ...options, enhanceContrast: false, binarize: false };
+  const processed = await preprocessImage(original.file, effectiveOptions, manualCorners);
+  if (page.original) URL.revokeObjectURL(page.previewUrl);
+  return {
+    id: page.id,
+    file: processed.file,
+    previewUrl: URL.createObjectURL(processed.file),
+    original,
+    corners: processed.corners,
+  };
+};
+
+export const preprocessPages = async (pages: ExamPage[], options: PreprocessOptions): Promise<ExamPage[]> => {
+  const processed: ExamPage[] = [];
+  // Sequential on purpose: full-resolution photos use a lot of memory on phones
+  for (const page of pages) {
+    processed.push(await preprocessPage(page, options));
+  }
+  return processed;
+};
@@ -0,0 +1,85 @@
+// Canvas and geometry helpers shared by the image preprocessing and the bubble-sheet reader
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  return { canvas, ctx };
+};
+
+export const scaleCanvas = (source: HTMLCanvasElement, scale: number) => {
+  const { canvas, ctx } = createCanvas(source.width * scale, source.height * scale);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const toGray = (data: Uint8ClampedArray) => {
+  const gray = new Uint8Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+// Otsu's method: threshold that best separates dark (ink/background) from light (paper) pixels
+export const otsuThreshold = (gray: Uint8Array) => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0, weightBackground = 0, best = 0, threshold = 128;
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+    const weightForeground = gray.length - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = i;
+    }
+  }
+  return threshold;
+};
+
+// Projective map from the unit square to the quad (Heckbert), used to sample the source for each output pixel
+export const squareToQuad = (q: { x: number; y: number }[]) => {
+  const [p0, p1, p2, p3] = q;
+  const sx = p0.x - p1.x + p2.x - p3.x;
+  const sy = p0.y - p1.y + p2.y - p3.y;
+  let a, b, c, d, e, f, g, h;
+  if (Math.abs(sx) < 1e-9 && Math.abs(sy) < 1e-9) {
+    a = p1.x - p0.x; b = p3.x - p0.x; c = p0.x;
+    d = p1.y - p0.y; e = p3.y - p0.y; f = p0.y;
+    g = 0; h = 0;
+  } else {
+    const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dy1 = p1.y - p2.y, dy2 = p3.y - p2.y;
+    const den = dx1 * dy2 - dx2 * dy1;
+    g = (sx * dy2 - dx2 * sy) / den;
+    h = (dx1 * sy - sx * dy1) / den;
+    a = p1.x - p0.x + g * p1.x; b = p3.x - p0.x + h * p3.x; c = p0.x;
+    d = p1.y - p0.y + g * p1.y; e = p3.y - p0.y + h * p3.y; f = p0.y;
+  }
+  return (u: number, v: number) => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+// Decodes an image file into a canvas no larger than `maxSide`; 'from-image' applies the EXIF orientation of phone photos
+export const fileToCanvas = async (file: File, maxSide: number) => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const { canvas, ctx } = createCanvas(bitmap.width * scale, bitmap.height * scale);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas;
+};
@@ -0,0 +1,453 @@
+import { AnswerKey, AnswerKeyItem, CorrectionResult, MathCheck, QuestionResult, ValidationWarning } from "../types";
+import { findAnswerKeyItem } from "./answerKeyService";
+import { LOW_CONFIDENCE_THRESHOLD } from "./reviewService";
+import { calculateTotals } from "./scoreService";
+
+type MathNode =
+  | { type: 'num'; value: number }
+  | { type: 'var'; name: string }
+  | { type: 'neg'; arg: MathNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: MathNode; right: MathNode }
+  | { type: 'call'; name: string; arg: MathNode };
+
+type Token = { kind: 'num'; value: number } | { kind: 'id'; name: string } | { kind: 'op'; op: string };
+
+// Either a bare expression ("1/2", "2x + 1") or an equation ("x = -3")
+type ParsedAnswer =
+  | { kind: 'expression'; node: MathNode; decimals?: number }
+  | { kind: 'equation'; left: MathNode; right: MathNode };
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  sen: Math.sin,
+  sin: Math.sin,
+  cos: Math.cos,
+  tg: Math.tan,
+  tan: Math.tan,
+  log: Math.log10,
+  ln: Math.log,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI };
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9',
+  '⁺': '+', '⁻': '-', '⁽': '(', '⁾': ')', 'ⁿ': 'n', 'ˣ': 'x',
+};
+
+const VULGAR_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5',
+  '⅙': '1/6', '⅚': '5/6', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+// pt-BR thousands grouping ("1.500", "12.000.000", "1.234,5"); a dot followed by exactly three digits
+const THOUSANDS_PATTERN = /(?<![\d.,])\d{1,3}(?:\.\d{3})+(?:,\d+)?(?![\d.])/g;
+// "1.500" without a decimal comma could also be an English decimal, so the checker never overrides on it
+const AMBIGUOUS_NUMBER_PATTERN = /(?<![\d.,])\d{1,3}(?:\.\d{3})+(?![\d.,])/;
+
+// Trailing units accepted when both answers use the same one ("5 cm", "30°", "R$ 12,50")
+const UNIT_PATTERN = /\s*(°|\s[a-zµ][a-zµ²³/]+|\s[mgls])$/;
+
+/**
+ * Rewrites the OCR output into plain ASCII math: Unicode superscripts and fractions, Brazilian decimal
+ * commas, multiplication/division signs and roots.
+ */
+const normalizeMath = (text: string): string => {
+  let s = ` ${text.trim().toLowerCase()} `;
+  s = s.replace(/r\$/g, ' ');
+  s = s.replace(/[−–—]/g, '-').replace(/[×·∙⋅]/g, '*').replace(/[÷:⁄∕]/g, '/');
+  s = s.replace(/√/g, ' sqrt ').replace(/π/g, ' pi ');
+  // Mixed numbers: 1½ = 1 + 1/2
+  s = s.replace(/(\d)([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, digit, fraction) => `(${digit}+${VULGAR_FRACTIONS[fraction]})`);
+  s = s.replace(/[½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g, fraction => `(${VULGAR_FRACTIONS[fraction]})`);
+  s = s.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻⁽⁾ⁿˣ]+/g, sup => `^(${Array.from(sup, c => SUPERSCRIPTS[c]).join('')})`);
+  // 1.500 -> 1500, 1.234,5 -> 1234.5 and 0,5 -> 0.5
+  s = s.replace(THOUSANDS_PATTERN, n => n.replace(/\./g, ''));
+  s = s.replace(/(\d),(\d)/g, '$1.$2');
+  s = s.replace(/(\d+(?:\.\d+)?)\s*%/g, '($1/100)');
+  return s.replace(/\s+/g, ' ').trim();
+};
+
+const tokenize = (text: string): Token[] | null => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === ' ') { i++; continue; }
+
+    const number = /\d+(?:\.\d+)?|\.\d+/y;
+    number.lastIndex = i;
+    const numberMatch = number.exec(text);
+    if (numberMatch) {
+      tokens.push({ kind: 'num', value: parseFloat(numberMatch[0]) });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const word = /[a-z]+/y;
+    word.lastIndex = i;
+    const wordMatch = word.exec(text);
+    if (wordMatch) {
+      const name = wordMatch[0];
+      if (name in FUNCTIONS || name in CONSTANTS) {
+        tokens.push({ kind: 'id', name });
+      } else {
+        // "xy" is x times y: variables are single letters
+        Array.from(name).forEach(letter => tokens.push({ kind: 'id', name: letter }));
+      }
+      i += name.length;
+      continue;
+    }
+
+    if ('+-*/^()'.includes(c)) {
+      tokens.push({ kind: 'op', op: c });
+      i++;
+      continue;
+    }
+    return null;
+  }
+  return tokens;
+};
+
+// Recursive descent parser with implicit multiplication ("2x", "3(x + 1)", "2√3")
+const parseTokens = (tokens: Token[]): MathNode | null => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (op: string) => peek()?.kind === 'op' && (peek() as { op: string }).op === op;
+  const startsFactor = () => {
+    const t = peek();
+    return !!t && (t.kind === 'num' || t.kind === 'id' || (t.kind === 'op' && t.op === '('));
+  };
+
+  const parseExpression = (): MathNode | null => {
+    let left = parseTerm();
+    while (left && (isOp('+') || isOp('-'))) {
+      const op = (tokens[pos++] as { op: '+' | '-' }).op;
+      const right = parseTerm();
+      if (!right) return null;
+      left = { type: 'binary', op, left, right };
+    }
+    return left;
+  };
+
+  const parseTerm = (): MathNode | null => {
+    let left = parseUnary();
+    while (left) {
+      if (isOp('*') || isOp('/')) {
+        const op = (tokens[pos++] as { op: '*' | '/' }).op;
+        const right = parseUnary();
+        if (!right) return null;
+        left = { type: 'binary', op, left, right };
+      } else if (startsFactor()) {
+        const right = parsePower();
+        if (!right) return null;
+        left = { type: 'binary', op: '*', left, right };
+      } else {
+        break;
+      }
+    }
+    return left;
+  };
+
+  const parseUnary = (): MathNode | null => {
+    if (isOp('-')) {
+      pos++;
+      const arg = parseUnary();
+      return arg && { type: 'neg', arg };
+    }
+    if (isOp('+')) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): MathNode | null => {
+    const base = parsePrimary();
+    if (!base || !isOp('^')) return base;
+    pos++;
+    const exponent = parseUnary();
+    return exponent && { type: 'binary', op: '^', left: base, right: exponent };
+  };
+
+  const parsePrimary = (): MathNode | null => {
+    const t = tokens[pos++];
+    if (!t) return null;
+    if (t.kind === 'num') return { type: 'num', value: t.value };
+    if (t.kind === 'id') {
+      if (t.name in CONSTANTS) return { type: 'num', value: CONSTANTS[t.name] };
+      if (t.name in FUNCTIONS) {
+        const arg = parsePower();
+        return arg && { type: 'call', name: t.name, arg };
+      }
+      return { type: 'var', name: t.name };
+    }
+    if (t.op === '(') {
+      const inner = parseExpression();
+      if (!inner || !isOp(')')) return null;
+      pos++;
+      return inner;
+    }
+    return null;
+  };
+
+  const node = parseExpression();
+  return node && pos === tokens.length ? node : null;
+};
+
+const parseSide = (text: string): MathNode | null => {
+  if (!text.trim()) return null;
+  const tokens = tokenize(text);
+  return tokens && tokens.length > 0 ? parseTokens(tokens) : null;
+};
+
+const splitUnit = (text: string): { value: string; unit: string } => {
+  const match = text.match(UNIT_PATTERN);
+  const unit = match?.[1].trim() || '';
+  if (!match || unit in FUNCTIONS || unit in CONSTANTS || !/\d/.test(text.slice(0, match.index))) return { value: text, unit: '' };
+  return { value: text.slice(0, match.index), unit };
+};
+
+const parseAnswer = (raw: string): { parsed: ParsedAnswer; unit: string } | null => {
+  const { value, unit } = splitUnit(normalizeMath(raw));
+  const sides = value.split('=');
+  if (sides.length > 2) return null;
+  if (sides.length === 2) {
+    const left = parseSide(sides[0]);
+    const right = parseSide(sides[1]);
+    return left && right ? { parsed: { kind: 'equation', left, right }, unit } : null;
+  }
+  const node = parseSide(value);
+  if (!node) return null;
+  // Decimal places the student wrote, used to accept correctly rounded values (0,33 for 1/3)
+  const decimals = /^-?\d+\.(\d+)$/.exec(value.replace(/\s/g, ''))?.[1].length;
+  return { parsed: { kind: 'expression', node, decimals }, unit };
+};
+
+const evaluate = (node: MathNode, env: Record<string, number>): number => {
+  switch (node.type) {
+    case 'num': return node.value;
+    case 'var': return env[node.name] ?? NaN;
+    case 'neg': return -evaluate(node.arg, env);
+    case 'call': return FUNCTIONS[node.name](evaluate(node.arg, env));
+    case 'binary': {
+      const a = evaluate(node.left, env);
+      const b = evaluate(node.right, env);
+      switch (node.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '^': return Math.pow(a, b);
+      }
+    }
+  }
+};
+
+const collectVariables = (node: MathNode, names = new Set<string>()): Set<string> => {
+  if (node.type === 'var') names.add(node.name);
+  if (node.type === 'neg' || node.type === 'call') collectVariables(node.arg, names);
+  if (node.type === 'binary') {
+    collectVariables(node.left, names);
+    collectVariables(node.right, names);
+  }
+  return names;
+};
+
+const isClose = (a: number, b: number) => Math.abs(a - b) <= 1e-9 + 1e-6 * Math.max(Math.abs(a), Math.abs(b));
+
+const formatValue = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 6 });
+
+// Deterministic sample points for comparing algebraic expressions
+const SAMPLE_VALUES = [0.37, 1.29, -0.83, 2.41, -1.77, 3.13];
+
+const samplePoints = (variables: string[]) =>
+  SAMPLE_VALUES.map((_, j) => Object.fromEntries(variables.map((name, i) => [name, SAMPLE_VALUES[(j + i * 2) % SAMPLE_VALUES.length]])));
+
+// "x = 3" (or "3 = x") gives the variable and its value
+const asSolution = (parsed: ParsedAnswer): { variable: string; value: number } | null => {
+  if (parsed.kind !== 'equation') return null;
+  const pick = (side: MathNode, other: MathNode) =>
+    side.type === 'var' && collectVariables(other).size === 0 ? { variable: side.name, value: evaluate(other, {}) } : null;
+  return pick(parsed.left, parsed.right) || pick(parsed.right, parsed.left);
+};
+
+interface Comparison {
+  equivalent: boolean;
+  explanation: string;
+}
+
+const compareNumbers = (student: number, expected: number, decimals?: number): Comparison => {
+  if (isClose(student, expected)) {
+    return { equivalent: true, explanation: `mesmo valor (${formatValue(expected)})` };
+  }
+  if (decimals !== undefined && decimals >= 2 && Math.abs(student - expected) <= 0.5 * Math.pow(10, -decimals) + 1e-12) {
+    return { equivalent: true, explanation: `${formatValue(expected)} arredondado para ${decimals} casas decimais` };
+  }
+  return { equivalent: false, explanation: `${formatValue(student)} ≠ ${formatValue(expected)}` };
+};
+
+const compareAnswers = (student: ParsedAnswer, expected: ParsedAnswer): Comparison | null => {
+  // A bare value against "x = 3" compares the value with the solution
+  const studentSolution = asSolution(student);
+  const expectedSolution = asSolution(expected);
+  if (studentSolution && expectedSolution) {
+    if (studentSolution.variable !== expectedSolution.variable) return null;
+    return compareNumbers(studentSolution.value, expectedSolution.value);
+  }
+  if (student.kind === 'expression' && expectedSolution && collectVariables(student.node).size === 0) {
+    return compareNumbers(evaluate(student.node, {}), expectedSolution.value, student.decimals);
+  }
+  if (expected.kind === 'expression' && studentSolution && collectVariables(expected.node).size === 0) {
+    return compareNumbers(studentSolution.value, evaluate(expected.node, {}));
+  }
+
+  if (student.kind === 'expression' && expected.kind === 'expression') {
+    const variables = Array.from(collectVariables(expected.node));
+    // Letters the key does not use are more likely units or misread text than a wrong expression
+    const studentVariables = collectVariables(student.node);
+    if (studentVariables.size !== variables.length || variables.some(name => !studentVariables.has(name))) return null;
+    if (variables.length === 0) {
+      return compareNumbers(evaluate(student.node, {}), evaluate(expected.node, {}), student.decimals);
+    }
+    let checked = 0;
+    for (const point of samplePoints(variables)) {
+      const a = evaluate(student.node, point);
+      const b = evaluate(expected.node, point);
+      if (!isFinite(a) || !isFinite(b)) continue;
+      checked++;
+      if (!isClose(a, b)) {
+        const at = variables.map(name => `${name} = ${formatValue(point[name])}`).join(', ');
+        return { equivalent: false, explanation: `expressões diferentes (em ${at}: ${formatValue(a)} ≠ ${formatValue(b)})` };
+      }
+    }
+    return checked >= 3 ? { equivalent: true, explanation: 'expressões algebricamente equivalentes' } : null;
+  }
+
+  if (student.kind === 'equation' && expected.kind === 'equation') {
+    // Equivalent equations differ by a constant factor: (a - b) = k * (c - d)
+    const g = (e: { left: MathNode; right: MathNode }, point: Record<string, number>) => evaluate(e.left, point) - evaluate(e.right, point);
+    const variables = Array.from(new Set([
+      ...collectVariables(student.left), ...collectVariables(student.right),
+      ...collectVariables(expected.left), ...collectVariables(expected.right),
+    ]));
+    let ratio: number | undefined;
+    let checked = 0;
+    for (const point of samplePoints(variables)) {
+      const a = g(student, point);
+      const b = g(expected, point);
+      if (!isFinite(a) || !isFinite(b)) continue;
+      if (Math.abs(b) < 1e-12) {
+        if (Math.abs(a) > 1e-9) return { equivalent: false, explanation: 'equações com soluções diferentes' };
+        continue;
+      }
+      checked++;
+      if (ratio === undefined) ratio = a / b;
+      if (Math.abs(ratio) < 1e-12 || !isClose(a, ratio * b)) {
+        return { equivalent: false, explanation: 'equações com soluções diferentes' };
+      }
+    }
+    return checked >= 3 ? { equivalent: true, explanation: 'equações equivalentes' } : null;
+  }
+
+  return null;
+};
+
+// Numeric items always; short answers only when the expected answer looks like math
+const isMathItem = (item: AnswerKeyItem) => {
+  if (item.rubric && item.rubric.length > 0) return false;
+  if (item.type === 'numeric') return true;
+  return item.type === 'short_answer' && /[\d=]/.test(item.expectedAnswer);
+};
+
+/**
+ * Compares the transcribed answer with the expected answer and accepted variants. Returns undefined when the
+ * question is not a math item or either side cannot be parsed, leaving the AI verdict untouched.
+ */
+export const checkMathAnswer = (question: QuestionResult, item: AnswerKeyItem): MathCheck | undefined => {
+  const answer = question.studentAnswer?.trim();
+  if (question.type === 'context' || !answer || !isMathItem(item)) return undefined;
+
+  const student = parseAnswer(answer);
+  if (!student) return undefined;
+
+  let firstMismatch: { key: string; comparison: Comparison } | undefined;
+  for (const key of [item.expectedAnswer, ...item.acceptedVariants].filter(k => k.trim())) {
+    const expected = parseAnswer(key);
+    if (!expected) continue;
+    if (expected.unit && student.unit && expected.unit !== student.unit) continue;
+    const comparison = compareAnswers(student.parsed, expected.parsed);
+    if (!comparison) continue;
+    if (comparison.equivalent) {
+      return {
+        verdict: 'equivalent',
+        studentAnswer: answer,
+        matchedAnswer: key,
+        explanation: `"${answer}" é equivalente a "${key}": ${comparison.explanation}.`,
+        aiIsCorrect: !!question.isCorrect,
+        overridden: false,
+      };
+    }
+    firstMismatch = firstMismatch || { key, comparison };
+  }
+
+  if (!firstMismatch) return undefined;
+  return {
+    verdict: 'different',
+    studentAnswer: answer,
+    matchedAnswer: firstMismatch.key,
+    explanation: `"${answer}" não é equivalente a "${firstMismatch.key}": ${firstMismatch.comparison.explanation}.`,
+    aiIsCorrect: !!question.isCorrect,
+    overridden: false,
+  };
+};
+
+/**
+ * Runs the check on one question. Numeric items with a confident, unambiguous transcription take the checker's
+ * verdict; otherwise a disagreement with the AI is only recorded so the question is flagged for review.
+ */
+export const applyMathCheck = (question: QuestionResult, answerKey: AnswerKey): { question: QuestionResult; warning?: ValidationWarning } => {
+  const item = findAnswerKeyItem(answerKey, question.questionNumber);
+  const check = item ? checkMathAnswer(question, item) : undefined;
+  if (!item || !check) return { question: { ...question, mathCheck: undefined } };
+
+  const checkIsCorrect = check.verdict === 'equivalent';
+  if (checkIsCorrect === check.aiIsCorrect) return { question: { ...question, mathCheck: check } };
+
+  const confidentReading = (question.confidence?.transcription ?? 1) >= LOW_CONFIDENCE_THRESHOLD;
+  const ambiguous = AMBIGUOUS_NUMBER_PATTERN.test(question.studentAnswer || '');
+  if (item.type !== 'numeric' || !confidentReading || ambiguous) {
+    return { question: { ...question, mathCheck: check } };
+  }
+
+  const maxScore = question.maxScore || 0;
+  const score = checkIsCorrect ? maxScore : ((question.score || 0) >= maxScore ? 0 : question.score);
+  return {
+    question: { ...question, isCorrect: checkIsCorrect, score, mathCheck: { ...check, overridden: true } },
+    warning: {
+      kind: 'corrected',
+      questionNumber: question.questionNumber,
+      field: 'isCorrect',
+      message: `Verificação matemática: ${check.explanation}`,
+      originalValue: check.aiIsCorrect,
+      correctedValue: checkIsCorrect,
+    },
+  };
+};
+
+// Checks every question of an analysis and recalculates the totals after any override
+export const applyMathChecks = (result: CorrectionResult, answerKey: AnswerKey): CorrectionResult => {
+  const warnings: ValidationWarning[] = [];
+  const questions = result.questions.map(q => {
+    if (q.type === 'context') return q;
+    const checked = applyMathCheck(q, answerKey);
+    if (checked.warning) warnings.push(checked.warning);
+    return checked.question;
+  });
+  return {
+    ...result,
+    questions,
+    ...calculateTotals(questions),
+    validationWarnings: [...(result.validationWarnings || []), ...warnings],
+  };
+};
@@ -0,0 +1,270 @@
+import { AnswerKey, BoundingBox, CorrectionResult, OmrSheetLayout, QuestionResult, ValidationWarning } from "../types";
+import { findAnswerKeyItem } from "./answerKeyService";
+import { fileToCanvas, otsuThreshold, scaleCanvas, squareToQuad, toGray } from "./imageUtils";
+import { calculateTotals } from "./scoreService";
+
+export const OMR_LETTERS = ['A', 'B', 'C', 'D', 'E'];
+export const OMR_MAX_QUESTIONS = 100;
+
+export const DEFAULT_OMR_LAYOUT: OmrSheetLayout = {
+  title: 'Cartão-resposta',
+  questionCount: 20,
+  alternativeCount: 5,
+};
+
+// Sheet geometry in millimetres on an A4 page, shared by the template generator and the reader
+export const SHEET_GEOMETRY = {
+  pageWidth: 210,
+  pageHeight: 297,
+  markSize: 8,
+  // Centers of the four registration squares
+  markLeft: 15,
+  markRight: 195,
+  markTop: 15,
+  markBottom: 282,
+  gridTop: 76,
+  rowHeight: 8,
+  rowsPerColumn: 25,
+  columnLeft: 20,
+  columnWidth: 45,
+  numberWidth: 9,
+  bubbleSpacing: 6.5,
+  bubbleRadius: 2.3,
+};
+
+export interface SheetBubble {
+  letter: string;
+  x: number;
+  y: number;
+}
+
+export interface SheetQuestion {
+  questionNumber: string;
+  column: number;
+  bubbles: SheetBubble[];
+}
+
+// Image is normalized to this longest side before reading
+const READ_SIZE = 1600;
+// Longest side used to look for the registration marks
+const MARK_SEARCH_SIZE = 1000;
+// Fraction of darkening (vs. the surrounding paper) from which a bubble counts as filled
+const MARKED_FILL = 0.35;
+// Between this and MARKED_FILL the bubble is probably erased or lightly marked
+const FAINT_FILL = 0.2;
+
+export const getSheetQuestions = (layout: OmrSheetLayout): SheetQuestion[] => {
+  const g = SHEET_GEOMETRY;
+  const letters = OMR_LETTERS.slice(0, layout.alternativeCount);
+  const count = Math.min(layout.questionCount, OMR_MAX_QUESTIONS);
+
+  return Array.from({ length: count }, (_, i) => {
+    const column = Math.floor(i / g.rowsPerColumn);
+    const y = g.gridTop + (i % g.rowsPerColumn) * g.rowHeight;
+    const firstX = g.columnLeft + column * g.columnWidth + g.numberWidth + g.bubbleRadius;
+    return {
+      questionNumber: String(i + 1),
+      column,
+      bubbles: letters.map((letter, j) => ({ letter, x: firstX + j * g.bubbleSpacing, y })),
+    };
+  });
+};
+
+type Point = { x: number; y: number };
+
+// Looks for a solid dark square near each corner of the photo (top-left, top-right, bottom-right, bottom-left)
+const findRegistrationMarks = (source: HTMLCanvasElement): Point[] | null => {
+  const scale = Math.min(1, MARK_SEARCH_SIZE / Math.max(source.width, source.height));
+  const small = scaleCanvas(source, scale);
+  const { width, height } = small;
+  const gray = toGray(small.getContext('2d')!.getImageData(0, 0, width, height).data);
+  const threshold = otsuThreshold(gray);
+  const visited = new Uint8Array(width * height);
+  const imageArea = width * height;
+
+  const corners: Point[] = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const marks: Point[] = [];
+
+  for (const corner of corners) {
+    const x0 = corner.x === 0 ? 0 : Math.floor(width * 0.65);
+    const y0 = corner.y === 0 ? 0 : Math.floor(height * 0.65);
+    const x1 = corner.x === 0 ? Math.ceil(width * 0.35) : width;
+    const y1 = corner.y === 0 ? Math.ceil(height * 0.35) : height;
+
+    let best: Point | null = null;
+    let bestDistance = Infinity;
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const start = y * width + x;
+        if (visited[start] || gray[start] >= threshold) continue;
+
+        // Flood fill the dark component, staying inside the corner region
+        const stack = [start];
+        visited[start] = 1;
+        let area = 0, sumX = 0, sumY = 0, minX = x, maxX = x, minY = y, maxY = y;
+        while (stack.length) {
+          const idx = stack.pop()!;
+          const px = idx % width, py = (idx - px) / width;
+          area++; sumX += px; sumY += py;
+          if (px < minX) minX = px; if (px > maxX) maxX = px;
+          if (py < minY) minY = py; if (py > maxY) maxY = py;
+          const neighbors = [idx - 1, idx + 1, idx - width, idx + width];
+          const inRegion = [px > x0, px < x1 - 1, py > y0, py < y1 - 1];
+          neighbors.forEach((n, k) => {
+            if (inRegion[k] && !visited[n] && gray[n] < threshold) {
+              visited[n] = 1;
+              stack.push(n);
+            }
+          });
+        }
+
+        const boxWidth = maxX - minX + 1, boxHeight = maxY - minY + 1;
+        const aspect = boxWidth / boxHeight;
+        const solidity = area / (boxWidth * boxHeight);
+        if (area < imageArea * 0.0002 || area > imageArea * 0.01) continue;
+        if (aspect < 0.6 || aspect > 1.6 || solidity < 0.75) continue;
+
+        const center = { x: sumX / area, y: sumY / area };
+        const distance = Math.hypot(center.x - corner.x, center.y - corner.y);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = center;
+        }
+      }
+    }
+
+    if (!best) return null;
+    marks.push({ x: best.x / scale, y: best.y / scale });
+  }
+
+  return marks;
+};
+
+// Darkening of the bubble center relative to the paper right around it (0 = blank, 1 = solid ink)
+const measureFill = (gray: Uint8Array, width: number, height: number, center: Point, radius: number) => {
+  const inner: number[] = [];
+  const ring: number[] = [];
+  const outer = radius * 1.6;
+  for (let y = Math.floor(center.y - outer); y <= Math.ceil(center.y + outer); y++) {
+    for (let x = Math.floor(center.x - outer); x <= Math.ceil(center.x + outer); x++) {
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      const d = Math.hypot(x - center.x, y - center.y);
+      const value = gray[y * width + x];
+      if (d <= radius * 0.6) inner.push(value);
+      else if (d >= radius * 1.25 && d <= outer) ring.push(value);
+    }
+  }
+  if (inner.length === 0 || ring.length === 0) return 0;
+
+  ring.sort((a, b) => a - b);
+  const paper = ring[Math.floor(ring.length * 0.75)] || 1;
+  const ink = inner.reduce((sum, v) => sum + v, 0) / inner.length;
+  return Math.min(Math.max(1 - ink / paper, 0), 1);
+};
+
+// Letters considered correct for a key item: the expected answer plus accepted variants (e.g. annulled questions)
+const getAcceptedLetters = (expectedAnswer: string, variants: string[]) =>
+  [expectedAnswer, ...variants]
+    .map(answer => answer.trim().match(/^\(?([A-Ea-e])(?![A-Za-z])/)?.[1]?.toUpperCase())
+    .filter((letter): letter is string => !!letter);
+
+const buildFeedback = (marked: string[], accepted: string[], isCorrect: boolean) => {
+  const correction = accepted.length > 0 ? ` A resposta correta é a alternativa ${accepted[0]}.` : '';
+  if (accepted.length === 0) return "Questão sem gabarito cadastrado; confira a marcação manualmente.";
+  if (marked.length === 0) return `Você deixou esta questão em branco.${correction}`;
+  if (marked.length > 1) return `Você marcou mais de uma alternativa (${marked.join(', ')}), o que anula a questão.${correction}`;
+  return isCorrect
+    ? `Você marcou a alternativa ${marked[0]}, que é a correta.`
+    : `Você marcou a alternativa ${marked[0]}.${correction}`;
+};
+
+/**
+ * Reads a photographed/scanned answer sheet generated by `exportAnswerSheetTemplate` and grades it
+ * against the answer key, entirely on the device (no AI call, no credit).
+ */
+export const readAnswerSheet = async (file: File, layout: OmrSheetLayout, answerKey: AnswerKey): Promise<CorrectionResult> => {
+  const canvas = await fileToCanvas(file, READ_SIZE);
+  const { width, height } = canvas;
+  const gray = toGray(canvas.getContext('2d')!.getImageData(0, 0, width, height).data);
+
+  const marks = findRegistrationMarks(canvas);
+  if (!marks) throw new Error("Registration marks not found on the answer sheet.");
+
+  // Sheet millimetres -> photo pixels, through the perspective defined by the four marks
+  const g = SHEET_GEOMETRY;
+  const project = squareToQuad(marks);
+  const toPixel = (x: number, y: number) =>
+    project((x - g.markLeft) / (g.markRight - g.markLeft), (y - g.markTop) / (g.markBottom - g.markTop));
+  const toBoxCoordinate = (value: number, size: number) => Math.min(Math.max(Math.round(value / size * 1000), 0), 1000);
+
+  const warnings: ValidationWarning[] = [];
+
+  const questions: QuestionResult[] = getSheetQuestions(layout).map(sheetQuestion => {
+    const fills = sheetQuestion.bubbles.map(bubble => {
+      const center = toPixel(bubble.x, bubble.y);
+      const edge = toPixel(bubble.x + g.bubbleRadius, bubble.y);
+      return measureFill(gray, width, height, center, Math.hypot(edge.x - center.x, edge.y - center.y));
+    });
+    const marked = sheetQuestion.bubbles.filter((_, i) => fills[i] >= MARKED_FILL).map(b => b.letter);
+    const hasFaintMark = fills.some(f => f >= FAINT_FILL && f < MARKED_FILL);
+
+    const keyItem = findAnswerKeyItem(answerKey, sheetQuestion.questionNumber);
+    const accepted = keyItem ? getAcceptedLetters(keyItem.expectedAnswer, keyItem.acceptedVariants) : [];
+    if (accepted.length === 0) {
+      warnings.push({ kind: 'flagged', questionNumber: sheetQuestion.questionNumber, field: 'answerKey', message: "Sem alternativa correta no gabarito; nota não atribuída." });
+    }
+
+    const isCorrect = marked.length === 1 && accepted.includes(marked[0]);
+    const maxScore = keyItem?.maxScore ?? 1;
+
+    // Row region (number + bubbles) for highlighting on the scan
+    const first = sheetQuestion.bubbles[0], last = sheetQuestion.bubbles[sheetQuestion.bubbles.length - 1];
+    const rowCorners = [
+      toPixel(first.x - g.bubbleRadius - g.numberWidth, first.y - g.rowHeight / 2),
+      toPixel(last.x + g.bubbleRadius * 2, last.y + g.rowHeight / 2),
+    ];
+    const answerBox: BoundingBox = {
+      ymin: toBoxCoordinate(Math.min(rowCorners[0].y, rowCorners[1].y), height),
+      xmin: toBoxCoordinate(Math.min(rowCorners[0].x, rowCorners[1].x), width),
+      ymax: toBoxCoordinate(Math.max(rowCorners[0].y, rowCorners[1].y), height),
+      xmax: toBoxCoordinate(Math.max(rowCorners[0].x, rowCorners[1].x), width),
+    };
+
+    return {
+      type: 'question',
+      questionNumber: sheetQuestion.questionNumber,
+      questionText: `Questão ${sheetQuestion.questionNumber}`,
+      alternatives: sheetQuestion.bubbles.map(b => b.letter),
+      // A blank row has no answer (shown as "Em branco"), so the wrong-answer penalty does not count it
+      studentAnswer: marked.length === 0 ? '' : marked.length > 1 ? `Múltiplas marcações (${marked.join(', ')})` : marked[0],
+      isCorrect,
+      score: isCorrect ? maxScore : 0,
+      maxScore,
+      weight: keyItem?.weight,
+      feedback: buildFeedback(marked, accepted, isCorrect),
+      page: 1,
+      answerBox,
+      confidence: {
+        transcription: hasFaintMark ? 0.5 : 0.98,
+        correctness: accepted.length > 0 ? 1 : 0.3,
+        score: accepted.length > 0 ? 1 : 0.3,
+      },
+      reviewed: false,
+    };
+  });
+
+  const correctCount = questions.filter(q => q.isCorrect).length;
+  const blankCount = questions.filter(q => !q.studentAnswer).length;
+
+  return {
+    studentName: 'Não identificado',
+    summary: `Cartão-resposta lido automaticamente: ${correctCount} de ${questions.length} questões corretas`
+      + (blankCount > 0 ? `, ${blankCount} em branco.` : '.'),
+    fullTranscription: questions.map(q => `${q.questionNumber}: ${q.studentAnswer || 'Em branco'}`).join('\n'),
+    questions,
+    ...calculateTotals(questions),
+    validationWarnings: warnings,
+    isFinal: false,
+  };
+};
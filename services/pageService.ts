@@ -0,0 +1,86 @@
+import * as pdfjsLib from "pdfjs-dist";
+import { BatchItem, ExamPage } from "../types";
+
+// Worker is loaded from the CDN so it works both under Vite and the AI Studio importmap
+pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+
+// Render scale for PDF pages (2x keeps handwriting legible for OCR)
+const PDF_RENDER_SCALE = 2;
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isSupportedExamFile = (file: File) =>
+  file.type.startsWith('image/') || file.type === 'application/pdf';
+
+// Rasterizes every page of a PDF into a PNG File, preserving page order
+const pdfToImages = async (file: File): Promise<File[]> => {
+  const buffer = await file.arrayBuffer();
+  const pdf = await pdfjsLib.getDocument({ data: buffer }).promise;
+  const baseName = file.name.replace(/\.pdf$/i, '');
+  const images: File[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    const canvasContext = canvas.getContext('2d');
+    if (!canvasContext) throw new Error("Canvas 2D context is not available.");
+
+    await page.render({ canvasContext, viewport }).promise;
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error(`Failed to render page ${pageNumber} of ${file.name}`);
+
+    images.push(new File([blob], `${baseName}_p${pageNumber}.png`, { type: 'image/png' }));
+  }
+
+  await pdf.destroy();
+  return images;
+};
+
+// Expands the uploaded files (images and/or multi-page PDFs) into an ordered list of pages
+export const expandToPages = async (files: File[]): Promise<ExamPage[]> => {
+  const pages: ExamPage[] = [];
+
+  for (const file of files) {
+    const images = file.type === 'application/pdf' ? await pdfToImages(file) : [file];
+    images.forEach(image => {
+      pages.push({ id: createId(), file: image, previewUrl: URL.createObjectURL(image) });
+    });
+  }
+
+  return pages;
+};
+
+// Batch mode: each uploaded file is one student's exam (a PDF may hold all of its pages)
+export const createBatchItems = async (files: File[]): Promise<BatchItem[]> => {
+  const items: BatchItem[] = [];
+
+  for (const file of files) {
+    items.push({
+      id: createId(),
+      label: file.name,
+      pages: await expandToPages([file]),
+      status: 'queued'
+    });
+  }
+
+  return items;
+};
+
+// Releases the object URLs of a page (processed preview and original upload)
+export const revokePageUrls = (page: ExamPage) => {
+  URL.revokeObjectURL(page.previewUrl);
+  if (page.original && page.original.previewUrl !== page.previewUrl) URL.revokeObjectURL(page.original.previewUrl);
+};
+
+// Moves the page at `from` to position `to`, returning a new array
+export const reorderPages = (pages: ExamPage[], from: number, to: number): ExamPage[] => {
+  const updated = [...pages];
+  const [moved] = updated.splice(from, 1);
+  updated.splice(to, 0, moved);
+  return updated;
+};
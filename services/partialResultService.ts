@@ -0,0 +1,86 @@
+import { CorrectionResult, QuestionResult } from "../types";
+import { calculateTotals } from "./scoreService";
+
+// How many times the parser backs off to an earlier separator before giving up on a chunk
+const MAX_REPAIR_ATTEMPTS = 30;
+
+interface ScanState {
+  inString: boolean;
+  stack: string[]; // Open '{' / '[' outside strings
+  separators: number[]; // Positions of ',' '{' '[' outside strings
+}
+
+const scan = (text: string): ScanState => {
+  const state: ScanState = { inString: false, stack: [], separators: [] };
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (state.inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') state.inString = false;
+      continue;
+    }
+    if (char === '"') state.inString = true;
+    else if (char === '{' || char === '[') {
+      state.stack.push(char);
+      state.separators.push(i);
+    } else if (char === '}' || char === ']') state.stack.pop();
+    else if (char === ',') state.separators.push(i);
+  }
+  return state;
+};
+
+// Closes the open string/containers of a truncated JSON document
+const closeJson = (text: string, state: ScanState) => {
+  let closed = state.inString ? `${text.replace(/\\$/, '')}"` : text;
+  closed = closed.replace(/[\s,:]+$/, '');
+  for (let i = state.stack.length - 1; i >= 0; i--) {
+    closed += state.stack[i] === '{' ? '}' : ']';
+  }
+  return closed;
+};
+
+// Best-effort parse of a JSON document that is still being streamed
+export const parsePartialJson = (text: string): unknown => {
+  let end = text.length;
+  for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS && end > 0; attempt++) {
+    const prefix = text.slice(0, end);
+    const state = scan(prefix);
+    try {
+      return JSON.parse(closeJson(prefix, state));
+    } catch {
+      // Drop the incomplete trailing member (e.g. a key without value) and try again
+      const separator = state.separators.filter(pos => pos < end - 1).pop();
+      if (separator === undefined) return undefined;
+      end = text[separator] === ',' ? separator : separator + 1;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Turns the streamed text of `analyzeExam` into a displayable result: header fields as soon as they
+ * arrive and only the questions that are already complete (the last one may still be growing).
+ */
+export const buildPartialCorrection = (text: string): CorrectionResult | null => {
+  const raw = parsePartialJson(text) as Partial<CorrectionResult> | undefined;
+  if (!raw || typeof raw !== 'object') return null;
+
+  const streamed = Array.isArray(raw.questions) ? raw.questions : [];
+  const questions = streamed
+    .slice(0, -1)
+    .filter((q): q is QuestionResult => !!q && typeof q === 'object' && typeof q.questionNumber === 'string');
+
+  return {
+    studentName: typeof raw.studentName === 'string' ? raw.studentName : '',
+    schoolName: raw.schoolName,
+    teacherName: raw.teacherName,
+    className: raw.className,
+    examDate: raw.examDate,
+    summary: typeof raw.summary === 'string' ? raw.summary : '',
+    fullTranscription: '',
+    questions,
+    ...calculateTotals(questions),
+  };
+};
@@ -0,0 +1,233 @@
+import { PromptOperation, PromptTemplate, PromptTemplateRef } from "../types";
+
+const SELECTED_TEMPLATE_STORAGE_KEY = 'correctorai_prompt_template';
+
+export const PROMPT_OPERATION_LABELS: Record<PromptOperation, string> = {
+  analyzeExam: 'Correção da prova',
+  reevaluateQuestion: 'Reavaliação de questão',
+  regenerateSummary: 'Resumo da análise',
+};
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+  required?: boolean; // The operation cannot work without it (e.g. the answer key)
+}
+
+const COMMON_VARIABLES: PromptVariable[] = [
+  { name: 'feedbackStyle', description: 'Idioma, público e tom do feedback (adicionado ao final se não for usado)' },
+  { name: 'subject', description: 'Disciplina do modelo' },
+  { name: 'gradeLevel', description: 'Série / ano do modelo' },
+];
+
+// Filled by every operation and appended to templates that do not place them, so older templates still honor them
+const TRAILING_VARIABLES = ['feedbackStyle'];
+
+// Variables filled by each operation; anything else between {{ }} is sent as typed
+export const PROMPT_VARIABLES: Record<PromptOperation, PromptVariable[]> = {
+  analyzeExam: [
+    { name: 'answerKey', description: 'Gabarito cadastrado pelo professor', required: true },
+    { name: 'pageCount', description: 'Número de páginas da prova' },
+    ...COMMON_VARIABLES,
+  ],
+  reevaluateQuestion: [
+    { name: 'answerKey', description: 'Gabarito da questão', required: true },
+    { name: 'questionText', description: 'Enunciado', required: true },
+    { name: 'alternatives', description: 'Alternativas (JSON)' },
+    { name: 'studentAnswer', description: 'Resposta transcrita do aluno', required: true },
+    { name: 'maxScore', description: 'Valor da questão', required: true },
+    ...COMMON_VARIABLES,
+  ],
+  regenerateSummary: [
+    { name: 'studentName', description: 'Nome do aluno' },
+    { name: 'totalScore', description: 'Nota obtida' },
+    { name: 'maxTotalScore', description: 'Nota máxima' },
+    { name: 'questions', description: 'Questões corrigidas (JSON)', required: true },
+    ...COMMON_VARIABLES,
+  ],
+};
+
+const DEFAULT_ANALYZE_PROMPT = `
+    Você é um professor assistente especialista em correção de provas.
+    Sua tarefa é analisar as imagens desta prova escolar.
+    A prova possui {{pageCount}} página(s), enviadas na ordem correta. Trate todas como UMA ÚNICA prova:
+    textos de apoio de uma página podem ser usados por questões de páginas seguintes.
+
+    {{answerKey}}
+
+    Instruções de Análise:
+    1. **Cabeçalho**: Identifique e extraia Nome do aluno, Escola, Professor, Turma e Data, se visíveis.
+    2. **Transcrição Geral**: Transcreva o conteúdo textual no campo 'fullTranscription'.
+
+    3. **Identificação de Itens (Questões e Contexto)**:
+       Percorra a prova sequencialmente.
+       - **Textos de Apoio / Enunciados Compartilhados**: Se encontrar um texto, tirinha, ou enunciado que serve de base para uma ou mais questões subsequentes (ex: "Leia o texto para responder às questões 1 a 3"), crie um item com **type: 'context'**.
+         - No campo 'questionText', coloque todo o conteúdo desse texto de apoio.
+         - No campo 'questionNumber', coloque algo como "Texto", "Instrução" ou deixe vazio se não houver numeração específica.
+
+       - **Questões**: Para cada pergunta que exige resposta, crie um item com **type: 'question'**.
+         - 'questionNumber': Identifique o número (ex: "1", "2", "13 a", "13 b").
+         - 'questionText': O enunciado específico daquela questão.
+
+       - **Página**: Em todos os itens, preencha 'page' com o número da página (começando em 1) onde o item aparece.
+         Se uma questão continuar na página seguinte, use a página onde ela começa.
+
+       - **Localização**: Em todos os itens, preencha 'questionBox' com o retângulo que contém o item inteiro naquela página.
+         Nas questões, preencha também 'answerBox' com o retângulo que contém apenas a resposta do aluno (marcação, cálculo ou texto).
+         Use coordenadas normalizadas de 0 a 1000 (ymin, xmin, ymax, xmax), com origem no canto superior esquerdo da página.
+
+    4. **OCR e Fidelidade (CRÍTICO)**:
+       - O OCR deve ser **extremamente fiel** a todos os símbolos matemáticos, químicos e físicos.
+       - **NÃO simplifique fórmulas**. Se a imagem mostra H₂O, transcreva H₂O (com subscrito Unicode), NUNCA H2O.
+       - Se a imagem mostra x², transcreva x² (com sobrescrito Unicode).
+       - Use caracteres Unicode para frações, integrais, setas, etc., conforme aparecem.
+
+    5. **Correção (apenas para type='question')**:
+       - Transcreva a RESPOSTA do aluno em 'studentAnswer' com a mesma fidelidade de símbolos usada no enunciado.
+       - Compare com o gabarito e atribua 'score', 'isCorrect' e 'feedback'.
+       - Quando a questão estiver no gabarito do professor, 'maxScore' DEVE ser o valor definido lá e 'score' não pode ultrapassá-lo.
+       - **IMPORTANTE**: Se a resposta do aluno estiver INCORRETA, o feedback DEVE indicar explicitamente qual seria a resposta correta no final.
+
+    6. **Confiança (apenas para type='question')**: Preencha 'confidence' com valores de 0 a 1, sendo honesto:
+       - 'transcription': baixa quando a letra estiver ilegível, rasurada, cortada ou ambígua.
+       - 'correctness': baixa quando a resposta for parcialmente correta, incomum ou o gabarito for ambíguo.
+       - 'score': baixa quando a nota parcial depender de interpretação.
+       Não invente certeza: o professor revisará manualmente os itens com confiança baixa.
+
+    7. **Habilidades BNCC (apenas para type='question')**: Preencha 'skills' com os códigos das habilidades da BNCC
+       que a questão avalia (ex: EF06MA03, EM13LGG101). Se o gabarito já indicar as habilidades, use exatamente essas.
+       Deixe vazio se não tiver certeza: o professor confirma as sugestões.
+
+    8. **Estilo do feedback e do resumo**:
+    {{feedbackStyle}}
+  `;
+
+const DEFAULT_REEVALUATE_PROMPT = `
+    Atue como um corretor de provas escolar.
+    Você deve reavaliar uma questão específica com base nos dados atualizados (que podem ter sido editados pelo professor).
+
+    Gabarito da Prova:
+    {{answerKey}}
+
+    Dados da Questão para Reavaliação:
+    - Enunciado: "{{questionText}}"
+    - Alternativas: {{alternatives}}
+    - Resposta do Aluno (transcrita): "{{studentAnswer}}"
+    - Nota Máxima da Questão: {{maxScore}}
+
+    Instruções:
+    1. Analise se a 'Resposta do Aluno' está correta, considerando o Enunciado, as Alternativas e o Contexto.
+    2. Determine se está correta (isCorrect), a nota a ser dada (score, entre 0 e {{maxScore}}) e forneça um feedback explicativo (feedback).
+    3. Se a resposta for parcialmente correta, ajuste a nota proporcionalmente, mas 'isCorrect' pode ser falso se não for totalmente correta, ou verdadeiro se for aceitável. Use seu julgamento pedagógico.
+    4. O feedback deve justificar a nota.
+    5. **IMPORTANTE**: Se a resposta do aluno estiver INCORRETA, o feedback DEVE indicar explicitamente qual seria a resposta correta no final.
+
+    Estilo do feedback:
+    {{feedbackStyle}}
+
+    Responda APENAS com o JSON.
+  `;
+
+const DEFAULT_SUMMARY_PROMPT = `
+    Atue como um professor experiente corrigindo uma prova.
+
+    Tarefa: Reescreva o "Resumo da Análise" com base nos dados atualizados da prova.
+    Algumas notas, respostas ou avaliações podem ter mudado. O resumo deve refletir o estado ATUAL.
+
+    Dados do Aluno:
+    - Nome: {{studentName}}
+    - Nota Final: {{totalScore}} de {{maxTotalScore}}
+
+    Questões:
+    {{questions}}
+
+    Instruções para o Resumo:
+    1. Escreva um texto corrido (parágrafo único ou dois curtos).
+    2. Analise o desempenho do aluno considerando os acertos e erros.
+    3. Se a nota for alta, parabenize. Se for baixa, sugira atenção.
+    4. Responda APENAS com o texto do resumo.
+
+    Estilo do resumo:
+    {{feedbackStyle}}
+  `;
+
+// Built-in template used when the teacher picks none (or the saved ones cannot be loaded)
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: 'default',
+  templateId: 'default',
+  version: 1,
+  name: 'Padrão (prova escolar geral)',
+  subject: 'Geral',
+  gradeLevel: 'Todas',
+  prompts: {
+    analyzeExam: DEFAULT_ANALYZE_PROMPT,
+    reevaluateQuestion: DEFAULT_REEVALUATE_PROMPT,
+    regenerateSummary: DEFAULT_SUMMARY_PROMPT,
+  },
+  createdAt: '1970-01-01T00:00:00.000Z',
+};
+
+/**
+ * Fills the {{variables}} of one operation of the template. Subject and grade level come from the template
+ * itself; unknown names are left untouched so a typo is visible in the prompt instead of silently vanishing.
+ * Trailing variables the template does not use are appended at the end.
+ */
+export const renderPrompt = (
+  template: PromptTemplate,
+  operation: PromptOperation,
+  variables: Record<string, string | number>
+): string => {
+  const values: Record<string, string | number> = { subject: template.subject, gradeLevel: template.gradeLevel, ...variables };
+  const text = template.prompts[operation]?.trim() ? template.prompts[operation] : DEFAULT_PROMPT_TEMPLATE.prompts[operation];
+  const rendered = text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => name in values ? String(values[name]) : match);
+  const appended = TRAILING_VARIABLES
+    .filter(name => name in variables && !new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(text))
+    .map(name => `Preferências do professor (prevalecem sobre instruções anteriores de idioma, público ou tom):\n${values[name]}`);
+  return appended.length > 0 ? `${rendered}\n\n${appended.join('\n\n')}` : rendered;
+};
+
+// Required variables missing from each operation of a template being edited
+export const getMissingVariables = (prompts: Record<PromptOperation, string>): Partial<Record<PromptOperation, string[]>> => {
+  const missing: Partial<Record<PromptOperation, string[]>> = {};
+  (Object.keys(PROMPT_VARIABLES) as PromptOperation[]).forEach(operation => {
+    const text = prompts[operation] || '';
+    const names = PROMPT_VARIABLES[operation]
+      .filter(v => v.required && !new RegExp(`\\{\\{\\s*${v.name}\\s*\\}\\}`).test(text))
+      .map(v => v.name);
+    if (names.length > 0) missing[operation] = names;
+  });
+  return missing;
+};
+
+// Newest version of each template, sorted by name; archived templates are left out
+export const getLatestVersions = (templates: PromptTemplate[]): PromptTemplate[] => {
+  const latest = new Map<string, PromptTemplate>();
+  templates.forEach(t => {
+    const current = latest.get(t.templateId);
+    if (!current || t.version > current.version) latest.set(t.templateId, t);
+  });
+  return Array.from(latest.values())
+    .filter(t => !t.archived)
+    .sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
+};
+
+export const getTemplateHistory = (templates: PromptTemplate[], templateId: string): PromptTemplate[] =>
+  templates.filter(t => t.templateId === templateId).sort((a, b) => b.version - a.version);
+
+export const toTemplateRef = (template: PromptTemplate): PromptTemplateRef => ({
+  templateId: template.templateId,
+  version: template.version,
+  name: template.name,
+});
+
+// Exact version that produced a correction, so re-evaluations keep using the same instructions
+export const findTemplateVersion = (templates: PromptTemplate[], ref?: PromptTemplateRef): PromptTemplate | undefined =>
+  ref ? templates.find(t => t.templateId === ref.templateId && t.version === ref.version) : undefined;
+
+// Template chosen by the teacher on this browser (the latest version is always used for new analyses)
+export const loadSelectedTemplateId = (): string =>
+  localStorage.getItem(SELECTED_TEMPLATE_STORAGE_KEY) || DEFAULT_PROMPT_TEMPLATE.templateId;
+
+export const saveSelectedTemplateId = (templateId: string) => {
+  localStorage.setItem(SELECTED_TEMPLATE_STORAGE_KEY, templateId);
+};
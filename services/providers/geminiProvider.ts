@@ -0,0 +1,84 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Part } from "@google/genai";
+import { AIConfig, AIProvider, AIResponse, AnalyzeRequest, pageLabel, TextRequest, TokenUsage } from "../aiProvider";
+
+const toTokenUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined =>
+  metadata ? { inputTokens: metadata.promptTokenCount || 0, outputTokens: metadata.candidatesTokenCount || 0 } : undefined;
+
+export const createGeminiProvider = (config: AIConfig): AIProvider => {
+
+  const getClient = () => {
+    if (!config.apiKey) {
+      throw new Error("API Key is missing. Please check your environment configuration.");
+    }
+    return new GoogleGenAI({ apiKey: config.apiKey });
+  };
+
+  const generateJSON = async (
+    parts: Part[],
+    schema: object,
+    temperature: number,
+    signal?: AbortSignal,
+    onText?: (textSoFar: string) => void,
+    model = config.model
+  ): Promise<AIResponse> => {
+    const params = {
+      model,
+      contents: { parts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+        temperature,
+        abortSignal: signal,
+      }
+    };
+
+    if (!onText) {
+      const response = await getClient().models.generateContent(params);
+      if (!response.text) throw new Error("No response from AI");
+      return { text: response.text, usage: toTokenUsage(response.usageMetadata), model };
+    }
+
+    let text = "";
+    let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+    const stream = await getClient().models.generateContentStream(params);
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      text += chunk.text || "";
+      // Each chunk carries the running totals; the last one has the final counts
+      usageMetadata = chunk.usageMetadata || usageMetadata;
+      onText(text);
+    }
+    if (!text) throw new Error("No response from AI");
+    return { text, usage: toTokenUsage(usageMetadata), model };
+  };
+
+  return {
+    name: 'gemini',
+    model: config.model,
+
+    analyze: (request: AnalyzeRequest) => {
+      const parts: Part[] = [];
+      request.pages.forEach((page, i) => {
+        parts.push({ text: pageLabel(i, request.pages.length) });
+        parts.push({ inlineData: { mimeType: page.mimeType, data: page.data } });
+      });
+      parts.push({ text: request.prompt });
+      return generateJSON(parts, request.schema, request.temperature, request.signal, request.onText, request.model);
+    },
+
+    reevaluate: (request: TextRequest) =>
+      generateJSON([{ text: request.prompt }], request.schema || {}, request.temperature, request.signal),
+
+    summarize: async (request: TextRequest) => {
+      const response = await getClient().models.generateContent({
+        model: config.model,
+        contents: { text: request.prompt },
+        config: {
+          temperature: request.temperature,
+          abortSignal: request.signal,
+        }
+      });
+      return { text: response.text || "", usage: toTokenUsage(response.usageMetadata) };
+    },
+  };
+};
@@ -0,0 +1,140 @@
+import { AIConfig, AIProvider, AIResponse, AnalyzeRequest, pageLabel, TextRequest, TokenUsage } from "../aiProvider";
+
+type ChatContent = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+// Converts the Gemini schema format (Type.OBJECT, Type.STRING...) into standard JSON Schema
+const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const converted: any = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (key === 'type' && typeof value === 'string') {
+      converted.type = value.toLowerCase();
+    } else if (key === 'propertyOrdering') {
+      // Gemini-only; JSON Schema models follow the order the properties are declared in
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      converted.properties = Object.fromEntries(
+        Object.entries(value).map(([prop, propSchema]) => [prop, toJsonSchema(propSchema)])
+      );
+    } else {
+      converted[key] = toJsonSchema(value);
+    }
+  });
+  return converted;
+};
+
+const toTokenUsage = (usage?: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage | undefined =>
+  usage ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : undefined;
+
+// Accumulates the deltas of a server-sent events stream ("data: {...}" lines, ended by "data: [DONE]")
+const readStream = async (body: ReadableStream<Uint8Array>, onText: (textSoFar: string) => void): Promise<AIResponse> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: TokenUsage | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      const event = JSON.parse(data);
+      // With include_usage the server sends the totals in a last event without choices
+      usage = toTokenUsage(event.usage) || usage;
+      const delta: string | undefined = event.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+
+  if (!text) throw new Error("No response from AI");
+  return { text, usage };
+};
+
+// Works with any server implementing the OpenAI Chat Completions API (OpenAI, Ollama, vLLM, LM Studio...)
+export const createOpenAICompatibleProvider = (config: AIConfig): AIProvider => {
+  const baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+
+  const chat = async (
+    content: ChatContent[],
+    temperature: number,
+    schema?: object,
+    signal?: AbortSignal,
+    onText?: (textSoFar: string) => void,
+    model = config.model
+  ): Promise<AIResponse> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without authentication
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    const body: Record<string, unknown> = {
+      model,
+      temperature,
+      messages: [{ role: 'user', content }],
+    };
+    if (schema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: toJsonSchema(schema) },
+      };
+    }
+    if (onText) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`AI provider error ${response.status}: ${await response.text()}`);
+    }
+
+    if (onText && response.body) return { ...(await readStream(response.body, onText)), model };
+
+    const json = await response.json();
+    const text: string | undefined = json.choices?.[0]?.message?.content;
+    if (!text) throw new Error("No response from AI");
+    return { text, usage: toTokenUsage(json.usage), model };
+  };
+
+  return {
+    name: 'openai',
+    model: config.model,
+
+    analyze: (request: AnalyzeRequest) => {
+      const content: ChatContent[] = [];
+      request.pages.forEach((page, i) => {
+        content.push({ type: 'text', text: pageLabel(i, request.pages.length) });
+        content.push({ type: 'image_url', image_url: { url: `data:${page.mimeType};base64,${page.data}` } });
+      });
+      content.push({ type: 'text', text: request.prompt });
+      return chat(content, request.temperature, request.schema, request.signal, request.onText, request.model);
+    },
+
+    reevaluate: (request: TextRequest) =>
+      chat([{ type: 'text', text: request.prompt }], request.temperature, request.schema, request.signal),
+
+    summarize: async (request: TextRequest) => {
+      try {
+        return await chat([{ type: 'text', text: request.prompt }], request.temperature, undefined, request.signal);
+      } catch (error) {
+        if (error instanceof Error && error.message === "No response from AI") return { text: "" };
+        throw error;
+      }
+    },
+  };
+};
@@ -0,0 +1,160 @@
+import { AIOperation } from "../aiProvider";
+
+// Default responses used by the stub provider when there is no recording for the exact prompt
+export const DEFAULT_FIXTURES: Record<AIOperation, object | string> = {
+  analyzeExam: {
+    studentName: "Ana Souza",
+    schoolName: "Escola Estadual Exemplo",
+    teacherName: "Prof. Carlos",
+    className: "6º ano B",
+    examDate: "10/03/2025",
+    totalScore: 2.5,
+    maxTotalScore: 4,
+    summary: "Você demonstrou bom domínio das operações com frações, mas precisa revisar a interpretação do texto de apoio.",
+    fullTranscription: "Leia o texto abaixo... 1) Quanto é 1/2 + 1/4? Resposta: 3/4. 2) Qual é a ideia principal do texto? Resposta: falar sobre o rio. 3) Calcule 2³. Resposta: 8.",
+    questions: [
+      {
+        type: "context",
+        questionNumber: "Texto 1",
+        questionText: "O rio que corta a cidade já foi limpo e cheio de peixes. Hoje, a poluição ameaça a vida que existe nele.",
+        page: 1,
+        questionBox: { ymin: 60, xmin: 50, ymax: 180, xmax: 950 }
+      },
+      {
+        type: "question",
+        questionNumber: "1",
+        questionText: "Quanto é 1/2 + 1/4?",
+        alternatives: ["1/6", "2/6", "3/4", "1"],
+        studentAnswer: "C) 3/4",
+        isCorrect: true,
+        score: 1,
+        maxScore: 1,
+        feedback: "Muito bem! Você somou as frações corretamente encontrando o denominador comum.",
+        skills: ["EF06MA07"],
+        page: 1,
+        questionBox: { ymin: 200, xmin: 50, ymax: 400, xmax: 950 },
+        answerBox: { ymin: 320, xmin: 60, ymax: 390, xmax: 400 },
+        confidence: { transcription: 0.95, correctness: 0.98, score: 0.97 }
+      },
+      {
+        type: "question",
+        questionNumber: "2",
+        questionText: "Qual é a ideia principal do Texto 1?",
+        studentAnswer: "Falar sobre o rio.",
+        isCorrect: false,
+        score: 0.5,
+        maxScore: 2,
+        feedback: "Você identificou o assunto, mas não a ideia principal. A resposta correta seria: a poluição ameaça a vida no rio que já foi limpo.",
+        skills: ["EF67LP28"],
+        page: 1,
+        questionBox: { ymin: 420, xmin: 50, ymax: 650, xmax: 950 },
+        answerBox: { ymin: 500, xmin: 60, ymax: 640, xmax: 940 },
+        confidence: { transcription: 0.55, correctness: 0.8, score: 0.6 }
+      },
+      {
+        type: "question",
+        questionNumber: "3",
+        questionText: "Calcule 2³.",
+        studentAnswer: "8",
+        isCorrect: true,
+        score: 1,
+        maxScore: 1,
+        feedback: "Correto! 2 × 2 × 2 = 8.",
+        skills: ["EF06MA03"],
+        page: 1,
+        questionBox: { ymin: 670, xmin: 50, ymax: 860, xmax: 950 },
+        answerBox: { ymin: 760, xmin: 60, ymax: 850, xmax: 300 },
+        confidence: { transcription: 0.9, correctness: 0.95, score: 0.95 }
+      }
+    ]
+  },
+
+  analyzeEssay: {
+    studentName: "Ana Souza",
+    className: "3º ano A",
+    theme: "Desafios para a valorização da herança africana no Brasil",
+    transcription: "A herança africana está presente na cultura brasileira...\nNo entanto, o preconceito ainda impede sua valorização...\nPortanto, cabe ao Ministério da Educação ampliar o ensino da história afro-brasileira nas escolas.",
+    competences: [
+      { competence: 1, score: 160, justification: "Poucos desvios gramaticais, como a ausência de vírgula no segundo parágrafo." },
+      { competence: 2, score: 160, justification: "Você compreendeu o tema e usou repertório pertinente." },
+      { competence: 3, score: 120, justification: "Os argumentos são pertinentes, mas pouco desenvolvidos." },
+      { competence: 4, score: 160, justification: "Bom uso de conectivos entre os parágrafos." },
+      { competence: 5, score: 120, justification: "A proposta apresenta agente e ação, mas falta detalhamento do meio e da finalidade." }
+    ],
+    summary: "Seu texto é bem estruturado. Para melhorar, aprofunde os argumentos e detalhe a proposta de intervenção."
+  },
+
+  reevaluateQuestion: {
+    isCorrect: true,
+    score: 1,
+    feedback: "Após a revisão, sua resposta está correta."
+  },
+
+  gradeWithRubric: {
+    criteria: [],
+    feedback: "Sua resposta atende parcialmente aos critérios da rubrica."
+  },
+
+  regenerateSummary: "Você teve um bom desempenho geral. Continue praticando os pontos em que teve dificuldade.",
+
+  extractAnswerKey: {
+    questions: [
+      {
+        questionNumber: "1",
+        type: "multiple_choice",
+        questionText: "Quanto é 1/2 + 1/4?",
+        alternatives: ["1/6", "2/6", "3/4", "1"],
+        expectedAnswer: "C",
+        acceptedVariants: ["3/4"],
+        maxScore: 1,
+        answerSource: "proposed",
+        confidence: 0.95
+      },
+      {
+        questionNumber: "2",
+        type: "short_answer",
+        questionText: "Qual é a ideia principal do texto?",
+        alternatives: [],
+        expectedAnswer: "A poluição ameaça a vida no rio que corta a cidade.",
+        acceptedVariants: [],
+        maxScore: 2,
+        answerSource: "proposed",
+        confidence: 0.6
+      },
+      {
+        questionNumber: "3",
+        type: "numeric",
+        questionText: "Calcule 2³.",
+        alternatives: [],
+        expectedAnswer: "8",
+        acceptedVariants: [],
+        maxScore: 1,
+        answerSource: "proposed",
+        confidence: 0.98
+      }
+    ]
+  },
+
+  generateRecoveryWorksheet: {
+    questions: [
+      {
+        sourceQuestionNumber: "1",
+        skill: "Soma de frações com denominadores diferentes",
+        difficulty: "easy",
+        questionText: "Quanto é 1/3 + 1/6?",
+        alternatives: ["2/9", "1/2", "2/6", "1/9"],
+        answer: "B",
+        explanation: "O denominador comum é 6: 2/6 + 1/6 = 3/6 = 1/2."
+      },
+      {
+        sourceQuestionNumber: "1",
+        skill: "Soma de frações com denominadores diferentes",
+        difficulty: "easy",
+        questionText: "Calcule 3/4 + 1/8.",
+        alternatives: [],
+        answer: "7/8",
+        explanation: "3/4 = 6/8, então 6/8 + 1/8 = 7/8."
+      }
+    ]
+  }
+};
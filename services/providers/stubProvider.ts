@@ -0,0 +1,100 @@
+import { AIConfig, AIOperation, AIProvider, AIResponse, AnalyzeRequest, createAbortError, PageImage, TextRequest } from "../aiProvider";
+import { DEFAULT_FIXTURES } from "./stubFixtures";
+
+const RECORDINGS_STORAGE_KEY = 'correctorai_ai_recordings';
+// Streaming simulation: the response is delivered in this many pieces, spaced by STREAM_DELAY_MS
+const STREAM_CHUNKS = 8;
+const STREAM_DELAY_MS = 150;
+
+// FNV-1a: small, stable hash so identical prompts (and page images) map to the same recording
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Analyses of different exams share the prompt, so the page images are part of their key
+const recordingKey = (operation: AIOperation, prompt: string, pages: PageImage[] = []) =>
+  [operation, hashText(prompt), ...pages.map(page => hashText(page.data))].join(':');
+
+const loadRecordings = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveRecording = (key: string, response: string) => {
+  try {
+    const recordings = loadRecordings();
+    recordings[key] = response;
+    localStorage.setItem(RECORDINGS_STORAGE_KEY, JSON.stringify(recordings));
+  } catch (error) {
+    console.warn("Could not store AI recording", error);
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const timeoutId = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeoutId);
+    reject(createAbortError());
+  }, { once: true });
+});
+
+// Offline provider: replays a recorded response for the exact prompt, or the default fixture of the operation
+export const createStubProvider = (config: AIConfig): AIProvider => {
+
+  // No tokens are spent offline, so no usage is reported
+  const replay = async (operation: AIOperation, prompt: string, signal?: AbortSignal, pages?: PageImage[]): Promise<AIResponse> => {
+    signal?.throwIfAborted();
+    const recorded = loadRecordings()[recordingKey(operation, prompt, pages)];
+    if (recorded !== undefined) return { text: recorded };
+
+    const fixture = DEFAULT_FIXTURES[operation];
+    return { text: typeof fixture === 'string' ? fixture : JSON.stringify(fixture) };
+  };
+
+  const replayStreaming = async (request: AnalyzeRequest): Promise<AIResponse> => {
+    const response = await replay(request.operation, request.prompt, request.signal, request.pages);
+    if (!request.onText) return response;
+
+    const { text } = response;
+    const chunkSize = Math.ceil(text.length / STREAM_CHUNKS);
+    for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+      await wait(STREAM_DELAY_MS, request.signal);
+      request.onText(text.slice(0, end));
+    }
+    return response;
+  };
+
+  return {
+    name: 'stub',
+    model: config.model,
+    analyze: (request: AnalyzeRequest) => replayStreaming(request),
+    reevaluate: (request: TextRequest) => replay(request.operation, request.prompt, request.signal),
+    summarize: (request: TextRequest) => replay(request.operation, request.prompt, request.signal),
+  };
+};
+
+// Decorator that stores every real response so it can be replayed offline by the stub
+export const withRecording = (provider: AIProvider): AIProvider => {
+  const record = async (operation: AIOperation, prompt: string, call: Promise<AIResponse>, pages?: PageImage[]) => {
+    const response = await call;
+    saveRecording(recordingKey(operation, prompt, pages), response.text);
+    return response;
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    analyze: (request) => record(request.operation, request.prompt, provider.analyze(request), request.pages),
+    reevaluate: (request) => record(request.operation, request.prompt, provider.reevaluate(request)),
+    summarize: (request) => record(request.operation, request.prompt, provider.summarize(request)),
+  };
+};
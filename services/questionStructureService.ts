@@ -0,0 +1,157 @@
+import { QuestionResult } from "../types";
+import { copyQuestionNumber } from "./answerKeyService";
+import { calculateTotals } from "./scoreService";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const createItemId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Gives every item an id that follows it through inserts, moves, splits and merges (used as the React key).
+ * Items read by the AI get one from their position, so streamed partial results keep the same ids.
+ * Returns the same array when nothing was missing.
+ */
+export const ensureItemIds = (questions: QuestionResult[]): QuestionResult[] =>
+  questions.every(q => q.id) ? questions : questions.map((q, i) => q.id ? q : { ...q, id: `item-${i}` });
+
+// Fields produced by the AI judgement of one item; they no longer apply once the item is split, merged or converted
+const clearJudgementDetails = (question: QuestionResult): QuestionResult => {
+  const { opinions, disagreement, mathCheck, rubricScores, confidence, ...rest } = question;
+  return { ...rest, reviewed: false };
+};
+
+export const createQuestionItem = (questionNumber: string, page?: number): QuestionResult => ({
+  id: createItemId(),
+  type: 'question',
+  questionNumber,
+  questionText: '',
+  studentAnswer: '',
+  isCorrect: false,
+  score: 0,
+  maxScore: 1,
+  feedback: '',
+  page,
+  skillsConfirmed: true,
+});
+
+export const createContextItem = (page?: number): QuestionResult => ({
+  id: createItemId(),
+  type: 'context',
+  questionNumber: '',
+  questionText: '',
+  page,
+});
+
+// Number after the last numbered question, for items added by the teacher
+export const suggestNextNumber = (questions: QuestionResult[]): string => {
+  const numbers = questions
+    .filter(q => q.type !== 'context')
+    .map(q => parseInt(q.questionNumber, 10))
+    .filter(n => !isNaN(n));
+  return String(numbers.length > 0 ? Math.max(...numbers) + 1 : 1);
+};
+
+export const insertItem = (questions: QuestionResult[], index: number, item: QuestionResult): QuestionResult[] => {
+  const updated = [...questions];
+  updated.splice(index, 0, item);
+  return updated;
+};
+
+export const removeItem = (questions: QuestionResult[], index: number): QuestionResult[] =>
+  questions.filter((_, i) => i !== index);
+
+export const moveItem = (questions: QuestionResult[], from: number, to: number): QuestionResult[] => {
+  const updated = [...questions];
+  const [moved] = updated.splice(from, 1);
+  updated.splice(to, 0, moved);
+  return updated;
+};
+
+// "13" becomes "13 a" / "13 b"; "13 a" becomes "13 a" / "13 a (cópia 2)"
+const splitNumbers = (questionNumber: string): [string, string] =>
+  /\d$/.test(questionNumber.trim())
+    ? [`${questionNumber.trim()} a`, `${questionNumber.trim()} b`]
+    : [questionNumber, copyQuestionNumber(questionNumber, 2)];
+
+/**
+ * Splits an item the model read as one (e.g. "13 a" and "13 b" together) into two copies for the teacher to trim.
+ * The value and the score of a question are divided evenly between the halves.
+ */
+export const splitItem = (questions: QuestionResult[], index: number): QuestionResult[] => {
+  const original = questions[index];
+  if (!original) return questions;
+  if (original.type === 'context') return insertItem(questions, index + 1, { ...original, id: createItemId() });
+
+  const [firstNumber, secondNumber] = splitNumbers(original.questionNumber);
+  const half = (value?: number) => round2((value || 0) / 2);
+  const base = clearJudgementDetails(original);
+  const first: QuestionResult = { ...base, questionNumber: firstNumber, score: half(original.score), maxScore: half(original.maxScore) };
+  const second: QuestionResult = {
+    ...base,
+    id: createItemId(),
+    questionNumber: secondNumber,
+    score: round2((original.score || 0) - half(original.score)),
+    maxScore: round2((original.maxScore || 0) - half(original.maxScore)),
+  };
+  const updated = [...questions];
+  updated.splice(index, 1, first, second);
+  return updated;
+};
+
+// "13 a" + "13 b" share the number "13"; unrelated numbers are joined
+const mergeNumbers = (a: string, b: string) => {
+  const prefixA = a.match(/^\s*(\d+)/)?.[1];
+  const prefixB = b.match(/^\s*(\d+)/)?.[1];
+  if (prefixA && prefixA === prefixB) return prefixA;
+  return [a, b].filter(n => n.trim()).join(' + ');
+};
+
+const joinText = (a?: string, b?: string) => [a, b].filter(text => text && text.trim()).join('\n\n');
+
+// Merges an item with the next one; only items of the same type can be merged
+export const canMergeWithNext = (questions: QuestionResult[], index: number) =>
+  index + 1 < questions.length && (questions[index].type === 'context') === (questions[index + 1].type === 'context');
+
+export const mergeWithNext = (questions: QuestionResult[], index: number): QuestionResult[] => {
+  if (!canMergeWithNext(questions, index)) return questions;
+  const first = questions[index];
+  const second = questions[index + 1];
+
+  const merged: QuestionResult = first.type === 'context'
+    ? { ...first, questionNumber: mergeNumbers(first.questionNumber, second.questionNumber), questionText: joinText(first.questionText, second.questionText) }
+    : {
+        ...clearJudgementDetails(first),
+        questionNumber: mergeNumbers(first.questionNumber, second.questionNumber),
+        questionText: joinText(first.questionText, second.questionText),
+        alternatives: [...(first.alternatives || []), ...(second.alternatives || [])],
+        studentAnswer: joinText(first.studentAnswer, second.studentAnswer),
+        feedback: joinText(first.feedback, second.feedback),
+        score: round2((first.score || 0) + (second.score || 0)),
+        maxScore: round2((first.maxScore || 0) + (second.maxScore || 0)),
+        isCorrect: !!first.isCorrect && !!second.isCorrect,
+        skills: Array.from(new Set([...(first.skills || []), ...(second.skills || [])])),
+        answerBox: first.answerBox || second.answerBox,
+      };
+
+  const updated = [...questions];
+  updated.splice(index, 2, merged);
+  return updated;
+};
+
+// A question becomes a support text (losing its grade) and vice versa (starting ungraded)
+export const convertItemType = (questions: QuestionResult[], index: number, fallbackNumber: string): QuestionResult[] => {
+  const original = questions[index];
+  if (!original) return questions;
+
+  let converted: QuestionResult;
+  if (original.type === 'context') {
+    converted = { ...createQuestionItem(original.questionNumber || fallbackNumber, original.page), questionText: original.questionText, questionBox: original.questionBox };
+  } else {
+    converted = { ...createContextItem(original.page), questionNumber: original.questionNumber, questionText: original.questionText, questionBox: original.questionBox };
+  }
+  converted.id = original.id || converted.id;
+  return questions.map((q, i) => i === index ? converted : q);
+};
+
+// Applies a structural change and recalculates the (weighted) totals
+export const withTotals = (questions: QuestionResult[]) => ({ questions, ...calculateTotals(questions) });
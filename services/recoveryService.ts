@@ -0,0 +1,52 @@
+import { AnswerKey, CorrectionResult, QuestionResult, RecoveryDifficulty, RecoveryQuestion } from "../types";
+import { findAnswerKeyItem, MC_LETTER_PATTERN } from "./answerKeyService";
+
+export const RECOVERY_DIFFICULTY_LABELS: Record<RecoveryDifficulty, string> = {
+  easy: 'Fácil',
+  medium: 'Média',
+  hard: 'Difícil',
+};
+
+export const DEFAULT_QUESTIONS_PER_MISTAKE = 2;
+export const MAX_QUESTIONS_PER_MISTAKE = 3;
+
+// Wrong or partially right questions; context items and ungraded questions are left out
+export const getMissedQuestions = (data: CorrectionResult): QuestionResult[] =>
+  data.questions.filter(q =>
+    q.type !== 'context' &&
+    typeof q.maxScore === 'number' && q.maxScore > 0 &&
+    (q.isCorrect === false || (q.score ?? 0) < q.maxScore)
+  );
+
+// Each missed question with the student's answer, the grade and the expected answer from the teacher's key
+export const formatMissedQuestionsForPrompt = (questions: QuestionResult[], answerKey: AnswerKey): string =>
+  questions.map(q => {
+    const keyItem = findAnswerKeyItem(answerKey, q.questionNumber);
+    return [
+      `- Questão ${q.questionNumber}: ${q.questionText}`,
+      q.alternatives && q.alternatives.length > 0 ? `  Alternativas: ${q.alternatives.join(' | ')}` : null,
+      `  Resposta do aluno: ${q.studentAnswer || '(em branco)'}`,
+      `  Nota: ${q.score ?? 0} de ${q.maxScore}`,
+      keyItem?.expectedAnswer ? `  Resposta esperada: ${keyItem.expectedAnswer}` : null,
+      q.feedback ? `  Comentário da correção: ${q.feedback}` : null,
+    ].filter(Boolean).join('\n');
+  }).join('\n\n');
+
+// Drops empty questions and fixes the fields the printed worksheet relies on
+export const normalizeRecoveryQuestions = (raw: Partial<RecoveryQuestion>[]): RecoveryQuestion[] =>
+  raw.flatMap(item => {
+    const questionText = String(item.questionText ?? '').trim();
+    if (!questionText) return [];
+    const alternatives = Array.isArray(item.alternatives) ? item.alternatives.map(String).filter(a => a.trim()) : [];
+    const answer = String(item.answer ?? '').trim();
+    const difficulty = item.difficulty && item.difficulty in RECOVERY_DIFFICULTY_LABELS ? item.difficulty : 'medium';
+    return [{
+      sourceQuestionNumber: String(item.sourceQuestionNumber ?? '').trim(),
+      skill: String(item.skill ?? '').trim(),
+      difficulty,
+      questionText,
+      alternatives,
+      answer: alternatives.length > 0 ? (MC_LETTER_PATTERN.exec(answer)?.[1].toUpperCase() || answer) : answer,
+      explanation: String(item.explanation ?? '').trim(),
+    }];
+  });
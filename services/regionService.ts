@@ -0,0 +1,49 @@
+import { BoundingBox } from "../types";
+
+const BOX_SCALE = 1000;
+// Boxes smaller than this (in 0-1000 units) are treated as noise
+const MIN_BOX_SIZE = 5;
+
+const clampCoordinate = (value: number) => Math.min(Math.max(value, 0), BOX_SCALE);
+
+// Sanitizes a box returned by the AI: clamps to the page, fixes swapped corners and drops unusable boxes
+export const normalizeBox = (box?: Partial<BoundingBox> | null): BoundingBox | undefined => {
+  if (!box) return undefined;
+  const values = [box.ymin, box.xmin, box.ymax, box.xmax].map(Number);
+  if (values.some(v => !isFinite(v))) return undefined;
+
+  const [y1, x1, y2, x2] = values.map(clampCoordinate);
+  const normalized = {
+    ymin: Math.min(y1, y2),
+    xmin: Math.min(x1, x2),
+    ymax: Math.max(y1, y2),
+    xmax: Math.max(x1, x2),
+  };
+  if (normalized.ymax - normalized.ymin < MIN_BOX_SIZE || normalized.xmax - normalized.xmin < MIN_BOX_SIZE) {
+    return undefined;
+  }
+  return normalized;
+};
+
+// Absolute-position style (in %) to draw the box over the rendered page image
+export const boxToPercentStyle = (box: BoundingBox): { top: string; left: string; width: string; height: string } => ({
+  top: `${box.ymin / 10}%`,
+  left: `${box.xmin / 10}%`,
+  width: `${(box.xmax - box.xmin) / 10}%`,
+  height: `${(box.ymax - box.ymin) / 10}%`,
+});
+
+// Grows the box by a margin so the crop keeps some surrounding context
+export const padBox = (box: BoundingBox, margin = 20): BoundingBox => ({
+  ymin: clampCoordinate(box.ymin - margin),
+  xmin: clampCoordinate(box.xmin - margin),
+  ymax: clampCoordinate(box.ymax + margin),
+  xmax: clampCoordinate(box.xmax + margin),
+});
+
+// 0-based index of the page image holding the question (single-page exams default to the first image)
+export const getPageIndex = (page: number | undefined, pageCount: number): number | undefined => {
+  if (page === undefined) return pageCount === 1 ? 0 : undefined;
+  const index = Math.round(page) - 1;
+  return index >= 0 && index < pageCount ? index : undefined;
+};
@@ -0,0 +1,82 @@
+import { AnswerKey, CorrectionResult, FeedbackStyle, PromptTemplateRef } from "../types";
+import { ConsensusSettings } from "./consensusService";
+import { resolveScoringPolicy } from "./scoringPolicyService";
+
+const CACHE_STORAGE_KEY = 'correctorai_result_cache';
+// Oldest entries are dropped beyond this many (and when the browser storage is full)
+const MAX_CACHE_ENTRIES = 30;
+
+export interface CachedCorrection {
+  hash: string;
+  userId: string;
+  savedAt: string; // ISO timestamp of the analysis
+  result: CorrectionResult;
+}
+
+// Everything besides the pages and the key that shapes what the analysis returns
+export interface AnalysisCacheSettings {
+  template: PromptTemplateRef;
+  feedbackStyle: FeedbackStyle;
+  consensus: ConsensusSettings;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of the page images (in order), the whole answer key (item ids and the scoring policy in effect included)
+ * and the analysis settings, so a correction made under other settings is never reused. The template counts by id
+ * and version; consensus runs and models only count while consensus is on. Returns null where Web Crypto
+ * is unavailable (pages served over plain http).
+ */
+export const computeAnalysisHash = async (
+  pageFiles: File[],
+  answerKey: AnswerKey,
+  settings: AnalysisCacheSettings
+): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const pageHashes = await Promise.all(
+    pageFiles.map(async file => toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer())))
+  );
+  const inputJson = JSON.stringify({
+    answerKey: { ...answerKey, scoringPolicy: resolveScoringPolicy(answerKey) },
+    template: { templateId: settings.template.templateId, version: settings.template.version },
+    feedbackStyle: settings.feedbackStyle,
+    consensus: settings.consensus.enabled ? settings.consensus : { enabled: false },
+  });
+  const payload = new TextEncoder().encode(`${pageHashes.join(',')}|${inputJson}`);
+  return toHex(await crypto.subtle.digest('SHA-256', payload));
+};
+
+const loadCache = (): CachedCorrection[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CACHE_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveCache = (entries: CachedCorrection[]) => {
+  let kept = entries.slice(0, MAX_CACHE_ENTRIES);
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(kept));
+      return;
+    } catch {
+      // Storage quota exceeded: drop the oldest correction and try again
+      kept = kept.slice(0, -1);
+    }
+  }
+  localStorage.removeItem(CACHE_STORAGE_KEY);
+};
+
+export const findCachedCorrection = (hash: string, userId: string): CachedCorrection | undefined =>
+  loadCache().find(entry => entry.hash === hash && entry.userId === userId);
+
+// Stores (or replaces) the correction for the hash; the newest entry goes first
+export const cacheCorrection = (hash: string, userId: string, result: CorrectionResult) => {
+  const previous = findCachedCorrection(hash, userId);
+  const entry: CachedCorrection = { hash, userId, savedAt: previous?.savedAt || new Date().toISOString(), result };
+  saveCache([entry, ...loadCache().filter(e => !(e.hash === hash && e.userId === userId))]);
+};
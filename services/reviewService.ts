@@ -0,0 +1,47 @@
+import { QuestionConfidence, QuestionResult } from "../types";
+
+// Below this certainty the teacher must look at the question before finalizing
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const CONFIDENCE_FIELD_LABELS: Record<keyof QuestionConfidence, string> = {
+  transcription: 'Transcrição',
+  correctness: 'Correção',
+  score: 'Nota',
+};
+
+// Accepts 0-1 or 0-100 values from the model and clamps them to 0-1
+export const normalizeConfidence = (confidence?: Partial<QuestionConfidence> | null): QuestionConfidence | undefined => {
+  if (!confidence) return undefined;
+  const normalize = (value: unknown) => {
+    const num = Number(value);
+    if (!isFinite(num)) return 1;
+    const scaled = num > 1 ? num / 100 : num;
+    return Math.min(Math.max(scaled, 0), 1);
+  };
+  return {
+    transcription: normalize(confidence.transcription),
+    correctness: normalize(confidence.correctness),
+    score: normalize(confidence.score),
+  };
+};
+
+export const getLowConfidenceFields = (question: QuestionResult): (keyof QuestionConfidence)[] => {
+  if (question.type === 'context' || !question.confidence) return [];
+  return (Object.keys(CONFIDENCE_FIELD_LABELS) as (keyof QuestionConfidence)[])
+    .filter(field => question.confidence![field] < LOW_CONFIDENCE_THRESHOLD);
+};
+
+// The math checker and the current verdict disagree (only while the checked transcription is unchanged)
+export const hasMathConflict = (question: QuestionResult) => {
+  const check = question.mathCheck;
+  if (!check || check.overridden || check.studentAnswer !== question.studentAnswer?.trim()) return false;
+  return (check.verdict === 'equivalent') !== !!question.isCorrect;
+};
+
+// Low confidence or, in consensus mode, runs that disagreed, or a conflict with the math checker
+export const isFlaggedForReview = (question: QuestionResult) =>
+  getLowConfidenceFields(question).length > 0
+  || (question.type !== 'context' && (!!question.disagreement || hasMathConflict(question)));
+
+export const getPendingReviewCount = (questions: QuestionResult[]) =>
+  questions.filter(q => isFlaggedForReview(q) && !q.reviewed).length;
@@ -0,0 +1,51 @@
+import { RubricCriterion, RubricCriterionScore } from "../types";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const createRubricCriterion = (name: string = ""): RubricCriterion => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  levels: [
+    { label: "Insuficiente", points: 0 },
+    { label: "Parcial", points: 0.5 },
+    { label: "Adequado", points: 1 },
+  ],
+});
+
+const getMaxLevelPoints = (levels: { points: number }[]) =>
+  levels.reduce((max, level) => Math.max(max, level.points), 0);
+
+// Maximum score of a question graded with the given rubric
+export const getRubricMaxScore = (criteria: RubricCriterion[]) =>
+  round2(criteria.reduce((acc, c) => acc + getMaxLevelPoints(c.levels), 0));
+
+// Rescales the level points so the whole rubric is worth maxScore (the question value in the answer key);
+// the rounding leftover goes to the top level of the last criterion so the maximum is exact
+export const scaleRubric = (criteria: RubricCriterion[], maxScore: number): RubricCriterion[] => {
+  const rubricMax = getRubricMaxScore(criteria);
+  if (rubricMax <= 0 || maxScore <= 0 || rubricMax === maxScore) return criteria;
+
+  const factor = maxScore / rubricMax;
+  const scaled = criteria.map(c => ({ ...c, levels: c.levels.map(l => ({ ...l, points: round2(l.points * factor) })) }));
+  const leftover = round2(maxScore - getRubricMaxScore(scaled));
+  if (leftover !== 0) {
+    const last = scaled[scaled.length - 1];
+    const topIndex = last.levels.findIndex(l => l.points === getMaxLevelPoints(last.levels));
+    last.levels = last.levels.map((l, i) => i === topIndex ? { ...l, points: round2(l.points + leftover) } : l);
+  }
+  return scaled;
+};
+
+export const getCriterionPoints = (criterionScore: RubricCriterionScore) =>
+  criterionScore.levels[criterionScore.levelIndex]?.points ?? 0;
+
+export const getCriterionMaxPoints = (criterionScore: RubricCriterionScore) =>
+  getMaxLevelPoints(criterionScore.levels);
+
+// Question score is always the sum of the chosen levels
+export const sumRubricScores = (scores: RubricCriterionScore[]) =>
+  round2(scores.reduce((acc, s) => acc + getCriterionPoints(s), 0));
+
+// Turns the rubric criteria back into editable definitions (used to re-grade a graded question)
+export const criteriaFromScores = (scores: RubricCriterionScore[]): RubricCriterion[] =>
+  scores.map(s => ({ id: s.criterionId, name: s.name, levels: s.levels }));
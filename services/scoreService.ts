@@ -0,0 +1,18 @@
+import { QuestionResult } from "../types";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Sums the (weighted) scores of the gradable items, ignoring context blocks
+export const calculateTotals = (questions: QuestionResult[]): { totalScore: number; maxTotalScore: number } => {
+  let totalScore = 0;
+  let maxTotalScore = 0;
+
+  questions.forEach(q => {
+    if (q.type === 'context') return;
+    const weight = q.weight ?? 1;
+    totalScore += (q.score || 0) * weight;
+    maxTotalScore += (q.maxScore || 0) * weight;
+  });
+
+  return { totalScore: round2(totalScore), maxTotalScore: round2(maxTotalScore) };
+};
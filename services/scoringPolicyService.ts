@@ -0,0 +1,162 @@
+import { AnswerKey, CorrectionResult, GradeRounding, GradeScale, QuestionResult, ScoringPolicy } from "../types";
+import { findAnswerKeyItem } from "./answerKeyService";
+
+const POLICY_STORAGE_KEY = 'correctorai_scoring_policy';
+
+export const GRADE_SCALE_LABELS: Record<GradeScale, string> = {
+  points: 'Pontos da prova',
+  ten: '0 a 10',
+  hundred: '0 a 100',
+  concept: 'Conceitos (A–E)',
+};
+
+export const GRADE_ROUNDING_LABELS: Record<GradeRounding, string> = {
+  none: 'Sem arredondamento',
+  'one-decimal': 'Uma casa decimal',
+  half: 'Múltiplos de 0,5',
+  integer: 'Número inteiro',
+};
+
+export const DEFAULT_CONCEPT_BANDS = [
+  { concept: 'A', minPercent: 90 },
+  { concept: 'B', minPercent: 75 },
+  { concept: 'C', minPercent: 60 },
+  { concept: 'D', minPercent: 40 },
+  { concept: 'E', minPercent: 0 },
+];
+
+// Matches the behavior before policies existed: raw points, 70% to pass, no penalties
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  scale: 'points',
+  rounding: 'none',
+  passingPercent: 70,
+  conceptBands: DEFAULT_CONCEPT_BANDS,
+  wrongAnswerPenalty: 0,
+};
+
+// Starting points for the most common school rules
+export const SCORING_PRESETS: { label: string; policy: ScoringPolicy }[] = [
+  { label: 'Pontos da prova', policy: DEFAULT_SCORING_POLICY },
+  { label: 'Nota de 0 a 10 (uma casa)', policy: { ...DEFAULT_SCORING_POLICY, scale: 'ten', rounding: 'one-decimal', passingPercent: 60 } },
+  { label: 'Nota de 0 a 10 (arredondar para 0,5)', policy: { ...DEFAULT_SCORING_POLICY, scale: 'ten', rounding: 'half', passingPercent: 60 } },
+  { label: 'Conceitos A–E', policy: { ...DEFAULT_SCORING_POLICY, scale: 'concept', passingPercent: 60 } },
+  { label: 'Múltipla escolha com penalidade (1/4)', policy: { ...DEFAULT_SCORING_POLICY, scale: 'ten', rounding: 'one-decimal', passingPercent: 60, wrongAnswerPenalty: 0.25 } },
+];
+
+// School-wide default, stored in the browser and used by exams without their own policy
+export const loadSchoolScoringPolicy = (): ScoringPolicy => {
+  try {
+    const stored = localStorage.getItem(POLICY_STORAGE_KEY);
+    return stored ? { ...DEFAULT_SCORING_POLICY, ...JSON.parse(stored) } : DEFAULT_SCORING_POLICY;
+  } catch {
+    return DEFAULT_SCORING_POLICY;
+  }
+};
+
+export const saveSchoolScoringPolicy = (policy: ScoringPolicy) => {
+  localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
+
+export const resolveScoringPolicy = (answerKey?: AnswerKey): ScoringPolicy =>
+  answerKey?.scoringPolicy || loadSchoolScoringPolicy();
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const roundGrade = (value: number, rounding: GradeRounding) => {
+  switch (rounding) {
+    case 'one-decimal': return Math.round(value * 10) / 10;
+    case 'half': return Math.round(value * 2) / 2;
+    case 'integer': return Math.round(value);
+    default: return round2(value);
+  }
+};
+
+export const formatNumber = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+
+// Color band of a percentage: at or above the pass mark, up to 20 points below it, or further below
+export type PerformanceBand = 'passing' | 'near' | 'failing';
+export const getPerformanceBand = (percent: number, policy: ScoringPolicy): PerformanceBand =>
+  percent >= policy.passingPercent ? 'passing' : percent >= policy.passingPercent - 20 ? 'near' : 'failing';
+
+const isMultipleChoice = (question: QuestionResult, answerKey?: AnswerKey) => {
+  const keyItem = answerKey ? findAnswerKeyItem(answerKey, question.questionNumber) : undefined;
+  return keyItem ? keyItem.type === 'multiple_choice' : (question.alternatives?.length || 0) > 0;
+};
+
+// Points removed by the wrong-answer penalty (weighted like the scores)
+export const getWrongAnswerPenalty = (questions: QuestionResult[], policy: ScoringPolicy, answerKey?: AnswerKey) => {
+  if (policy.wrongAnswerPenalty <= 0) return 0;
+  const penalty = questions.reduce((sum, q) => {
+    if (q.type === 'context' || q.isCorrect || !q.studentAnswer?.trim() || !isMultipleChoice(q, answerKey)) return sum;
+    return sum + policy.wrongAnswerPenalty * (q.maxScore || 0) * (q.weight ?? 1);
+  }, 0);
+  return round2(penalty);
+};
+
+export interface GradeSummary {
+  points: number; // Weighted score after penalties, never below zero
+  maxPoints: number;
+  penalty: number;
+  percent: number; // 0-100
+  grade: number | null; // On the policy scale; null for concepts
+  concept?: string;
+  gradeText: string; // "7,5", "B", "12,5"
+  scaleText: string; // "/ 10", "/ 20 pts" or "" for concepts
+  passed: boolean;
+}
+
+export const getConcept = (percent: number, policy: ScoringPolicy) => {
+  const bands = [...policy.conceptBands].sort((a, b) => b.minPercent - a.minPercent);
+  return (bands.find(band => percent >= band.minPercent) || bands[bands.length - 1])?.concept || '';
+};
+
+// Applies the policy to a correction. Every place that shows a final grade goes through here.
+export const summarizeGrade = (result: CorrectionResult, policy: ScoringPolicy, answerKey?: AnswerKey): GradeSummary => {
+  const penalty = getWrongAnswerPenalty(result.questions, policy, answerKey);
+  const points = Math.max(0, round2(result.totalScore - penalty));
+  const maxPoints = result.maxTotalScore;
+  const percent = maxPoints > 0 ? (points / maxPoints) * 100 : 0;
+  const base = { points, maxPoints, penalty, percent };
+
+  if (policy.scale === 'concept') {
+    const concept = getConcept(percent, policy);
+    return { ...base, grade: null, concept, gradeText: concept, scaleText: '', passed: percent >= policy.passingPercent };
+  }
+
+  const scaleMax = policy.scale === 'ten' ? 10 : policy.scale === 'hundred' ? 100 : maxPoints;
+  const grade = roundGrade(policy.scale === 'points' ? points : (percent / 100) * scaleMax, policy.rounding);
+  // The pass decision uses the rounded grade, as in the school's report card
+  const passed = scaleMax > 0 && grade >= roundGrade((policy.passingPercent / 100) * scaleMax, policy.rounding) - 1e-9;
+
+  return {
+    ...base,
+    grade,
+    gradeText: formatNumber(grade),
+    scaleText: policy.scale === 'points' ? `/ ${formatNumber(maxPoints)} pts` : `/ ${scaleMax}`,
+    passed,
+  };
+};
+
+export interface ClassSummary {
+  count: number;
+  passedCount: number;
+  averagePercent: number;
+  averageText: string; // On the policy scale (the most frequent concept for concept scales)
+}
+
+// Aggregate of several corrections of the same exam under one policy
+export const summarizeClass = (results: CorrectionResult[], policy: ScoringPolicy, answerKey?: AnswerKey): ClassSummary => {
+  const grades = results.map(r => summarizeGrade(r, policy, answerKey));
+  const count = grades.length;
+  const averagePercent = count > 0 ? grades.reduce((sum, g) => sum + g.percent, 0) / count : 0;
+
+  let averageText: string;
+  if (policy.scale === 'concept') {
+    averageText = getConcept(averagePercent, policy);
+  } else {
+    const average = count > 0 ? grades.reduce((sum, g) => sum + (g.grade || 0), 0) / count : 0;
+    averageText = formatNumber(roundGrade(average, policy.rounding));
+  }
+
+  return { count, passedCount: grades.filter(g => g.passed).length, averagePercent, averageText };
+};
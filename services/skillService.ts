@@ -0,0 +1,82 @@
+import { AnswerKey, AnswerKeyItem, CorrectionResult, QuestionResult } from "../types";
+import { findAnswerKeyItem } from "./answerKeyService";
+
+// BNCC codes: EI03EF01 (infantil), EF06MA03 / EF69LP01 (fundamental), EM13MAT101 / EM13LGG101 (médio)
+const BNCC_CODE_PATTERN = /^(EI\d{2}[A-Z]{2}\d{2}|EF\d{2}[A-Z]{2}\d{2}|EM\d{2}[A-Z]{3}\d{3})$/;
+
+export const isValidSkillCode = (code: string) => BNCC_CODE_PATTERN.test(code);
+
+// Upper-cased, unique and valid codes; anything else the model or the teacher typed is dropped
+export const normalizeSkillCodes = (raw: unknown): string[] => {
+  if (!Array.isArray(raw)) return [];
+  const codes = raw.map(code => String(code).toUpperCase().replace(/[^A-Z0-9]/g, '')).filter(isValidSkillCode);
+  return Array.from(new Set(codes));
+};
+
+// Splits free text ("EF06MA03, ef06ma04") into codes, keeping the invalid ones apart so the UI can point them out
+export const parseSkillCodes = (text: string): { codes: string[]; invalid: string[] } => {
+  const tokens = text.split(/[\s,;]+/).map(token => token.trim()).filter(Boolean);
+  return {
+    codes: normalizeSkillCodes(tokens),
+    invalid: tokens.filter(token => !isValidSkillCode(token.toUpperCase().replace(/[^A-Z0-9]/g, ''))),
+  };
+};
+
+export const formatSkillCodes = (codes: string[] = []) => codes.join(', ');
+
+// Skills set by the teacher in the answer key win over the ones suggested by the model
+export const resolveQuestionSkills = (suggested: unknown, keyItem?: AnswerKeyItem): { skills: string[]; skillsConfirmed: boolean } => {
+  const keySkills = normalizeSkillCodes(keyItem?.skills);
+  if (keySkills.length > 0) return { skills: keySkills, skillsConfirmed: true };
+  return { skills: normalizeSkillCodes(suggested), skillsConfirmed: false };
+};
+
+export const getQuestionSkills = (question: QuestionResult, answerKey?: AnswerKey): string[] => {
+  if (question.skills && question.skills.length > 0) return question.skills;
+  const keyItem = answerKey ? findAnswerKeyItem(answerKey, question.questionNumber) : undefined;
+  return normalizeSkillCodes(keyItem?.skills);
+};
+
+export interface SkillSummary {
+  code: string;
+  earned: number; // Weighted points, like the exam totals
+  possible: number;
+  percent: number;
+  questionNumbers: string[];
+  pendingConfirmation: boolean; // At least one question only has the model's suggestion
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Points earned vs. possible for each skill. A question tagged with several skills counts in full for each of them,
+ * so the rows do not add up to the exam total.
+ */
+export const summarizeSkills = (data: CorrectionResult, answerKey?: AnswerKey): { skills: SkillSummary[]; untaggedCount: number } => {
+  const bySkill = new Map<string, SkillSummary>();
+  let untaggedCount = 0;
+
+  data.questions.forEach(q => {
+    if (q.type === 'context') return;
+    const codes = getQuestionSkills(q, answerKey);
+    if (codes.length === 0) {
+      untaggedCount++;
+      return;
+    }
+    const weight = q.weight ?? 1;
+    const pending = !!q.skills?.length && !q.skillsConfirmed;
+    codes.forEach(code => {
+      const summary = bySkill.get(code) || { code, earned: 0, possible: 0, percent: 0, questionNumbers: [], pendingConfirmation: false };
+      summary.earned += (q.score || 0) * weight;
+      summary.possible += (q.maxScore || 0) * weight;
+      summary.questionNumbers.push(q.questionNumber);
+      summary.pendingConfirmation = summary.pendingConfirmation || pending;
+      bySkill.set(code, summary);
+    });
+  });
+
+  const skills = Array.from(bySkill.values())
+    .map(s => ({ ...s, earned: round2(s.earned), possible: round2(s.possible), percent: s.possible > 0 ? Math.round((s.earned / s.possible) * 100) : 0 }))
+    .sort((a, b) => a.code.localeCompare(b.code));
+  return { skills, untaggedCount };
+};
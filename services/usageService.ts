@@ -0,0 +1,173 @@
+import { AIUsageRecord } from "../types";
+import { AIOperation, AIProvider, AIResponse, getAIProvider } from "./aiProvider";
+
+// Price in USD per million tokens. Update together with the providers' price pages.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+};
+
+// Unknown (e.g. local) models are priced like the default Gemini model so costs are never hidden
+const FALLBACK_PRICING = MODEL_PRICING['gemini-2.5-flash'];
+
+// Exchange rate used to compare the token cost with the credit prices in reais
+export const USD_TO_BRL = 5.5;
+
+// Correction the calls belong to; `records` collects them so they can be attached to the result
+export interface UsageScope {
+  correctionId?: string;
+  records?: AIUsageRecord[];
+}
+
+type UsageListener = (record: AIUsageRecord) => void;
+
+let usageListener: UsageListener | null = null;
+
+// The dashboard registers a listener that persists every record for the signed-in user
+export const setUsageListener = (listener: UsageListener | null) => {
+  usageListener = listener;
+};
+
+export const createCorrectionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Runs one provider call, measuring latency and recording the tokens it reports. Returns the model text.
+export const trackUsage = async (
+  operation: AIOperation,
+  scope: UsageScope,
+  imageBytes: number,
+  call: (provider: AIProvider) => Promise<AIResponse>
+): Promise<string> => {
+  const provider = getAIProvider();
+  const startedAt = performance.now();
+  const response = await call(provider);
+
+  const record: AIUsageRecord = {
+    correctionId: scope.correctionId,
+    operation,
+    provider: provider.name,
+    model: response.model || provider.model,
+    inputTokens: response.usage?.inputTokens ?? 0,
+    outputTokens: response.usage?.outputTokens ?? 0,
+    latencyMs: Math.round(performance.now() - startedAt),
+    imageBytes,
+    createdAt: new Date().toISOString(),
+  };
+  scope.records?.push(record);
+  usageListener?.(record);
+
+  return response.text;
+};
+
+export const getUsageCostBrl = (record: AIUsageRecord) => {
+  const pricing = MODEL_PRICING[record.model] || FALLBACK_PRICING;
+  const usd = (record.inputTokens * pricing.input + record.outputTokens * pricing.output) / 1_000_000;
+  return usd * USD_TO_BRL;
+};
+
+export interface CorrectionCost {
+  correctionId: string;
+  userId?: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  imageBytes: number;
+  costBrl: number;
+  credits: number; // Credits actually billed, from the charge row (several in consensus mode); 0 when the run was free
+  createdAt: string; // First call of the correction
+}
+
+export const CREDIT_CHARGE_OPERATION = 'creditCharge';
+
+// Row logged when a correction is billed; cancelled, failed and admin analyses have none
+export const createCreditChargeRecord = (correctionId: string, credits: number): AIUsageRecord => ({
+  correctionId,
+  operation: CREDIT_CHARGE_OPERATION,
+  provider: '',
+  model: '',
+  inputTokens: 0,
+  outputTokens: 0,
+  latencyMs: 0,
+  imageBytes: 0,
+  creditsCharged: credits,
+  createdAt: new Date().toISOString(),
+});
+
+// Groups the usage log by correction; calls made outside a correction (e.g. on OMR readings) are left out
+export const summarizeCorrectionCosts = (records: AIUsageRecord[]): CorrectionCost[] => {
+  const byCorrection = new Map<string, CorrectionCost>();
+
+  records.forEach(record => {
+    const key = record.correctionId;
+    if (!key) return;
+    const current = byCorrection.get(key) || {
+      correctionId: key,
+      userId: record.userId,
+      model: record.model,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs: 0,
+      imageBytes: 0,
+      costBrl: 0,
+      credits: 0,
+      createdAt: record.createdAt,
+    };
+
+    if (record.operation === CREDIT_CHARGE_OPERATION) {
+      current.credits += record.creditsCharged || 0;
+      byCorrection.set(key, current);
+      return;
+    }
+    if (!current.model) current.model = record.model;
+    current.calls += 1;
+    current.inputTokens += record.inputTokens;
+    current.outputTokens += record.outputTokens;
+    current.latencyMs += record.latencyMs;
+    current.imageBytes += record.imageBytes;
+    current.costBrl += getUsageCostBrl(record);
+    if (record.createdAt < current.createdAt) current.createdAt = record.createdAt;
+    byCorrection.set(key, current);
+  });
+
+  return [...byCorrection.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export interface PackageMargin {
+  label: string;
+  credits: number;
+  price: number;
+  pricePerCredit: number;
+  costPerCredit: number;
+  marginPerCredit: number;
+  marginPercent: number;
+}
+
+// What one credit costs in AI usage, over the corrections that were billed (a consensus correction is charged several credits)
+export const getCostPerCredit = (corrections: CorrectionCost[]) => {
+  const billed = corrections.filter(c => c.credits > 0);
+  const credits = billed.reduce((sum, c) => sum + c.credits, 0);
+  return credits > 0 ? billed.reduce((sum, c) => sum + c.costBrl, 0) / credits : 0;
+};
+
+export const computePackageMargins = (
+  packages: { label: string; credits: number; price: number }[],
+  costPerCredit: number
+): PackageMargin[] => packages.map(pkg => {
+  const pricePerCredit = pkg.price / pkg.credits;
+  const marginPerCredit = pricePerCredit - costPerCredit;
+  return {
+    label: pkg.label,
+    credits: pkg.credits,
+    price: pkg.price,
+    pricePerCredit,
+    costPerCredit,
+    marginPerCredit,
+    marginPercent: pricePerCredit > 0 ? (marginPerCredit / pricePerCredit) * 100 : 0,
+  };
+});
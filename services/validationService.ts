@@ -0,0 +1,117 @@
+import { AnswerKey, CorrectionResult, QuestionResult, ValidationWarning } from "../types";
+import { copyQuestionNumber, findAnswerKeyItem, normalizeQuestionNumber } from "./answerKeyService";
+import { normalizeBox } from "./regionService";
+import { normalizeConfidence } from "./reviewService";
+import { calculateTotals } from "./scoreService";
+import { resolveQuestionSkills } from "./skillService";
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = parseFloat(value.replace(',', '.'));
+    return isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+// Repairs inconsistencies in the AI output (scores, totals, duplicated numbers) and records every change
+export const validateCorrectionResult = (raw: CorrectionResult, answerKey?: AnswerKey): CorrectionResult => {
+  const warnings: ValidationWarning[] = [];
+  const seenNumbers = new Map<string, number>();
+
+  const rawQuestions: QuestionResult[] = Array.isArray(raw.questions) ? raw.questions : [];
+  if (!Array.isArray(raw.questions)) {
+    warnings.push({ kind: 'corrected', field: 'questions', message: "A IA não retornou a lista de questões." });
+  }
+
+  const questions = rawQuestions.map((original, idx) => {
+    const q: QuestionResult = { ...original };
+    q.type = q.type === 'context' ? 'context' : 'question';
+    q.questionNumber = String(q.questionNumber ?? '').trim();
+    q.questionText = q.questionText || '';
+    q.questionBox = normalizeBox(q.questionBox);
+    q.answerBox = q.type === 'context' ? undefined : normalizeBox(q.answerBox);
+
+    if (q.type === 'context') return q;
+
+    if (!q.questionNumber) {
+      q.questionNumber = String(idx + 1);
+      warnings.push({ kind: 'corrected', questionNumber: q.questionNumber, field: 'questionNumber', message: "Questão sem número; numerada pela posição.", correctedValue: q.questionNumber });
+    }
+
+    // Looked up before a duplicate is renamed, so the renamed copy keeps the value and weight of its key item
+    const keyItem = answerKey ? findAnswerKeyItem(answerKey, q.questionNumber) : undefined;
+
+    // Duplicated numbers get a suffix so each card stays identifiable
+    const normalized = normalizeQuestionNumber(q.questionNumber);
+    const occurrences = (seenNumbers.get(normalized) || 0) + 1;
+    seenNumbers.set(normalized, occurrences);
+    if (occurrences > 1) {
+      const renamed = copyQuestionNumber(q.questionNumber, occurrences);
+      warnings.push({ kind: 'corrected', questionNumber: renamed, field: 'questionNumber', message: `Número de questão repetido; renomeada para "${renamed}".`, originalValue: q.questionNumber, correctedValue: renamed });
+      q.questionNumber = renamed;
+    }
+
+    // Teacher's answer key is authoritative for the question value
+    let maxScore = toNumber(q.maxScore);
+    if (keyItem) {
+      if (maxScore !== keyItem.maxScore) {
+        warnings.push({ kind: 'corrected', questionNumber: q.questionNumber, field: 'maxScore', message: "Valor da questão ajustado ao gabarito.", originalValue: q.maxScore ?? null, correctedValue: keyItem.maxScore });
+      }
+      maxScore = keyItem.maxScore;
+      q.weight = keyItem.weight;
+    } else if (maxScore === undefined || maxScore < 0) {
+      const assumed = Math.max(toNumber(q.score) || 0, 1);
+      warnings.push({ kind: 'corrected', questionNumber: q.questionNumber, field: 'maxScore', message: `Valor da questão ausente; assumido ${assumed}.`, originalValue: q.maxScore ?? null, correctedValue: assumed });
+      maxScore = assumed;
+    }
+    q.maxScore = maxScore;
+    Object.assign(q, resolveQuestionSkills(q.skills, keyItem));
+
+    let score = toNumber(q.score);
+    if (score === undefined) {
+      warnings.push({ kind: 'corrected', questionNumber: q.questionNumber, field: 'score', message: "Nota ausente; considerada 0.", originalValue: q.score ?? null, correctedValue: 0 });
+      score = 0;
+    } else if (score < 0) {
+      warnings.push({ kind: 'corrected', questionNumber: q.questionNumber, field: 'score', message: "Nota negativa ajustada para 0.", originalValue: score, correctedValue: 0 });
+      score = 0;
+    } else if (score > maxScore) {
+      warnings.push({ kind: 'corrected', questionNumber: q.questionNumber, field: 'score', message: `Nota acima do valor da questão; limitada a ${maxScore}.`, originalValue: score, correctedValue: maxScore });
+      score = maxScore;
+    }
+    q.score = score;
+
+    // Contradictions are only flagged: the teacher decides which side is right
+    if (q.isCorrect === true && score === 0 && maxScore > 0) {
+      warnings.push({ kind: 'flagged', questionNumber: q.questionNumber, field: 'isCorrect', message: "Marcada como correta, mas com nota 0." });
+    } else if (q.isCorrect === false && score >= maxScore && maxScore > 0) {
+      warnings.push({ kind: 'flagged', questionNumber: q.questionNumber, field: 'isCorrect', message: "Marcada como incorreta, mas com nota máxima." });
+    }
+    q.isCorrect = q.isCorrect === true;
+    q.confidence = normalizeConfidence(q.confidence);
+    q.reviewed = false;
+
+    return q;
+  });
+
+  const totals = calculateTotals(questions);
+  const reportedTotal = toNumber(raw.totalScore);
+  if (reportedTotal !== totals.totalScore) {
+    warnings.push({ kind: 'corrected', field: 'totalScore', message: "Nota total recalculada pela soma das questões.", originalValue: raw.totalScore ?? null, correctedValue: totals.totalScore });
+  }
+  const reportedMax = toNumber(raw.maxTotalScore);
+  if (reportedMax !== totals.maxTotalScore) {
+    warnings.push({ kind: 'corrected', field: 'maxTotalScore', message: reportedMax === undefined ? "Nota máxima ausente; calculada pela soma das questões." : "Nota máxima recalculada pela soma das questões.", originalValue: raw.maxTotalScore ?? null, correctedValue: totals.maxTotalScore });
+  }
+
+  return {
+    ...raw,
+    studentName: raw.studentName || 'Não identificado',
+    summary: raw.summary || '',
+    fullTranscription: raw.fullTranscription || '',
+    questions,
+    ...totals,
+    validationWarnings: warnings,
+    isFinal: false,
+  };
+};
@@ -12,6 +12,7 @@ export interface User {
 }
 
 export interface QuestionResult {
+  id?: string; // Stable identity of the item while the teacher edits the list (not produced by the AI)
   type?: 'question' | 'context';
   questionNumber: string;
   questionText: string;
@@ -21,9 +22,186 @@ export interface QuestionResult {
   score?: number; // Optional for context
   maxScore?: number; // Optional for context
   feedback?: string; // Optional for context
+  page?: number; // 1-based page of the exam where the item appears
+  weight?: number; // Multiplier applied to score/maxScore in the totals (defaults to 1)
+  rubricScores?: RubricCriterionScore[]; // Present when the question was graded with a rubric
+  questionBox?: BoundingBox; // Region of the whole item on its page
+  answerBox?: BoundingBox; // Region of the student's answer on its page
+  confidence?: QuestionConfidence; // Model's self-reported certainty (0-1) for each judgement
+  reviewed?: boolean; // Set when the teacher has checked a flagged question
+  opinions?: GradingOpinion[]; // Consensus mode: the judgement of every run, in run order
+  disagreement?: boolean; // Consensus runs disagreed on isCorrect or on the score beyond the tolerance
+  mathCheck?: MathCheck; // Deterministic comparison of numeric / algebraic answers with the key
+  skills?: string[]; // BNCC skill codes (e.g. EF06MA03)
+  skillsConfirmed?: boolean; // Set by the teacher (or taken from the answer key); otherwise suggested by the model
+}
+
+// Result of comparing the student's math answer with the answer key without the AI
+export interface MathCheck {
+  verdict: 'equivalent' | 'different';
+  studentAnswer: string; // Transcription that was checked; the check is stale once the teacher edits it
+  matchedAnswer: string; // Key answer (or accepted variant) it was compared with
+  explanation: string;
+  aiIsCorrect: boolean; // AI verdict before the check
+  overridden: boolean; // The check replaced the AI verdict (otherwise a disagreement is only flagged)
+}
+
+// One consensus run's judgement of a question
+export interface GradingOpinion {
+  run: number; // 1-based
+  model: string;
+  studentAnswer: string;
+  isCorrect: boolean;
+  score: number;
+  feedback: string;
+  rubricScores?: RubricCriterionScore[];
+}
+
+export interface QuestionConfidence {
+  transcription: number; // Reading of the handwritten answer
+  correctness: number; // Right/wrong decision
+  score: number; // Points awarded
+}
+
+// Rectangle on a page, normalized to 0-1000 on both axes (independent of the image resolution)
+export interface BoundingBox {
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
+export interface RubricLevel {
+  label: string; // e.g. "Insuficiente", "Adequado"
+  points: number;
+}
+
+// A teacher-defined rubric criterion with its achievement levels
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  levels: RubricLevel[];
+}
+
+// Grade of one criterion; keeps a copy of the levels so the result stays self-contained
+export interface RubricCriterionScore {
+  criterionId: string;
+  name: string;
+  levels: RubricLevel[];
+  levelIndex: number;
+  justification: string;
+}
+
+export type AnswerKeyQuestionType = 'multiple_choice' | 'numeric' | 'short_answer' | 'essay';
+
+// One question of the teacher's answer key (gabarito)
+export interface AnswerKeyItem {
+  id: string;
+  questionNumber: string;
+  type: AnswerKeyQuestionType;
+  expectedAnswer: string;
+  acceptedVariants: string[];
+  maxScore: number;
+  weight: number;
+  rubric?: RubricCriterion[]; // Optional, for short answer and essay questions
+  skills?: string[]; // BNCC skill codes assessed by the question
+}
+
+// Question read from a blank (or teacher-filled) exam; the teacher reviews it before it becomes the answer key
+export interface ExtractedAnswerKeyItem extends AnswerKeyItem {
+  questionText: string;
+  alternatives: string[];
+  answerSource: 'marked' | 'proposed'; // Marked on the teacher's filled copy, or solved by the AI
+  confidence: number; // 0-1 certainty about the expected answer
+  included: boolean; // Unchecked items are left out of the confirmed key
+}
+
+export interface AnswerKey {
+  items: AnswerKeyItem[];
+  instructions: string; // Optional free-text instructions for the AI
+  scoringPolicy?: ScoringPolicy; // Grading rules of this exam; the school default applies when absent
+}
+
+// How the final grade is expressed: exam points, 0-10, 0-100 or letter concepts
+export type GradeScale = 'points' | 'ten' | 'hundred' | 'concept';
+
+export type GradeRounding = 'none' | 'one-decimal' | 'half' | 'integer';
+
+export interface ConceptBand {
+  concept: string; // e.g. "A"
+  minPercent: number; // Lowest percentage of the maximum that earns the concept
+}
+
+// School/exam rules turning the (weighted) question scores into the final grade
+export interface ScoringPolicy {
+  scale: GradeScale;
+  rounding: GradeRounding; // Applied to the final grade (ignored for concepts)
+  passingPercent: number; // 0-100, share of the maximum needed to pass
+  conceptBands: ConceptBand[]; // Used by the 'concept' scale, from best to worst
+  wrongAnswerPenalty: number; // Fraction of the item value deducted for each wrong multiple-choice answer (blank answers are not penalized)
+}
+
+// Records an automatic fix (or a suspicious value) found while validating the AI output
+export interface ValidationWarning {
+  kind: 'corrected' | 'flagged';
+  questionNumber?: string; // Absent for exam-level issues (e.g. totals)
+  field: string;
+  message: string;
+  originalValue?: string | number | boolean | null;
+  correctedValue?: string | number | boolean | null;
+}
+
+// Token usage of a single AI call, used to measure what each correction really costs
+export interface AIUsageRecord {
+  correctionId?: string; // Groups the calls of one correction (analysis, rubric passes, re-evaluations, summaries)
+  userId?: string; // Filled when the records are read back for the admin report
+  operation: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  imageBytes: number; // Total size of the page images sent; 0 for text-only calls
+  creditsCharged?: number; // Only on the row written when the correction is billed (no AI call, no tokens)
+  createdAt: string; // ISO timestamp
+}
+
+// How the AI writes feedback and summaries; remembered as a teacher preference
+export type FeedbackLanguage = 'pt' | 'en' | 'es';
+export type FeedbackAudience = 'student' | 'guardian';
+export type FeedbackTone = 'standard' | 'simple' | 'formal';
+
+export interface FeedbackStyle {
+  language: FeedbackLanguage;
+  audience: FeedbackAudience;
+  tone: FeedbackTone;
+}
+
+// AI operations whose instructions can be customized with prompt templates
+export type PromptOperation = 'analyzeExam' | 'reevaluateQuestion' | 'regenerateSummary';
+
+// One saved version of a prompt template. Edits never overwrite: each save inserts version + 1.
+export interface PromptTemplate {
+  id: string; // Id of this version
+  templateId: string; // Shared by every version of the same template
+  version: number;
+  name: string;
+  subject: string; // e.g. "Matemática"
+  gradeLevel: string; // e.g. "2º ano"
+  prompts: Record<PromptOperation, string>; // Instructions with {{variables}}
+  createdAt: string; // ISO timestamp of this version
+  archived?: boolean; // Hidden from teachers; kept so past corrections still resolve
+}
+
+// Which template version produced a correction
+export interface PromptTemplateRef {
+  templateId: string;
+  version: number;
+  name: string;
 }
 
 export interface CorrectionResult {
+  id?: string; // Assigned by the AI analysis; OMR readings have none
   studentName: string;
   schoolName?: string;
   teacherName?: string;
@@ -34,6 +212,143 @@ export interface CorrectionResult {
   summary: string;
   fullTranscription: string;
   questions: QuestionResult[];
+  validationWarnings?: ValidationWarning[];
+  isFinal?: boolean; // Teacher confirmed the correction; requires every flagged question to be reviewed
+  usage?: AIUsageRecord[]; // Calls made by the initial analysis
+  promptTemplate?: PromptTemplateRef; // Template version used by the AI analysis
+  feedbackStyle?: FeedbackStyle; // Style of the AI feedback; re-evaluations and summaries keep it
+  consensusRuns?: number; // Consensus mode: grading runs that finished (one credit each)
+  aiOriginal?: CorrectionSnapshot; // Result as returned by the AI, kept from the teacher's first edit
+  editLog?: EditLogEntry[]; // Field changes made after the analysis, oldest first
+  annotations?: PageAnnotation[]; // Teacher's pen marks over the exam pages
+}
+
+// Header and questions of a correction at one point in time
+export type CorrectionSnapshot = Pick<CorrectionResult, 'studentName' | 'schoolName' | 'teacherName' | 'className' | 'examDate' | 'summary' | 'totalScore' | 'maxTotalScore' | 'questions'>;
+
+export type EditSource = 'teacher' | 'ai'; // 'ai' when the teacher asked for a re-evaluation
+
+export interface EditLogEntry {
+  at: string; // ISO timestamp
+  questionNumber?: string; // Absent for header fields
+  field: string;
+  before: string; // Values formatted for display
+  after: string;
+  source: EditSource;
+}
+
+export type AnnotationKind = 'check' | 'cross' | 'stroke' | 'text' | 'score';
+
+// Position on an exam page, in the 0-1000 scale of BoundingBox
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+// Pen mark drawn by the teacher over an exam page
+export interface PageAnnotation {
+  id: string;
+  pageIndex: number; // 0-based index of the exam image
+  kind: AnnotationKind;
+  points: AnnotationPoint[]; // Anchor of marks, notes and stamps; the whole path of a free-hand stroke
+  text?: string; // Text notes; score stamps keep the score shown when placed
+  questionNumber?: string; // Question the mark refers to (score stamps follow its current score)
+  color: string;
+}
+
+export type RecoveryDifficulty = 'easy' | 'medium' | 'hard';
+
+// Practice question generated from a question the student missed
+export interface RecoveryQuestion {
+  sourceQuestionNumber: string; // Exam question it reinforces
+  skill: string; // Skill / content being practiced
+  difficulty: RecoveryDifficulty;
+  questionText: string;
+  alternatives: string[]; // Empty for open questions
+  answer: string; // Letter for multiple choice, expected answer otherwise
+  explanation: string; // Worked solution printed in the answer key
+}
+
+// Printable practice list built from the mistakes of one correction
+export interface RecoveryWorksheet {
+  correctionId?: string;
+  studentName: string;
+  schoolName?: string;
+  className?: string;
+  teacherName?: string;
+  createdAt: string;
+  questions: RecoveryQuestion[];
+}
+
+// Printable bubble sheet (cartão-resposta) read locally, without the AI
+export interface OmrSheetLayout {
+  title: string;
+  questionCount: number;
+  alternativeCount: number; // 4 (A-D) or 5 (A-E)
+}
+
+// A single uploaded page (photo or rasterized PDF page), kept in reading order
+export interface ExamPage {
+  id: string;
+  file: File; // Image sent to the analysis (preprocessed when enabled)
+  previewUrl: string;
+  original?: { file: File; previewUrl: string }; // Upload as received, kept for before/after and re-cropping
+  corners?: PageCorners; // Page outline used for the perspective crop
+}
+
+// Point normalized to 0-1 over the (EXIF-rotated) original image
+export interface NormalizedPoint {
+  x: number;
+  y: number;
+}
+
+// Page outline in the order top-left, top-right, bottom-right, bottom-left
+export type PageCorners = [NormalizedPoint, NormalizedPoint, NormalizedPoint, NormalizedPoint];
+
+// --- Redação (ENEM-style essay) ---
+
+export type EssayZeroReason =
+  | 'fuga_ao_tema'
+  | 'tipo_textual'
+  | 'texto_insuficiente'
+  | 'parte_desconectada'
+  | 'copia_texto_motivador'
+  | 'identificacao'
+  | 'folha_em_branco';
+
+export interface EssayCompetenceScore {
+  competence: number; // 1 to 5
+  score: number; // 0 to 200, in steps of 40
+  justification: string;
+}
+
+export interface EssayResult {
+  id?: string;
+  studentName: string;
+  schoolName?: string;
+  teacherName?: string;
+  className?: string;
+  examDate?: string;
+  theme: string;
+  transcription: string;
+  competences: EssayCompetenceScore[];
+  totalScore: number; // 0 to 1000
+  zeroReason?: EssayZeroReason;
+  zeroExplanation?: string;
+  summary: string;
+  usage?: AIUsageRecord[];
+}
+
+export type BatchItemStatus = 'queued' | 'analyzing' | 'done' | 'failed';
+
+// One student's exam inside a batch (class) correction session
+export interface BatchItem {
+  id: string;
+  label: string; // Original file name, replaced by the student name once analyzed
+  pages: ExamPage[];
+  status: BatchItemStatus;
+  result?: CorrectionResult;
+  error?: string;
 }
 
 export enum AppState {
@@ -44,6 +359,18 @@ export enum AppState {
 }
 
 // Schema definitions for Gemini
+const boundingBoxSchema = (description: string) => ({
+  type: Type.OBJECT,
+  description,
+  properties: {
+    ymin: { type: Type.INTEGER },
+    xmin: { type: Type.INTEGER },
+    ymax: { type: Type.INTEGER },
+    xmax: { type: Type.INTEGER }
+  },
+  required: ["ymin", "xmin", "ymax", "xmax"]
+});
+
 export const correctionSchema = {
   type: Type.OBJECT,
   properties: {
@@ -54,8 +381,6 @@ export const correctionSchema = {
     examDate: { type: Type.STRING, description: "Data da prova, se visível." },
     totalScore: { type: Type.NUMBER, description: "Nota total obtida pelo aluno" },
     maxTotalScore: { type: Type.NUMBER, description: "Nota máxima possível da prova" },
-    summary: { type: Type.STRING, description: "Um resumo geral sobre o desempenho do aluno e pontos de atenção." },
-    fullTranscription: { type: Type.STRING, description: "A transcrição completa de todo o texto visível na imagem da prova, incluindo enunciados e respostas." },
     questions: {
       type: Type.ARRAY,
       items: {
@@ -77,11 +402,123 @@ export const correctionSchema = {
           isCorrect: { type: Type.BOOLEAN, description: "Se a resposta está correta (apenas para type='question')." },
           score: { type: Type.NUMBER, description: "Nota dada (apenas para type='question')." },
           maxScore: { type: Type.NUMBER, description: "Valor total da questão (apenas para type='question')." },
-          feedback: { type: Type.STRING, description: "Comentário explicativo (apenas para type='question')." }
+          feedback: { type: Type.STRING, description: "Comentário explicativo (apenas para type='question')." },
+          skills: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Códigos das habilidades da BNCC avaliadas (ex: 'EF06MA03'), apenas para type='question'."
+          },
+          page: { type: Type.INTEGER, description: "Número da página (começando em 1) onde o item aparece." },
+          questionBox: boundingBoxSchema("Região do item inteiro na página, em coordenadas de 0 a 1000."),
+          answerBox: boundingBoxSchema("Região da resposta do aluno na página, em coordenadas de 0 a 1000 (apenas para type='question')."),
+          confidence: {
+            type: Type.OBJECT,
+            description: "Grau de certeza (0 a 1) da análise (apenas para type='question').",
+            properties: {
+              transcription: { type: Type.NUMBER, description: "Certeza da leitura/transcrição da resposta do aluno." },
+              correctness: { type: Type.NUMBER, description: "Certeza da decisão de certo/errado." },
+              score: { type: Type.NUMBER, description: "Certeza da nota atribuída." }
+            },
+            required: ["transcription", "correctness", "score"]
+          }
         },
-        required: ["type", "questionNumber", "questionText"]
+        required: ["type", "questionNumber", "questionText"],
+        propertyOrdering: [
+          "type", "questionNumber", "questionText", "alternatives", "studentAnswer", "isCorrect", "score", "maxScore",
+          "feedback", "skills", "page", "questionBox", "answerBox", "confidence",
+        ],
+      }
+    },
+    fullTranscription: { type: Type.STRING, description: "A transcrição completa de todo o texto visível na imagem da prova, incluindo enunciados e respostas." },
+    summary: { type: Type.STRING, description: "Um resumo geral sobre o desempenho do aluno e pontos de atenção." },
+  },
+  required: ["studentName", "totalScore", "maxTotalScore", "summary", "fullTranscription", "questions"],
+  // Gemini orders properties alphabetically by default; streaming needs the header first, then the questions,
+  // with the long transcription and the summary (which depends on every question) at the end
+  propertyOrdering: [
+    "studentName", "schoolName", "teacherName", "className", "examDate", "totalScore", "maxTotalScore",
+    "questions", "fullTranscription", "summary",
+  ],
+};
+
+export const answerKeyExtractionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          questionNumber: { type: Type.STRING, description: "Número da questão como aparece na prova (ex: '1', '13 a')." },
+          type: { type: Type.STRING, enum: ["multiple_choice", "numeric", "short_answer", "essay"], description: "Tipo da questão." },
+          questionText: { type: Type.STRING, description: "Enunciado da questão." },
+          alternatives: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Alternativas, sem a letra, na ordem da prova (vazio se não houver)." },
+          expectedAnswer: { type: Type.STRING, description: "Resposta correta: a letra da alternativa nas questões de múltipla escolha, o valor nas numéricas ou a resposta esperada." },
+          acceptedVariants: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Outras formas aceitáveis da resposta (ex: '0,5' para '1/2')." },
+          maxScore: { type: Type.NUMBER, description: "Valor da questão indicado na prova; 1 se a prova não indicar." },
+          skills: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Códigos das habilidades da BNCC avaliadas (ex: 'EF06MA03'); vazio se não tiver certeza." },
+          answerSource: { type: Type.STRING, enum: ["marked", "proposed"], description: "'marked' se a resposta está marcada/escrita na cópia do professor; 'proposed' se foi resolvida pela IA." },
+          confidence: { type: Type.NUMBER, description: "Certeza de 0 a 1 sobre a resposta correta." }
+        },
+        required: ["questionNumber", "type", "questionText", "expectedAnswer", "maxScore", "answerSource", "confidence"]
       }
     }
   },
-  required: ["studentName", "totalScore", "summary", "fullTranscription", "questions"]
-};
\ No newline at end of file
+  required: ["questions"]
+};
+
+export const recoveryWorksheetSchema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sourceQuestionNumber: { type: Type.STRING, description: "Número da questão da prova que a nova questão reforça." },
+          skill: { type: Type.STRING, description: "Habilidade ou conteúdo trabalhado (ex: 'Soma de frações com denominadores diferentes')." },
+          difficulty: { type: Type.STRING, enum: ["easy", "medium", "hard"], description: "Dificuldade, igual à da questão original." },
+          questionText: { type: Type.STRING, description: "Enunciado da nova questão." },
+          alternatives: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Alternativas, sem a letra (vazio para questões abertas)." },
+          answer: { type: Type.STRING, description: "Resposta correta: apenas a letra nas questões de múltipla escolha." },
+          explanation: { type: Type.STRING, description: "Resolução comentada para o gabarito." }
+        },
+        required: ["sourceQuestionNumber", "skill", "difficulty", "questionText", "answer", "explanation"]
+      }
+    }
+  },
+  required: ["questions"]
+};
+
+export const essaySchema = {
+  type: Type.OBJECT,
+  properties: {
+    studentName: { type: Type.STRING, description: "Nome do aluno identificado na folha (ou 'Não identificado')" },
+    schoolName: { type: Type.STRING, description: "Nome da escola, se visível." },
+    teacherName: { type: Type.STRING, description: "Nome do professor, se visível." },
+    className: { type: Type.STRING, description: "Turma ou série, se visível." },
+    examDate: { type: Type.STRING, description: "Data, se visível." },
+    theme: { type: Type.STRING, description: "Tema da redação (o informado pelo professor ou o identificado na folha)." },
+    transcription: { type: Type.STRING, description: "Transcrição fiel e completa do texto manuscrito, preservando parágrafos e erros do aluno." },
+    competences: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          competence: { type: Type.INTEGER, description: "Número da competência (1 a 5)." },
+          score: { type: Type.INTEGER, description: "Nota da competência: 0, 40, 80, 120, 160 ou 200." },
+          justification: { type: Type.STRING, description: "Justificativa da nota, citando trechos do texto." }
+        },
+        required: ["competence", "score", "justification"]
+      }
+    },
+    zeroReason: {
+      type: Type.STRING,
+      enum: ["fuga_ao_tema", "tipo_textual", "texto_insuficiente", "parte_desconectada", "copia_texto_motivador", "identificacao", "folha_em_branco"],
+      description: "Preencha APENAS se a redação deve receber nota zero."
+    },
+    zeroExplanation: { type: Type.STRING, description: "Explicação do motivo da nota zero, se houver." },
+    summary: { type: Type.STRING, description: "Comentário geral sobre o texto, com pontos fortes e o que melhorar." }
+  },
+  required: ["studentName", "theme", "transcription", "competences", "summary"]
+};